@@ -0,0 +1,44 @@
+import { IncomingMessage } from "http";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createAdminAuth, hashPassword } from "./adminAuth";
+import { HttpError } from "./http";
+
+const PASSWORD = 'correct horse battery';
+
+const makeRequest = (ip = '203.0.113.7') => ({ headers: {}, socket: { remoteAddress: ip } }) as unknown as IncomingMessage;
+
+const statusOf = (attempt: Promise<unknown>) =>
+  attempt.then(() => 200, (error) => (error instanceof HttpError ? error.status : 500));
+
+describe('admin login lockout', () => {
+  beforeEach(async () => {
+    // Few iterations keep the test fast; the account carries its own count
+    const account = { username: 'owner', role: 'owner', ...(await hashPassword(PASSWORD, undefined, 1000)) };
+    process.env.ADMIN_ACCOUNTS = JSON.stringify([account]);
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_ACCOUNTS;
+  });
+
+  it('gives parallel guesses no more attempts than sequential ones', async () => {
+    const auth = createAdminAuth();
+    const statuses = await Promise.all(
+      Array.from({ length: 12 }, () => statusOf(auth.login(makeRequest(), 'owner', 'wrong password')))
+    );
+
+    expect(statuses.filter((status) => status === 401)).toHaveLength(5);
+    expect(statuses.filter((status) => status === 429)).toHaveLength(7);
+    // The right password is locked out too until the window passes
+    expect(await statusOf(auth.login(makeRequest(), 'owner', PASSWORD))).toBe(429);
+  });
+
+  it('does not count a successful login against the client', async () => {
+    const auth = createAdminAuth();
+    for (let i = 0; i < 4; i++) {
+      expect(await statusOf(auth.login(makeRequest(), 'owner', 'wrong password'))).toBe(401);
+    }
+    expect(await statusOf(auth.login(makeRequest(), 'owner', PASSWORD))).toBe(200);
+    expect(await statusOf(auth.login(makeRequest(), 'owner', 'wrong password'))).toBe(401);
+  });
+});
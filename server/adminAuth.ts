@@ -0,0 +1,167 @@
+import { IncomingMessage } from "http";
+import { pbkdf2, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { existsSync, readFileSync } from "fs";
+import { HttpError } from "./http";
+import { getDataPath } from "./jsonFileStore";
+import { getClientIp } from "./rateLimit";
+
+// Admin accounts for the code generator and ledger.
+// - Passwords are stored as PBKDF2-SHA256 hashes (see `npm run admin:add`), never in the bundle.
+// - Accounts come from ADMIN_ACCOUNTS (JSON array) or data/admins.json.
+// - Sessions are random bearer tokens kept in memory, with an absolute lifetime.
+// - Repeated failures lock the username (and, more loosely, the client IP) for a while. Attempts are
+//   counted before the password is hashed, so parallel requests cannot get more guesses than that.
+
+const pbkdf2Async = promisify(pbkdf2);
+
+export type AdminRole = 'owner' | 'staff' | 'viewer';
+
+export interface AdminAccount {
+  username: string;
+  role: AdminRole;
+  salt: string; // hex
+  hash: string; // hex
+  iterations: number;
+}
+
+export interface AdminSession {
+  token: string;
+  username: string;
+  role: AdminRole;
+  expiresAt: number;
+}
+
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'staff', 'viewer'];
+export const PBKDF2_ITERATIONS = 310000;
+const KEY_LENGTH = 32;
+
+const DEFAULT_SESSION_HOURS = 8;
+const MAX_FAILURES_PER_USER = 5;
+const MAX_FAILURES_PER_IP = 20;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+export const hashPassword = async (password: string, salt = randomBytes(16).toString('hex'), iterations = PBKDF2_ITERATIONS) => {
+  const hash = await pbkdf2Async(password, Buffer.from(salt, 'hex'), iterations, KEY_LENGTH, 'sha256');
+  return { salt, hash: hash.toString('hex'), iterations };
+};
+
+const isAccount = (value: any): value is AdminAccount => {
+  return value && typeof value.username === 'string' && ADMIN_ROLES.includes(value.role)
+    && typeof value.salt === 'string' && typeof value.hash === 'string' && value.iterations > 0;
+};
+
+export const getAccountsPath = () => getDataPath('admins.json');
+
+const loadAccounts = (): AdminAccount[] => {
+  let raw: unknown = [];
+  try {
+    if (process.env.ADMIN_ACCOUNTS) {
+      raw = JSON.parse(process.env.ADMIN_ACCOUNTS);
+    } else if (existsSync(getAccountsPath())) {
+      raw = JSON.parse(readFileSync(getAccountsPath(), 'utf8'));
+    }
+  } catch (error) {
+    console.error("Failed to read admin accounts:", error);
+  }
+
+  const accounts = Array.isArray(raw) ? raw.filter(isAccount) : [];
+  if (accounts.length === 0) {
+    console.warn("No admin accounts configured. Add one with `npm run admin:add`.");
+  }
+  return accounts;
+};
+
+export const createAdminAuth = () => {
+  // Read here, not at import time, so values from .env files (loaded in index.ts) apply
+  const sessionTtlMs = (Number(process.env.ADMIN_SESSION_HOURS) || DEFAULT_SESSION_HOURS) * 60 * 60 * 1000;
+  const accounts = new Map(loadAccounts().map((account) => [account.username.toLowerCase(), account]));
+  const sessions = new Map<string, AdminSession>();
+  const failures = new Map<string, { count: number; lockedUntil: number }>();
+  // Unknown usernames still pay for a hash, so response time does not reveal which accounts exist
+  const dummy = { salt: randomBytes(16).toString('hex'), iterations: PBKDF2_ITERATIONS };
+
+  const isLocked = (key: string, now: number) => (failures.get(key)?.lockedUntil || 0) > now;
+
+  // Counts the attempt as a failure up front; a successful login gives it back
+  const reserveAttempt = (key: string, limit: number, now: number) => {
+    const entry = failures.get(key) || { count: 0, lockedUntil: 0 };
+    entry.count += 1;
+    if (entry.count >= limit) {
+      entry.lockedUntil = now + LOCKOUT_MS;
+      entry.count = 0;
+    }
+    failures.set(key, entry);
+  };
+
+  const releaseAttempt = (key: string) => {
+    const entry = failures.get(key);
+    if (entry && entry.count > 0) entry.count -= 1;
+  };
+
+  const pruneSessions = (now: number) => {
+    sessions.forEach((session, token) => {
+      if (session.expiresAt <= now) sessions.delete(token);
+    });
+  };
+
+  const login = async (req: IncomingMessage, username: string, password: string): Promise<AdminSession> => {
+    const now = Date.now();
+    const userKey = `user:${username.toLowerCase()}`;
+    const ipKey = `ip:${getClientIp(req)}`;
+
+    if (isLocked(userKey, now) || isLocked(ipKey, now)) {
+      throw new HttpError(429, 'Too many failed attempts. Try again later.');
+    }
+    reserveAttempt(userKey, MAX_FAILURES_PER_USER, now);
+    reserveAttempt(ipKey, MAX_FAILURES_PER_IP, now);
+
+    const account = accounts.get(username.toLowerCase());
+    const { hash } = await hashPassword(password, account?.salt || dummy.salt, account?.iterations || dummy.iterations);
+    const computed = Buffer.from(hash, 'hex');
+    const expected = Buffer.from(account?.hash || '', 'hex');
+    const isValid = !!account && computed.length === expected.length && timingSafeEqual(computed, expected);
+
+    if (!isValid) throw new HttpError(401, 'Invalid username or password');
+
+    failures.delete(userKey);
+    releaseAttempt(ipKey);
+    pruneSessions(now);
+    const session: AdminSession = {
+      token: randomBytes(32).toString('hex'),
+      username: account.username,
+      role: account.role,
+      expiresAt: now + sessionTtlMs,
+    };
+    sessions.set(session.token, session);
+    return session;
+  };
+
+  const getSession = (req: IncomingMessage): AdminSession | null => {
+    const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    const session = token ? sessions.get(token) : undefined;
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      sessions.delete(token);
+      return null;
+    }
+    return session;
+  };
+
+  // Throws 401 without a live session, 403 if the session's role is not allowed
+  const requireAdmin = (req: IncomingMessage, roles: AdminRole[] = ADMIN_ROLES): AdminSession => {
+    const session = getSession(req);
+    if (!session) throw new HttpError(401, 'Unauthorized');
+    if (!roles.includes(session.role)) throw new HttpError(403, 'Forbidden');
+    return session;
+  };
+
+  const logout = (req: IncomingMessage) => {
+    const session = getSession(req);
+    if (session) sessions.delete(session.token);
+  };
+
+  return { login, logout, getSession, requireAdmin };
+};
+
+export type AdminAuth = ReturnType<typeof createAdminAuth>;
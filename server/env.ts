@@ -0,0 +1,21 @@
+import { existsSync, readFileSync } from "fs";
+
+// Loads KEY=VALUE pairs from .env.local / .env into process.env (same files Vite reads).
+// Values already set in the real environment (e.g. on the host) win.
+export const loadEnvFiles = (files = ['.env.local', '.env']) => {
+  for (const file of files) {
+    if (!existsSync(file)) continue;
+
+    for (const rawLine of readFileSync(file, 'utf8').split('\n')) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) continue;
+
+      const separator = line.indexOf('=');
+      if (separator === -1) continue;
+
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim().replace(/^(['"])(.*)\1$/, '$2');
+      if (process.env[key] === undefined) process.env[key] = value;
+    }
+  }
+};
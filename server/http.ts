@@ -0,0 +1,128 @@
+import { IncomingMessage, ServerResponse } from "http";
+
+// Minimal helpers on top of node:http so the server has no framework dependency.
+
+export class HttpError extends Error {
+  status: number;
+  // Machine-readable reason, sent as `error.code` next to the message
+  code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export type RouteParams = Record<string, string>;
+export type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: RouteParams) => Promise<void> | void;
+
+interface Route {
+  method: string;
+  segments: string[];
+  handler: RouteHandler;
+}
+
+export interface Router {
+  add: (method: string, path: string, handler: RouteHandler) => void;
+  handle: (req: IncomingMessage, res: ServerResponse) => Promise<boolean>;
+}
+
+// Paths support `:name` segments, e.g. `/api/orders/:id`
+export const createRouter = (): Router => {
+  const routes: Route[] = [];
+
+  const match = (route: Route, pathSegments: string[]): RouteParams | null => {
+    if (route.segments.length !== pathSegments.length) return null;
+    const params: RouteParams = {};
+    for (let i = 0; i < route.segments.length; i++) {
+      const segment = route.segments[i];
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(pathSegments[i]);
+      } else if (segment !== pathSegments[i]) {
+        return null;
+      }
+    }
+    return params;
+  };
+
+  return {
+    add: (method, path, handler) => {
+      routes.push({ method, segments: path.split('/').filter(Boolean), handler });
+    },
+    handle: async (req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const pathSegments = url.pathname.split('/').filter(Boolean);
+
+      for (const route of routes) {
+        if (route.method !== req.method) continue;
+        const params = match(route, pathSegments);
+        if (!params) continue;
+
+        try {
+          await route.handler(req, res, params);
+        } catch (error) {
+          const status = error instanceof HttpError ? error.status : 500;
+          if (status === 500) console.error("Unhandled route error:", error);
+          if (!res.headersSent) {
+            sendJson(res, status, {
+              error: error instanceof HttpError
+                ? { message: error.message, ...(error.code ? { code: error.code } : {}) }
+                : { message: 'Internal Server Error' },
+            });
+          } else {
+            res.end();
+          }
+        }
+        return true;
+      }
+      return false;
+    },
+  };
+};
+
+export const readBody = async (req: IncomingMessage, limitBytes = 1024 * 1024): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limitBytes) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+export const parseJson = <T>(body: Buffer): T => {
+  try {
+    return JSON.parse(body.toString('utf8') || '{}') as T;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+export const readJson = async <T>(req: IncomingMessage, limitBytes = 1024 * 1024): Promise<T> => {
+  return parseJson<T>(await readBody(req, limitBytes));
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+// Newline-delimited JSON stream: one object per line, flushed as it is produced
+export const startNdjson = (res: ServerResponse) => {
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'X-Accel-Buffering': 'no',
+  });
+  return {
+    write: (line: unknown) => {
+      if (!res.writableEnded) res.write(JSON.stringify(line) + '\n');
+    },
+    end: () => {
+      if (!res.writableEnded) res.end();
+    },
+  };
+};
@@ -0,0 +1,50 @@
+import { createServer } from "http";
+import { loadEnvFiles } from "./env";
+import { createRouter, sendJson } from "./http";
+import { createGeminiUpstream } from "./upstream";
+import { createMockUpstream } from "./mockUpstream";
+import { attachLiveRelay } from "./liveRelay";
+import { registerGeminiRoutes } from "./routes/gemini";
+import { registerLedgerRoutes } from "./routes/ledger";
+import { registerAdminRoutes } from "./routes/admin";
+import { registerRevocationRoutes } from "./routes/revocations";
+import { registerPaymentRoutes } from "./routes/payments";
+import { registerCurriculumRoutes } from "./routes/curriculum";
+import { createPaymentSetup } from "./payments";
+import { createAdminAuth } from "./adminAuth";
+
+// Backend for the app: holds the Gemini keys and proxies chat, TTS and Live calls.
+// Run with `npm run server` (or `npm run server:mock` for offline development).
+
+loadEnvFiles();
+
+const PORT = Number(process.env.PORT) || 8787;
+const useMock = process.argv.includes('--mock') || process.env.MOCK_UPSTREAM === '1';
+
+const upstream = useMock ? createMockUpstream() : createGeminiUpstream();
+const router = createRouter();
+
+router.add('GET', '/api/health', (_req, res) => {
+  sendJson(res, 200, { ok: true, mock: useMock });
+});
+
+registerGeminiRoutes(router, upstream);
+const adminAuth = createAdminAuth();
+registerAdminRoutes(router, adminAuth);
+registerLedgerRoutes(router, adminAuth);
+registerRevocationRoutes(router, adminAuth);
+registerCurriculumRoutes(router, adminAuth);
+registerPaymentRoutes(router, createPaymentSetup(useMock));
+
+const server = createServer(async (req, res) => {
+  const handled = await router.handle(req, res);
+  if (!handled) {
+    sendJson(res, 404, { error: { message: 'Not Found' } });
+  }
+});
+
+attachLiveRelay(server, upstream);
+
+server.listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT}${useMock ? ' (mock upstream)' : ''}`);
+});
@@ -0,0 +1,49 @@
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { rename, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+
+// Tiny persistence for admin data: one JSON file per collection under DATA_DIR.
+// Writes go to a temp file and are renamed over the old one, so a crash never leaves half a file.
+
+export const getDataPath = (file: string) => resolve(process.env.DATA_DIR || 'data', file);
+
+export interface JsonFileStore<T> {
+  read: () => T;
+  write: (value: T) => Promise<void>;
+  update: (change: (value: T) => T) => Promise<T>;
+}
+
+// One instance per file, so routes sharing a file (e.g. payments writing to the ledger) see each other's writes
+const openStores = new Map<string, JsonFileStore<any>>();
+
+export const createJsonFileStore = <T>(path: string, initial: T): JsonFileStore<T> => {
+  const existing = openStores.get(path);
+  if (existing) return existing;
+
+  let value: T = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : initial;
+  // Writes are chained so concurrent requests cannot interleave
+  let pending: Promise<void> = Promise.resolve();
+
+  const write = (next: T) => {
+    value = next;
+    pending = pending.catch(() => undefined).then(async () => {
+      mkdirSync(dirname(path), { recursive: true });
+      const tempPath = `${path}.tmp`;
+      await writeFile(tempPath, JSON.stringify(next, null, 2));
+      await rename(tempPath, path);
+    });
+    return pending;
+  };
+
+  const store: JsonFileStore<T> = {
+    read: () => value,
+    write,
+    update: async (change) => {
+      const next = change(value);
+      await write(next);
+      return next;
+    },
+  };
+  openStores.set(path, store);
+  return store;
+};
@@ -1,6 +1,5 @@
-
 // This utility manages multiple API keys for failover/rotation.
-// It reads from process.env (polyfilled by Vite)
+// It reads from the server's process.env, so the keys never reach the browser bundle.
 
 const getAvailableKeys = () => {
   const keys = [
@@ -40,3 +39,5 @@ export const rotateApiKey = (): boolean => {
   console.log(`API Key rotated from index ${previousIndex} to ${currentKeyIndex}`);
   return true;
 };
+
+export const getKeyCount = (): number => getAvailableKeys().length;
@@ -0,0 +1,79 @@
+import { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { LiveConnection, Upstream } from "./upstream";
+import { createRateLimiter, getClientIp } from "./rateLimit";
+
+// WebSocket relay for the Live voice mode.
+// Client -> server: `{ type: 'setup', systemInstruction }` once, then `{ type: 'audio', data }` (16kHz PCM, base64).
+// Server -> client: `{ type: 'open' }`, `{ type: 'audio', data }` (24kHz PCM), `{ type: 'turnComplete' }`, `{ type: 'error', message }`.
+
+export const LIVE_PATH = '/api/live';
+
+const MAX_MESSAGE_BYTES = 512 * 1024;
+const MAX_INSTRUCTION_CHARS = 24000;
+
+// Live sessions started per client IP
+const sessionLimiter = createRateLimiter(20, 60 * 60 * 1000);
+
+export const attachLiveRelay = (server: Server, upstream: Upstream) => {
+  const wss = new WebSocketServer({ server, path: LIVE_PATH, maxPayload: MAX_MESSAGE_BYTES });
+
+  wss.on('connection', (socket: WebSocket, req) => {
+    let connection: LiveConnection | null = null;
+    let settingUp = false;
+
+    const send = (message: unknown) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    socket.on('message', async (raw) => {
+      let message: { type?: string; systemInstruction?: string; data?: string };
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        send({ type: 'error', message: 'Invalid message' });
+        return;
+      }
+
+      if (message.type === 'setup') {
+        if (connection || settingUp) return;
+        if ((message.systemInstruction || '').length > MAX_INSTRUCTION_CHARS) {
+          send({ type: 'error', message: 'systemInstruction is too long' });
+          socket.close();
+          return;
+        }
+        settingUp = true;
+        try {
+          sessionLimiter.consume(getClientIp(req));
+          connection = await upstream.connectLive(message.systemInstruction || '', {
+            onOpen: () => send({ type: 'open' }),
+            onAudio: (data) => send({ type: 'audio', data }),
+            onTurnComplete: () => send({ type: 'turnComplete' }),
+            onError: (errorMessage) => send({ type: 'error', message: errorMessage }),
+            onClose: () => socket.close(),
+          });
+          // The browser may have hung up while we were connecting
+          if (socket.readyState !== WebSocket.OPEN) connection.close();
+        } catch (error: any) {
+          console.error("Live relay connect error:", error);
+          send({ type: 'error', message: error?.message || 'Live connection failed' });
+          socket.close();
+        } finally {
+          settingUp = false;
+        }
+        return;
+      }
+
+      if (message.type === 'audio' && typeof message.data === 'string') {
+        connection?.sendAudio(message.data);
+      }
+    });
+
+    socket.on('close', () => {
+      connection?.close();
+      connection = null;
+    });
+  });
+
+  return wss;
+};
@@ -0,0 +1,94 @@
+import { Upstream, UpstreamError, UpstreamErrorCode } from "./upstream";
+
+// Offline stand-in for Gemini, enabled with `--mock` or MOCK_UPSTREAM=1.
+// Replies are canned and deterministic so the frontend can be exercised without keys or network.
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 200ms of 24kHz 16-bit mono silence
+const SILENCE_CHUNK = Buffer.alloc(24000 * 0.2 * 2).toString('base64');
+
+// Fills a Gemini response schema with placeholder values: the first enum value, two array items
+const sampleFromSchema = (schema: any): unknown => {
+  switch (schema?.type) {
+    case 'OBJECT':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value)]));
+    case 'ARRAY':
+      return [sampleFromSchema(schema.items), sampleFromSchema(schema.items)];
+    case 'STRING':
+      return schema.enum?.[0] ?? 'نص تجريبي (وضع المحاكاة)';
+    case 'INTEGER':
+    case 'NUMBER':
+      return 0;
+    case 'BOOLEAN':
+      return true;
+    default:
+      return null;
+  }
+};
+
+const lastUserText = (parts: { text?: string }[]) =>
+  parts.map((part) => part.text || '').join(' ').trim();
+
+// A question containing e.g. `mock-error:quota` fails with that error, to try the app's error states
+const MOCK_ERROR = /mock-error:(quota|auth|network|safety|invalid_attachment|timeout|unknown)/;
+
+export const createMockUpstream = (): Upstream => ({
+  async *streamChat(request) {
+    const question = lastUserText(request.message);
+
+    const mockError = MOCK_ERROR.exec(question)?.[1] as UpstreamErrorCode | undefined;
+    if (mockError) throw new UpstreamError(mockError, `Simulated ${mockError} error`);
+
+    // Structured requests get a placeholder document in the requested shape
+    if (request.options?.responseSchema) {
+      yield { text: JSON.stringify(sampleFromSchema(request.options.responseSchema)) };
+      return;
+    }
+
+    const reply = `**رد تجريبي (وضع المحاكاة)**\n\n- سؤالك: ${question || 'بدون نص'}\n- عدد الرسائل السابقة: ${request.history.length}\n- هذا الرد لم يصل إلى Gemini.`;
+    for (const word of reply.split(' ')) {
+      await sleep(20);
+      yield { text: word + ' ' };
+    }
+
+    if (request.options?.useSearch) {
+      yield { text: '', sources: [{ title: 'مصدر تجريبي', uri: 'https://example.com' }] };
+    }
+  },
+
+  async *streamSpeech(text) {
+    // Roughly one silent chunk per sentence
+    const sentences = Math.max(1, text.split(/[.!?؟\n]/).filter((s) => s.trim()).length);
+    for (let i = 0; i < sentences; i++) {
+      await sleep(50);
+      yield SILENCE_CHUNK;
+    }
+  },
+
+  async connectLive(_systemInstruction, handlers) {
+    let receivedChunks = 0;
+    let closed = false;
+
+    setTimeout(() => {
+      if (!closed) handlers.onOpen();
+    }, 100);
+
+    return {
+      sendAudio: () => {
+        if (closed) return;
+        // Answer with a short silent "turn" every ~5 seconds of microphone input
+        receivedChunks++;
+        if (receivedChunks % 20 === 0) {
+          handlers.onAudio(SILENCE_CHUNK);
+          handlers.onTurnComplete();
+        }
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        handlers.onClose();
+      },
+    };
+  },
+});
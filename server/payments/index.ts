@@ -0,0 +1,38 @@
+import { MockPaymentProvider, createMockPaymentProvider } from "./mockProvider";
+import { PaymentProvider } from "./provider";
+import { SANDBOX_LICENSE_PRIVATE_KEY } from "./sandboxKeys";
+
+export interface PaymentSetup {
+  provider: PaymentProvider;
+  // Only in development: enables the sandbox payment page
+  mock?: MockPaymentProvider;
+  // Signs the codes of paid orders; LICENSE_PRIVATE_KEY when unset
+  signingKey?: string;
+}
+
+// Picks the provider from PAYMENT_PROVIDER (the sandbox by default in mock mode).
+// Only the sandbox ships for now: a real gateway (Fawry, Paymob, ...) implements PaymentProvider
+// with its merchant credentials and is added here.
+// The sandbox lets anyone mark an order paid, and paid orders get codes signed with
+// LICENSE_PRIVATE_KEY, so it only runs in mock mode and never next to the signing key.
+// Its orders are signed with the published sandbox key instead (see sandboxKeys.ts).
+export const createPaymentSetup = (useMock: boolean): PaymentSetup | null => {
+  const providerName = process.env.PAYMENT_PROVIDER || (useMock ? 'mock' : '');
+
+  if (providerName === 'mock') {
+    if (!useMock) {
+      throw new Error('PAYMENT_PROVIDER=mock is only allowed when the server runs with --mock (or MOCK_UPSTREAM=1).');
+    }
+    if (process.env.LICENSE_PRIVATE_KEY) {
+      if (process.env.PAYMENT_PROVIDER) {
+        throw new Error('PAYMENT_PROVIDER=mock cannot run while LICENSE_PRIVATE_KEY is set: its free payments would sign real codes.');
+      }
+      console.error('LICENSE_PRIVATE_KEY is set, so the mock payment provider is off; online payments are disabled.');
+      return null;
+    }
+    const mock = createMockPaymentProvider();
+    return { provider: mock.provider, mock, signingKey: SANDBOX_LICENSE_PRIVATE_KEY };
+  }
+  if (providerName) console.error(`Unknown PAYMENT_PROVIDER "${providerName}"; online payments are disabled.`);
+  return null;
+};
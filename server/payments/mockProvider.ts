@@ -0,0 +1,54 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { PaymentEvent, PaymentProvider, PAYMENT_METHODS } from "./provider";
+
+// Sandbox provider for development: no money moves. Fawry payments get a fake reference number,
+// wallet and card payments a local "payment page" (see routes/payments.ts) with Pay / Fail buttons
+// that sends a signed webhook exactly like a real provider would.
+
+const SIGNATURE_HEADER = 'x-mock-signature';
+const FAWRY_EXPIRY_MS = 48 * 60 * 60 * 1000;
+
+export const createMockPaymentProvider = (secret = process.env.PAYMENT_WEBHOOK_SECRET || randomBytes(32).toString('hex')) => {
+  const sign = (body: string) => createHmac('sha256', secret).update(body).digest('hex');
+
+  const provider: PaymentProvider = {
+    name: 'mock',
+    methods: PAYMENT_METHODS,
+
+    createPayment: async (request) => {
+      const providerRef = `MOCK-${randomBytes(6).toString('hex').toUpperCase()}`;
+      if (request.method === 'fawry') {
+        return {
+          providerRef,
+          referenceNumber: String(randomInt(100000000, 999999999)),
+          expiresAt: new Date(Date.now() + FAWRY_EXPIRY_MS).toISOString(),
+        };
+      }
+      return { providerRef, redirectUrl: `/api/payments/mock/pay/${encodeURIComponent(request.orderId)}` };
+    },
+
+    parseWebhook: (rawBody, headers) => {
+      const expected = Buffer.from(sign(rawBody.toString('utf8')));
+      const provided = Buffer.from(String(headers[SIGNATURE_HEADER] || ''));
+      if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) return null;
+
+      try {
+        const event = JSON.parse(rawBody.toString('utf8'));
+        if (typeof event.orderId !== 'string' || (event.status !== 'paid' && event.status !== 'failed')) return null;
+        return { orderId: event.orderId, providerRef: String(event.providerRef || ''), status: event.status };
+      } catch {
+        return null;
+      }
+    },
+  };
+
+  // Builds the webhook request the sandbox page sends
+  const createWebhook = (event: PaymentEvent) => {
+    const body = JSON.stringify(event);
+    return { body, headers: { [SIGNATURE_HEADER]: sign(body) } };
+  };
+
+  return { provider, createWebhook };
+};
+
+export type MockPaymentProvider = ReturnType<typeof createMockPaymentProvider>;
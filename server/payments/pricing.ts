@@ -0,0 +1,23 @@
+import { PLANS, Plan, PlanTier } from "../../src/data/plans";
+
+// Prices come from src/data/plans.ts; PLAN_PRICES (JSON, e.g. {"monthly":350}) overrides them
+// on the server without rebuilding the app. The app shows whatever /api/payments/config returns.
+
+const readOverrides = (): Partial<Record<PlanTier, number>> => {
+  try {
+    return JSON.parse(process.env.PLAN_PRICES || '{}');
+  } catch {
+    console.error("PLAN_PRICES is not valid JSON; using the bundled prices");
+    return {};
+  }
+};
+
+export const getPricedPlans = (): Plan[] => {
+  const overrides = readOverrides();
+  return PLANS.map((plan) => {
+    const override = Number(overrides[plan.id]);
+    return override > 0 ? { ...plan, price: override } : plan;
+  });
+};
+
+export const getPricedPlan = (id: PlanTier): Plan | undefined => getPricedPlans().find((plan) => plan.id === id);
@@ -0,0 +1,41 @@
+import { IncomingHttpHeaders } from "http";
+
+// Payment providers behind one interface, so the checkout routes do not care who collects the money.
+// Egyptian students mostly pay with a Fawry reference code at a kiosk, a mobile wallet
+// (Vodafone Cash etc.) or a card; a provider declares which of these it supports.
+
+export type PaymentMethod = 'fawry' | 'wallet' | 'card';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['fawry', 'wallet', 'card'];
+
+export interface PaymentRequest {
+  orderId: string;
+  amount: number; // EGP
+  method: PaymentMethod;
+  description: string;
+  phone?: string;
+}
+
+// What the student needs to complete the payment
+export interface PaymentInstructions {
+  providerRef: string;
+  // Fawry: the number to pay at any kiosk / in the Fawry app
+  referenceNumber?: string;
+  // Wallet / card: the hosted payment page
+  redirectUrl?: string;
+  expiresAt?: string;
+}
+
+export interface PaymentEvent {
+  orderId: string;
+  providerRef: string;
+  status: 'paid' | 'failed';
+}
+
+export interface PaymentProvider {
+  name: string;
+  methods: PaymentMethod[];
+  createPayment: (request: PaymentRequest) => Promise<PaymentInstructions>;
+  // Returns null when the webhook is not authentic (bad signature) or not about a payment
+  parseWebhook: (rawBody: Buffer, headers: IncomingHttpHeaders) => PaymentEvent | null;
+}
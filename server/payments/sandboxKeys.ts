@@ -0,0 +1,6 @@
+// Published key pair for the sandbox provider, so mock payments can return real, verifiable codes
+// without the production signing key. Build the development app with LICENSE_PUBLIC_KEY set to
+// SANDBOX_LICENSE_PUBLIC_KEY; a production build must never trust it, since anyone can sign with it.
+
+export const SANDBOX_LICENSE_PUBLIC_KEY = '99c9d0dc91605f409eb539a295876f2df29614c8ea752535e3117b4ab49446bb';
+export const SANDBOX_LICENSE_PRIVATE_KEY = '39d40b7365c2efd3ef45316edc8d1de9e2f75d4dcce224f71f9b47e837299435';
@@ -0,0 +1,42 @@
+import { IncomingMessage } from "http";
+import { HttpError } from "./http";
+
+// Fixed-window request counters kept in memory, so they reset when the server restarts.
+// Used to stop anyone from spending the Gemini keys through the public /api endpoints.
+
+export interface RateLimiter {
+  // Counts one request for `key`; throws 429 once the window's limit is used up
+  consume: (key: string) => void;
+}
+
+// Counters are only pruned once there are this many, to keep `consume` cheap
+const PRUNE_THRESHOLD = 10000;
+
+export const getClientIp = (req: IncomingMessage) => req.socket.remoteAddress || 'unknown';
+
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    consume: (key) => {
+      const now = Date.now();
+      if (windows.size >= PRUNE_THRESHOLD) {
+        windows.forEach((window, windowKey) => {
+          if (window.resetAt <= now) windows.delete(windowKey);
+        });
+      }
+
+      const window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return;
+      }
+      if (window.count >= limit) {
+        const seconds = Math.ceil((window.resetAt - now) / 1000);
+        // 'quota' tells the app to ask the student to wait, like an exhausted Gemini key
+        throw new HttpError(429, `Too many requests, try again in ${seconds}s`, 'quota');
+      }
+      window.count++;
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import { HttpError, Router, readJson, sendJson } from "../http";
+import { AdminAuth, AdminSession } from "../adminAuth";
+
+const toPublicSession = (session: AdminSession) => ({
+  token: session.token,
+  username: session.username,
+  role: session.role,
+  expiresAt: new Date(session.expiresAt).toISOString(),
+});
+
+export const registerAdminRoutes = (router: Router, adminAuth: AdminAuth) => {
+  router.add('POST', '/api/admin/login', async (req, res) => {
+    const body = await readJson<{ username?: string; password?: string }>(req, 4096);
+    if (typeof body.username !== 'string' || typeof body.password !== 'string' || !body.username.trim()) {
+      throw new HttpError(400, 'username and password are required');
+    }
+    const session = await adminAuth.login(req, body.username.trim(), body.password);
+    sendJson(res, 200, toPublicSession(session));
+  });
+
+  router.add('POST', '/api/admin/logout', (req, res) => {
+    adminAuth.logout(req);
+    sendJson(res, 200, { ok: true });
+  });
+
+  router.add('GET', '/api/admin/me', (req, res) => {
+    sendJson(res, 200, toPublicSession(adminAuth.requireAdmin(req)));
+  });
+};
@@ -0,0 +1,74 @@
+import { HttpError, Router, readJson, sendJson } from "../http";
+import { createJsonFileStore, getDataPath } from "../jsonFileStore";
+import { AdminAuth } from "../adminAuth";
+import { validateCurriculumDocument } from "../../src/utils/curriculumSchema";
+import { CurriculumDocument } from "../../src/types";
+
+// Published curriculum versions. Students fetch the latest one and keep it on their device; admins
+// publish a whole new document from the editor. Until the first publish, clients use the bundled copy.
+
+interface CurriculumRelease {
+  document: CurriculumDocument;
+  publishedBy: string;
+  note: string;
+}
+
+// Older versions are kept for reference, up to this many
+const MAX_RELEASES = 20;
+const MAX_REPORTED_ERRORS = 20;
+
+export const registerCurriculumRoutes = (router: Router, adminAuth: AdminAuth) => {
+  const store = createJsonFileStore<CurriculumRelease[]>(getDataPath('curriculum.json'), []);
+  const getLatest = () => store.read()[store.read().length - 1] as CurriculumRelease | undefined;
+
+  router.add('GET', '/api/curriculum', (req, res) => {
+    const latest = getLatest();
+    if (!latest) throw new HttpError(404, 'No curriculum has been published yet');
+
+    const etag = `"v${latest.document.version}"`;
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('ETag', etag);
+    if (req.headers['if-none-match'] === etag) {
+      res.writeHead(304);
+      res.end();
+      return;
+    }
+    sendJson(res, 200, { document: latest.document });
+  });
+
+  router.add('GET', '/api/curriculum/releases', (req, res) => {
+    adminAuth.requireAdmin(req);
+    sendJson(res, 200, {
+      releases: store.read().map(({ document, publishedBy, note }) => ({
+        version: document.version,
+        publishedAt: document.publishedAt,
+        publishedBy,
+        note,
+      })),
+    });
+  });
+
+  // The editor sends the version it started from; publishing over a newer one is refused
+  router.add('POST', '/api/curriculum', async (req, res) => {
+    const session = adminAuth.requireAdmin(req, ['owner', 'staff']);
+    const body = await readJson<{ document?: unknown; baseVersion?: number; note?: string }>(req, 5 * 1024 * 1024);
+
+    const latestVersion = getLatest()?.document.version ?? 0;
+    if (typeof body.baseVersion !== 'number' || body.baseVersion < latestVersion) {
+      throw new HttpError(409, `Version ${latestVersion} was published in the meantime; reload and try again`);
+    }
+
+    const version = Math.max(latestVersion, body.baseVersion) + 1;
+    const result = validateCurriculumDocument({ ...(body.document as object), version, publishedAt: new Date().toISOString() });
+    if (!result.ok) {
+      sendJson(res, 400, { error: { message: 'Invalid curriculum', details: result.errors.slice(0, MAX_REPORTED_ERRORS) } });
+      return;
+    }
+
+    await store.update((current) => [
+      ...current,
+      { document: result.document, publishedBy: session.username, note: String(body.note || '') },
+    ].slice(-MAX_RELEASES));
+    sendJson(res, 200, { version });
+  });
+};
@@ -0,0 +1,173 @@
+import type { Content, Part } from "@google/genai";
+import { HttpError, Router, readJson, sendJson, startNdjson } from "../http";
+import { ChatOptions, ChatRequest, Upstream, UpstreamErrorCode, toUpstreamError } from "../upstream";
+import { createRateLimiter, getClientIp } from "../rateLimit";
+
+// Attachments travel as base64 inside the body
+const CHAT_BODY_LIMIT = 25 * 1024 * 1024;
+const MAX_TTS_CHARS = 2000;
+
+// The app builds its prompts, so the server only accepts requests shaped like the app's own.
+// The largest instruction (tutor prompt + one subject's curriculum + a chat summary) is about 10k characters.
+const MAX_INSTRUCTION_CHARS = 24000;
+const MAX_HISTORY_ENTRIES = 100;
+const MAX_PARTS = 8;
+const MAX_OUTPUT_TOKENS = 8000;
+const MAX_SCHEMA_CHARS = 8000;
+const ATTACHMENT_MIME_TYPES = /^(image\/|audio\/|text\/|application\/pdf$)/;
+
+// Per client IP. Thinking mode runs the large model with a big thinking budget, so it gets its own, lower limit.
+const chatLimiter = createRateLimiter(30, 60 * 1000);
+const thinkingLimiter = createRateLimiter(10, 60 * 60 * 1000);
+const ttsLimiter = createRateLimiter(30, 60 * 1000);
+
+// Status for upstream failures that happen before the response starts
+const ERROR_STATUS: Record<UpstreamErrorCode, number> = {
+  quota: 429,
+  auth: 502,
+  network: 502,
+  safety: 422,
+  invalid_attachment: 422,
+  timeout: 504,
+  unknown: 502,
+};
+
+const toHttpError = (error: unknown): HttpError => {
+  const { code, message } = toUpstreamError(error);
+  return new HttpError(ERROR_STATUS[code], message, code);
+};
+
+// Written as the last NDJSON line when a stream fails after it started
+const toErrorLine = (error: unknown) => {
+  const { code, message } = toUpstreamError(error);
+  return { error: { message, code } };
+};
+
+// Only text and inline attachments; no file URIs, function calls or other part types
+const validateParts = (parts: unknown, field: string): Part[] => {
+  if (!Array.isArray(parts) || parts.length === 0 || parts.length > MAX_PARTS) {
+    throw new HttpError(400, `${field} must be an array of 1 to ${MAX_PARTS} parts`);
+  }
+  return parts.map((part: any): Part => {
+    if (typeof part?.text === 'string') return { text: part.text };
+    const { mimeType, data } = part?.inlineData || {};
+    if (typeof mimeType === 'string' && ATTACHMENT_MIME_TYPES.test(mimeType) && typeof data === 'string') {
+      return { inlineData: { mimeType, data } };
+    }
+    throw new HttpError(400, `${field} has an unsupported part`, 'invalid_attachment');
+  });
+};
+
+const validateHistory = (history: unknown): Content[] => {
+  if (!Array.isArray(history) || history.length > MAX_HISTORY_ENTRIES) {
+    throw new HttpError(400, `history must be an array of at most ${MAX_HISTORY_ENTRIES} entries`);
+  }
+  return history.map((entry: any): Content => {
+    if (entry?.role !== 'user' && entry?.role !== 'model') throw new HttpError(400, 'history roles must be user or model');
+    return { role: entry.role, parts: validateParts(entry.parts, 'history parts') };
+  });
+};
+
+// Known options only, clamped to what the app uses
+const validateOptions = (options: any): ChatOptions => {
+  const validated: ChatOptions = {
+    useThinking: options?.useThinking === true,
+    useSearch: options?.useSearch === true,
+  };
+  if (typeof options?.temperature === 'number') {
+    validated.temperature = Math.min(1, Math.max(0, options.temperature));
+  }
+  if (typeof options?.maxOutputTokens === 'number') {
+    validated.maxOutputTokens = Math.min(MAX_OUTPUT_TOKENS, Math.max(1, Math.floor(options.maxOutputTokens)));
+  }
+  if (options?.responseSchema !== undefined) {
+    const schema = options.responseSchema;
+    if (typeof schema !== 'object' || schema === null || JSON.stringify(schema).length > MAX_SCHEMA_CHARS) {
+      throw new HttpError(400, 'responseSchema is invalid or too large');
+    }
+    validated.responseSchema = schema;
+  }
+  return validated;
+};
+
+const validateChatRequest = (body: Partial<ChatRequest>): ChatRequest => {
+  if (typeof body.systemInstruction !== 'string') throw new HttpError(400, 'systemInstruction is required');
+  if (body.systemInstruction.length > MAX_INSTRUCTION_CHARS) throw new HttpError(400, 'systemInstruction is too long');
+  return {
+    systemInstruction: body.systemInstruction,
+    history: validateHistory(body.history),
+    message: validateParts(body.message, 'message'),
+    options: validateOptions(body.options),
+  };
+};
+
+export const registerGeminiRoutes = (router: Router, upstream: Upstream) => {
+  // Streams `{ text }` deltas, then `{ sources }` if search grounding was used, then `{ done: true }`
+  router.add('POST', '/api/chat', async (req, res) => {
+    chatLimiter.consume(getClientIp(req));
+    const request = validateChatRequest(await readJson<Partial<ChatRequest>>(req, CHAT_BODY_LIMIT));
+    if (request.options?.useThinking) thinkingLimiter.consume(getClientIp(req));
+
+    let aborted = false;
+    res.on('close', () => { aborted = true; });
+
+    const iterator = upstream.streamChat(request)[Symbol.asyncIterator]();
+    // Pull the first chunk before committing to a 200 so setup failures surface as an HTTP error
+    let next = await iterator.next().catch((error) => {
+      throw toHttpError(error);
+    });
+
+    const stream = startNdjson(res);
+    try {
+      while (!next.done && !aborted) {
+        stream.write(next.value);
+        next = await iterator.next();
+      }
+      if (aborted) {
+        await iterator.return?.();
+      } else {
+        stream.write({ done: true });
+      }
+    } catch (error) {
+      console.error("Chat stream error:", error);
+      stream.write(toErrorLine(error));
+    } finally {
+      stream.end();
+    }
+  });
+
+  // `stream: true` returns NDJSON `{ audio }` chunks, otherwise one JSON `{ audio }` with all PCM joined
+  router.add('POST', '/api/tts', async (req, res) => {
+    ttsLimiter.consume(getClientIp(req));
+    const body = await readJson<{ text?: string; stream?: boolean }>(req);
+    const text = (body.text || '').substring(0, MAX_TTS_CHARS);
+    if (!text.trim()) throw new HttpError(400, 'text is required');
+
+    if (!body.stream) {
+      const buffers: Buffer[] = [];
+      try {
+        for await (const audio of upstream.streamSpeech(text)) {
+          buffers.push(Buffer.from(audio, 'base64'));
+        }
+      } catch (error) {
+        throw toHttpError(error);
+      }
+      sendJson(res, 200, { audio: buffers.length > 0 ? Buffer.concat(buffers).toString('base64') : null });
+      return;
+    }
+
+    const stream = startNdjson(res);
+    try {
+      for await (const audio of upstream.streamSpeech(text)) {
+        if (res.writableEnded || res.destroyed) break;
+        stream.write({ audio });
+      }
+      stream.write({ done: true });
+    } catch (error) {
+      console.error("TTS stream error:", error);
+      stream.write(toErrorLine(error));
+    } finally {
+      stream.end();
+    }
+  });
+};
@@ -0,0 +1,39 @@
+import { HttpError, Router, readJson, sendJson } from "../http";
+import { createJsonFileStore, getDataPath } from "../jsonFileStore";
+import { AdminAuth } from "../adminAuth";
+
+// Shared license ledger for the admin panel. Entries are opaque to the server apart from `id`;
+// the client (src/services/ledgerService.ts) owns their shape and validation.
+
+interface LedgerRecord {
+  id: string;
+  [field: string]: unknown;
+}
+
+const MAX_ENTRIES_PER_SAVE = 5000;
+
+export const registerLedgerRoutes = (router: Router, adminAuth: AdminAuth) => {
+  const store = createJsonFileStore<LedgerRecord[]>(getDataPath('ledger.json'), []);
+
+  router.add('GET', '/api/ledger', (req, res) => {
+    adminAuth.requireAdmin(req);
+    sendJson(res, 200, { entries: store.read() });
+  });
+
+  // Upsert by id; the ledger never deletes, revoked entries are kept with their status
+  router.add('POST', '/api/ledger', async (req, res) => {
+    // Viewers can read the ledger but not change it
+    adminAuth.requireAdmin(req, ['owner', 'staff']);
+    const body = await readJson<{ entries?: LedgerRecord[] }>(req, 5 * 1024 * 1024);
+    const entries = body.entries;
+    if (!Array.isArray(entries) || entries.length > MAX_ENTRIES_PER_SAVE) throw new HttpError(400, 'entries must be an array');
+    if (entries.some((entry) => !entry || typeof entry.id !== 'string' || !entry.id)) throw new HttpError(400, 'every entry needs an id');
+
+    const saved = await store.update((current) => {
+      const byId = new Map(current.map((entry) => [entry.id, entry]));
+      entries.forEach((entry) => byId.set(entry.id, entry));
+      return Array.from(byId.values());
+    });
+    sendJson(res, 200, { count: saved.length });
+  });
+};
@@ -0,0 +1,93 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createRouter } from "../http";
+import { PaymentSetup, createPaymentSetup } from "../payments";
+import { SANDBOX_LICENSE_PUBLIC_KEY } from "../payments/sandboxKeys";
+import { registerPaymentRoutes } from "./payments";
+
+const DEVICE_ID = 'APP-1A2B3C4D-5E6F7A8B';
+
+describe('payment routes with the sandbox provider', () => {
+  let dataDir: string;
+  let server: Server;
+  let baseUrl: string;
+  let setup: PaymentSetup;
+
+  beforeAll(async () => {
+    // Each run gets its own orders.json and ledger.json
+    dataDir = mkdtempSync(join(tmpdir(), 'payments-test-'));
+    vi.stubEnv('DATA_DIR', dataDir);
+    vi.stubEnv('LICENSE_PRIVATE_KEY', '');
+
+    const router = createRouter();
+    setup = createPaymentSetup(true)!;
+    registerPaymentRoutes(router, setup);
+    server = createServer(async (req, res) => {
+      if (!(await router.handle(req, res))) res.writeHead(404).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    vi.unstubAllEnvs();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const checkout = async () => {
+    const response = await fetch(`${baseUrl}/api/payments/checkout`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deviceId: DEVICE_ID, plan: 'monthly', grade: 'GRADE_12', method: 'card' }),
+    });
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+
+  const getOrder = async (id: string) => (await fetch(`${baseUrl}/api/payments/orders/${id}`)).json();
+
+  it('returns a code the sandbox build verifies once the order is paid', async () => {
+    const order = await checkout();
+    expect(order.status).toBe('pending');
+
+    // Duplicate webhooks race each other; only one code may come out of them
+    await Promise.all([1, 2].map(() => fetch(`${baseUrl}/api/payments/mock/pay/${order.id}?result=paid`, { method: 'POST' })));
+
+    const paid = await getOrder(order.id);
+    expect(paid.status).toBe('paid');
+    expect(paid.license).toBeTruthy();
+
+    const ledger = JSON.parse(readFileSync(join(dataDir, 'ledger.json'), 'utf8'));
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0].code).toBe(paid.license);
+
+    // license.ts reads the public key when it loads, as the app build would
+    vi.stubEnv('LICENSE_PUBLIC_KEY', SANDBOX_LICENSE_PUBLIC_KEY);
+    vi.resetModules();
+    const { verifyLicense } = await import("../../src/utils/license");
+    expect((await verifyLicense(paid.license, DEVICE_ID)).valid).toBe(true);
+  });
+
+  it('rejects a webhook whose payment reference is not the order\'s', async () => {
+    const order = await checkout();
+    const webhook = setup.mock!.createWebhook({ orderId: order.id, providerRef: 'MOCK-FORGED', status: 'paid' });
+    const response = await fetch(`${baseUrl}/api/payments/webhook/mock`, { method: 'POST', headers: webhook.headers, body: webhook.body });
+
+    expect(response.status).toBe(400);
+    expect((await getOrder(order.id)).status).toBe('pending');
+  });
+
+  it('leaves a failed payment without a code', async () => {
+    const order = await checkout();
+    await fetch(`${baseUrl}/api/payments/mock/pay/${order.id}?result=failed`, { method: 'POST' });
+
+    const failed = await getOrder(order.id);
+    expect(failed.status).toBe('failed');
+    expect(failed.license).toBeUndefined();
+  });
+});
@@ -0,0 +1,248 @@
+import { randomBytes } from "crypto";
+import { HttpError, Router, parseJson, readBody, sendJson } from "../http";
+import { createJsonFileStore, getDataPath } from "../jsonFileStore";
+import { PaymentEvent, PaymentInstructions, PaymentMethod, PaymentProvider } from "../payments/provider";
+import { PaymentSetup } from "../payments";
+import { getPricedPlan, getPricedPlans } from "../payments/pricing";
+import { createRateLimiter, getClientIp } from "../rateLimit";
+import { LicenseGrade, signLicense } from "../../src/utils/license";
+import { PlanTier, isPlanTier } from "../../src/data/plans";
+import { GradeLevel } from "../../src/types";
+import { LedgerEntry, computeExpiry } from "../../src/services/ledgerService";
+
+// Online checkout: the app creates an order, the student pays through the provider, and the
+// provider's webhook marks the order paid. The server then signs the activation code itself,
+// logs it in the shared ledger, and the app (polling the order) activates it automatically.
+
+// 'processing' is a paid order whose code is still being signed; the app sees it as pending
+type OrderStatus = 'pending' | 'processing' | 'paid' | 'failed';
+
+interface Order {
+  id: string;
+  provider: string;
+  deviceId: string;
+  plan: PlanTier;
+  grade: LicenseGrade;
+  method: PaymentMethod;
+  amount: number;
+  studentName: string;
+  phone: string;
+  status: OrderStatus;
+  createdAt: string;
+  paidAt?: string;
+  instructions: PaymentInstructions;
+  license?: string;
+}
+
+interface CheckoutBody {
+  deviceId?: string;
+  plan?: string;
+  grade?: string;
+  method?: string;
+  studentName?: string;
+  phone?: string;
+}
+
+const DEVICE_ID_PATTERN = /^APP-[0-9A-F]{1,8}-[0-9A-F]{1,8}$/i;
+
+// Unpaid orders are dropped this long after checkout, well past the 48h Fawry window
+const STALE_ORDER_MS = 7 * 24 * 60 * 60 * 1000;
+
+const checkoutLimiter = createRateLimiter(10, 60 * 60 * 1000);
+
+// What the app may see: no provider internals
+const toPublicOrder = (order: Order) => ({
+  id: order.id,
+  status: order.status === 'processing' ? 'pending' : order.status,
+  plan: order.plan,
+  grade: order.grade,
+  method: order.method,
+  amount: order.amount,
+  instructions: order.instructions,
+  license: order.license,
+});
+
+const validateCheckout = (body: CheckoutBody, provider: PaymentProvider) => {
+  const deviceId = (body.deviceId || '').trim();
+  if (!DEVICE_ID_PATTERN.test(deviceId)) throw new HttpError(400, 'deviceId is invalid');
+  if (!isPlanTier(body.plan)) throw new HttpError(400, 'plan is invalid');
+  if (!provider.methods.includes(body.method as PaymentMethod)) throw new HttpError(400, 'method is not supported');
+
+  const plan = getPricedPlan(body.plan)!;
+  // Bundles cover every grade; everything else needs one
+  const grade: LicenseGrade | null = plan.allGrades ? 'ALL' : body.grade && body.grade in GradeLevel ? body.grade as LicenseGrade : null;
+  if (!grade) throw new HttpError(400, 'grade is required for this plan');
+
+  return {
+    deviceId,
+    plan,
+    grade,
+    method: body.method as PaymentMethod,
+    studentName: String(body.studentName || '').trim().slice(0, 100),
+    phone: String(body.phone || '').trim().slice(0, 20),
+  };
+};
+
+const renderMockPayPage = (order: Order) => `<!doctype html>
+<html lang="ar" dir="rtl"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>بوابة دفع تجريبية</title></head>
+<body style="font-family:sans-serif;max-width:420px;margin:40px auto;text-align:center">
+<h2>بوابة دفع تجريبية (Sandbox)</h2>
+<p>الطلب: ${order.id}</p>
+<p>المبلغ: ${order.amount} ج.م - ${order.method}</p>
+<form method="post" action="/api/payments/mock/pay/${order.id}?result=paid"><button style="padding:12px 32px;font-size:16px">ادفع</button></form>
+<br>
+<form method="post" action="/api/payments/mock/pay/${order.id}?result=failed"><button style="padding:8px 24px">فشل الدفع</button></form>
+</body></html>`;
+
+export const registerPaymentRoutes = (router: Router, setup: PaymentSetup | null) => {
+  const orders = createJsonFileStore<Order[]>(getDataPath('orders.json'), []);
+  const ledger = createJsonFileStore<LedgerEntry[]>(getDataPath('ledger.json'), []);
+
+  const findOrder = (id: string) => {
+    const order = orders.read().find((candidate) => candidate.id === id);
+    if (!order) throw new HttpError(404, 'Order not found');
+    return order;
+  };
+
+  const saveOrder = (order: Order) => orders.update((current) => current.map((candidate) => candidate.id === order.id ? order : candidate));
+
+  // Signs the code and logs it. Without a signing key the order stays paid without a code,
+  // and the admin issues it by hand from the ledger.
+  const issueLicense = async (order: Order, issuedAt: Date): Promise<string | undefined> => {
+    const privateKey = setup?.signingKey || process.env.LICENSE_PRIVATE_KEY || '';
+    if (!privateKey) {
+      console.error(`Order ${order.id} is paid but LICENSE_PRIVATE_KEY is not set; issue the code manually.`);
+      return undefined;
+    }
+
+    const plan = getPricedPlan(order.plan)!;
+    const code = await signLicense({ deviceId: order.deviceId, grade: order.grade, days: plan.days, plan: order.plan, issuedAt }, privateKey);
+
+    await ledger.update((entries) => [...entries, {
+      id: `L-${randomBytes(6).toString('hex').toUpperCase()}`,
+      code,
+      studentName: order.studentName,
+      phone: order.phone,
+      deviceId: order.deviceId,
+      grade: order.grade,
+      plan: order.plan,
+      days: plan.days,
+      price: order.amount,
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: computeExpiry(entries, order.deviceId, order.grade, issuedAt, plan.days).toISOString(),
+      status: 'active',
+      notes: `دفع أونلاين (${order.method}) - طلب ${order.id}`,
+    }]);
+    return code;
+  };
+
+  // Webhooks can arrive more than once; only the first one for a pending order counts
+  const applyEvent = async (event: PaymentEvent) => {
+    const order = orders.read().find((candidate) => candidate.id === event.orderId);
+    if (!order || order.status !== 'pending') return;
+    if (event.providerRef !== order.instructions.providerRef) {
+      throw new HttpError(400, 'Payment reference does not match the order');
+    }
+
+    if (event.status === 'failed') {
+      await saveOrder({ ...order, status: 'failed' });
+      return;
+    }
+    // The store updates its value before writing, so this claims the order before anything is
+    // awaited and a duplicate webhook arriving meanwhile finds it no longer pending
+    const paidAt = new Date();
+    const claimed: Order = { ...order, status: 'processing', paidAt: paidAt.toISOString() };
+    const claiming = saveOrder(claimed);
+
+    const license = await issueLicense(order, paidAt).catch((error) => {
+      console.error(`Failed to issue the code for order ${order.id}; issue it manually:`, error);
+      return undefined;
+    });
+    await claiming;
+    await saveOrder({ ...claimed, status: 'paid', license });
+  };
+
+  // Orders nobody paid for would otherwise pile up in orders.json
+  const pruneStaleOrders = (orderList: Order[], now: number) => orderList.filter((order) =>
+    order.status === 'paid' || order.status === 'processing' || now - new Date(order.createdAt).getTime() < STALE_ORDER_MS
+  );
+
+  // Prices and methods for the app; `enabled` is false when no provider is configured
+  router.add('GET', '/api/payments/config', (_req, res) => {
+    sendJson(res, 200, {
+      enabled: !!setup,
+      methods: setup?.provider.methods || [],
+      plans: getPricedPlans(),
+    });
+  });
+
+  router.add('POST', '/api/payments/checkout', async (req, res) => {
+    if (!setup) throw new HttpError(503, 'Online payments are not configured');
+    checkoutLimiter.consume(getClientIp(req));
+    const checkout = validateCheckout(parseJson<CheckoutBody>(await readBody(req, 4096)), setup.provider);
+
+    const id = randomBytes(12).toString('hex');
+    const instructions = await setup.provider.createPayment({
+      orderId: id,
+      amount: checkout.plan.price,
+      method: checkout.method,
+      description: `${checkout.plan.label} - ${checkout.deviceId}`,
+      phone: checkout.phone,
+    }).catch((error) => {
+      console.error("Payment provider error:", error);
+      throw new HttpError(502, 'Payment provider error');
+    });
+
+    const order: Order = {
+      id,
+      provider: setup.provider.name,
+      deviceId: checkout.deviceId,
+      plan: checkout.plan.id,
+      grade: checkout.grade,
+      method: checkout.method,
+      amount: checkout.plan.price,
+      studentName: checkout.studentName,
+      phone: checkout.phone,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+      instructions,
+    };
+    await orders.update((current) => [...pruneStaleOrders(current, Date.now()), order]);
+    sendJson(res, 200, toPublicOrder(order));
+  });
+
+  // The order id is random and only known to the device that created it
+  router.add('GET', '/api/payments/orders/:id', (_req, res, params) => {
+    sendJson(res, 200, toPublicOrder(findOrder(params.id)));
+  });
+
+  router.add('POST', '/api/payments/webhook/:provider', async (req, res, params) => {
+    if (!setup || params.provider !== setup.provider.name) throw new HttpError(404, 'Unknown provider');
+    const event = setup.provider.parseWebhook(await readBody(req, 64 * 1024), req.headers);
+    if (!event) throw new HttpError(400, 'Invalid webhook');
+
+    await applyEvent(event);
+    sendJson(res, 200, { ok: true });
+  });
+
+  const mock = setup?.mock;
+  if (!mock) return;
+
+  router.add('GET', '/api/payments/mock/pay/:id', (_req, res, params) => {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(renderMockPayPage(findOrder(params.id)));
+  });
+
+  // Goes through parseWebhook like a real provider callback would
+  router.add('POST', '/api/payments/mock/pay/:id', async (req, res, params) => {
+    const order = findOrder(params.id);
+    const result = new URL(req.url || '/', 'http://localhost').searchParams.get('result') === 'failed' ? 'failed' : 'paid';
+    const webhook = mock.createWebhook({ orderId: order.id, providerRef: order.instructions.providerRef, status: result });
+    const event = mock.provider.parseWebhook(Buffer.from(webhook.body), webhook.headers);
+    if (event) await applyEvent(event);
+
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(`<p style="font-family:sans-serif;text-align:center;margin-top:40px" dir="rtl">${result === 'paid' ? 'تم الدفع. ارجع للتطبيق.' : 'فشل الدفع.'}</p>`);
+  });
+};
@@ -0,0 +1,57 @@
+import { HttpError, Router, readJson, sendJson } from "../http";
+import { createJsonFileStore, getDataPath } from "../jsonFileStore";
+import { AdminAuth } from "../adminAuth";
+import { signRevocationList } from "../../src/utils/license";
+
+// Revoked activation codes. Students fetch the list signed with LICENSE_PRIVATE_KEY, so a proxy
+// or a modified response cannot un-revoke anything; admins add to it.
+
+interface Revocation {
+  licenseId: string;
+  reason: string;
+  revokedAt: string;
+  by: string;
+}
+
+const MAX_IDS_PER_REQUEST = 500;
+
+export const registerRevocationRoutes = (router: Router, adminAuth: AdminAuth) => {
+  const store = createJsonFileStore<Revocation[]>(getDataPath('revocations.json'), []);
+  // Signed once per change rather than on every request
+  let signedList: string | null = null;
+
+  router.add('GET', '/api/revocations', async (_req, res) => {
+    const privateKey = process.env.LICENSE_PRIVATE_KEY || '';
+    if (!privateKey) throw new HttpError(503, 'Revocations are disabled: LICENSE_PRIVATE_KEY is not set');
+
+    if (!signedList) {
+      signedList = await signRevocationList({
+        licenseIds: store.read().map((revocation) => revocation.licenseId),
+        issuedAt: new Date(),
+      }, privateKey);
+    }
+    res.setHeader('Cache-Control', 'no-cache');
+    sendJson(res, 200, { list: signedList });
+  });
+
+  router.add('POST', '/api/revocations', async (req, res) => {
+    const session = adminAuth.requireAdmin(req, ['owner', 'staff']);
+    const body = await readJson<{ licenseIds?: string[]; reason?: string }>(req);
+    const licenseIds = body.licenseIds;
+    if (!Array.isArray(licenseIds) || licenseIds.length === 0 || licenseIds.length > MAX_IDS_PER_REQUEST
+      || licenseIds.some((id) => typeof id !== 'string' || !/^[A-Za-z0-9_-]{8,32}$/.test(id))) {
+      throw new HttpError(400, 'licenseIds must be a non-empty array of license ids');
+    }
+
+    const revokedAt = new Date().toISOString();
+    const saved = await store.update((current) => {
+      const known = new Set(current.map((revocation) => revocation.licenseId));
+      const added = licenseIds
+        .filter((id) => !known.has(id))
+        .map((licenseId) => ({ licenseId, reason: String(body.reason || ''), revokedAt, by: session.username }));
+      return [...current, ...added];
+    });
+    signedList = null;
+    sendJson(res, 200, { count: saved.length });
+  });
+};
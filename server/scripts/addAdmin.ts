@@ -0,0 +1,57 @@
+import { createInterface } from "readline/promises";
+import { Writable } from "stream";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { loadEnvFiles } from "../env";
+import { ADMIN_ROLES, AdminAccount, AdminRole, getAccountsPath, hashPassword } from "../adminAuth";
+
+// Adds (or resets the password of) an admin account in data/admins.json.
+// Usage: npm run admin:add -- <username> [owner|staff|viewer]
+
+// Prompts for a line without echoing what is typed
+const askHidden = async (prompt: string): Promise<string> => {
+  let muted = false;
+  const output = new Writable({
+    write: (chunk, _encoding, callback) => {
+      if (!muted) process.stdout.write(chunk);
+      callback();
+    },
+  });
+  const rl = createInterface({ input: process.stdin, output, terminal: !!process.stdin.isTTY });
+  const answer = rl.question(prompt);
+  muted = true;
+  const line = await answer;
+  rl.close();
+  process.stdout.write('\n');
+  return line;
+};
+
+const main = async () => {
+  loadEnvFiles();
+  const [username, role = 'staff'] = process.argv.slice(2);
+
+  if (!username || !ADMIN_ROLES.includes(role as AdminRole)) {
+    console.error(`Usage: npm run admin:add -- <username> [${ADMIN_ROLES.join('|')}]`);
+    process.exit(1);
+  }
+
+  const password = await askHidden('Password (min 10 characters): ');
+
+  if (password.length < 10) {
+    console.error('Password is too short.');
+    process.exit(1);
+  }
+
+  const path = getAccountsPath();
+  const accounts: AdminAccount[] = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : [];
+  const account: AdminAccount = { username, role: role as AdminRole, ...(await hashPassword(password)) };
+  const others = accounts.filter((existing) => existing.username.toLowerCase() !== username.toLowerCase());
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify([...others, account], null, 2));
+
+  console.log(`Saved ${role} account "${username}" to ${path}`);
+  console.log('To use ADMIN_ACCOUNTS instead of the file, set it to the JSON array in that file.');
+};
+
+main();
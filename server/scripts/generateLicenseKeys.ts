@@ -0,0 +1,16 @@
+import * as ed from '@noble/ed25519';
+
+// Generates the Ed25519 key pair used for activation codes.
+// Put the public key in LICENSE_PUBLIC_KEY (baked into the app at build time);
+// keep the private key offline - the admin pastes it into the code generator to sign.
+
+const main = async () => {
+  const privateKey = ed.utils.randomSecretKey();
+  const publicKey = await ed.getPublicKeyAsync(privateKey);
+
+  console.log(`LICENSE_PUBLIC_KEY=${ed.etc.bytesToHex(publicKey)}`);
+  console.log(`LICENSE_PRIVATE_KEY=${ed.etc.bytesToHex(privateKey)}`);
+  console.log('\nNever commit or bundle the private key.');
+};
+
+main();
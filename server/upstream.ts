@@ -0,0 +1,247 @@
+import { ApiError, GoogleGenAI, Content, Part, Modality, LiveServerMessage } from "@google/genai";
+import { getApiKey, rotateApiKey, getKeyCount } from "./keyPool";
+
+// --- Contract shared by the real Gemini upstream and the offline mock ---
+
+export interface ChatOptions {
+  useThinking?: boolean;
+  useSearch?: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Structured output (JSON) support
+  responseSchema?: unknown;
+}
+
+export interface ChatRequest {
+  systemInstruction: string;
+  history: Content[];
+  message: Part[];
+  options?: ChatOptions;
+}
+
+export interface ChatSource {
+  title: string;
+  uri: string;
+}
+
+export interface ChatChunk {
+  text: string;
+  sources?: ChatSource[];
+}
+
+export interface LiveHandlers {
+  onOpen: () => void;
+  onAudio: (base64: string) => void;
+  onTurnComplete: () => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+export interface LiveConnection {
+  sendAudio: (base64: string) => void;
+  close: () => void;
+}
+
+export interface Upstream {
+  streamChat: (request: ChatRequest) => AsyncIterable<ChatChunk>;
+  streamSpeech: (text: string) => AsyncIterable<string>;
+  connectLive: (systemInstruction: string, handlers: LiveHandlers) => Promise<LiveConnection>;
+}
+
+// --- Errors ---
+
+// Sent to the browser as `error.code`; the app shows a different message for each
+export type UpstreamErrorCode = 'quota' | 'auth' | 'network' | 'safety' | 'invalid_attachment' | 'timeout' | 'unknown';
+
+export class UpstreamError extends Error {
+  code: UpstreamErrorCode;
+
+  constructor(code: UpstreamErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const classifyError = (error: any): UpstreamErrorCode => {
+  const status = error instanceof ApiError ? error.status : undefined;
+  const message = String(error?.message || '');
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return 'quota';
+  if (status === 401 || status === 403 || /API_KEY_INVALID|PERMISSION_DENIED|API key/i.test(message)) return 'auth';
+  if (status === 504 || error?.name === 'TimeoutError' || /DEADLINE_EXCEEDED|timed? ?out|ETIMEDOUT/i.test(message)) return 'timeout';
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) return 'safety';
+  if (status === 400 && /image|audio|mime|inline|file|document|Unable to process|Unsupported/i.test(message)) return 'invalid_attachment';
+  if ((status !== undefined && status >= 500) || error instanceof TypeError || /fetch failed|ECONNRESET|ENOTFOUND|EAI_AGAIN|UNAVAILABLE|overloaded/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+export const toUpstreamError = (error: unknown): UpstreamError => {
+  if (error instanceof UpstreamError) return error;
+  return new UpstreamError(classifyError(error), (error as any)?.message || 'Upstream error');
+};
+
+// --- Gemini implementation ---
+
+const CHAT_MODEL = 'gemini-2.5-flash';
+const THINKING_MODEL = 'gemini-3-pro-preview';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const VOICE_NAME = 'Kore';
+
+// Network errors and timeouts are retried this many times, waiting 0.5s, 1s, 2s...
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Finish reasons that mean the answer was cut by the safety filters
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Helper to get a fresh AI instance with the current active key
+const getAIClient = () => {
+  return new GoogleGenAI({ apiKey: getApiKey() });
+};
+
+// Runs the call that opens a request. Quota and key errors move on to the next key (once per key);
+// network errors and timeouts are retried on the same key with exponential backoff. Anything else
+// (a safety block, a bad attachment) would fail the same way again, so it is thrown at once.
+// Errors after the stream has started are not retried.
+const withRetry = async <T>(label: string, run: (ai: GoogleGenAI) => Promise<T>): Promise<T> => {
+  let rotations = 0;
+  let retries = 0;
+
+  while (true) {
+    try {
+      return await run(getAIClient());
+    } catch (rawError) {
+      const error = toUpstreamError(rawError);
+      console.error(`${label} failed (${error.code}):`, rawError);
+
+      if (error.code === 'quota' || error.code === 'auth') {
+        rotations++;
+        if (rotations >= getKeyCount() || !rotateApiKey()) throw error;
+      } else if ((error.code === 'network' || error.code === 'timeout') && retries < MAX_RETRIES) {
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** retries);
+        retries++;
+      } else {
+        throw error;
+      }
+    }
+  }
+};
+
+const buildChatConfig = (request: ChatRequest) => {
+  const options = request.options || {};
+  let model = CHAT_MODEL;
+  const config: any = {
+    systemInstruction: request.systemInstruction,
+    temperature: options.temperature ?? 0.7,
+  };
+
+  // Configure Thinking Mode
+  if (options.useThinking) {
+    model = THINKING_MODEL;
+    config.thinkingConfig = { thinkingBudget: 32768 };
+  } else {
+    config.maxOutputTokens = options.maxOutputTokens ?? 2000;
+    config.thinkingConfig = { thinkingBudget: 0 };
+  }
+
+  // Configure Search Grounding
+  if (options.useSearch && !options.useThinking) {
+    config.tools = [{ googleSearch: {} }];
+  }
+
+  // Structured JSON output
+  if (options.responseSchema) {
+    config.responseMimeType = 'application/json';
+    config.responseSchema = options.responseSchema;
+  }
+
+  return { model, config };
+};
+
+const speechConfig = {
+  responseModalities: [Modality.AUDIO],
+  speechConfig: {
+    voiceConfig: {
+      prebuiltVoiceConfig: { voiceName: VOICE_NAME },
+    },
+  },
+};
+
+export const createGeminiUpstream = (): Upstream => ({
+  async *streamChat(request) {
+    const { model, config } = buildChatConfig(request);
+
+    const resultStream = await withRetry('Chat', (ai) =>
+      ai.chats.create({ model, config, history: request.history }).sendMessageStream({ message: request.message })
+    );
+
+    for await (const chunk of resultStream) {
+      const blockReason = chunk.promptFeedback?.blockReason;
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+        throw new UpstreamError('safety', `Blocked by safety filters (${blockReason || finishReason})`);
+      }
+
+      const sources: ChatSource[] = [];
+      // Extract Grounding Metadata (Search URLs)
+      chunk.candidates?.[0]?.groundingMetadata?.groundingChunks?.forEach((c: any) => {
+        if (c.web?.uri) {
+          sources.push({ title: c.web.title || 'مصدر', uri: c.web.uri });
+        }
+      });
+      yield { text: chunk.text || '', sources: sources.length > 0 ? sources : undefined };
+    }
+  },
+
+  async *streamSpeech(text) {
+    const responseStream = await withRetry('TTS', (ai) =>
+      ai.models.generateContentStream({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: speechConfig,
+      })
+    );
+
+    for await (const chunk of responseStream) {
+      const audioData = chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (audioData) yield audioData;
+    }
+  },
+
+  async connectLive(systemInstruction, handlers) {
+    const session = await withRetry('Live', (ai) =>
+      ai.live.connect({
+        model: LIVE_MODEL,
+        config: {
+          ...speechConfig,
+          systemInstruction,
+        },
+        callbacks: {
+          onopen: handlers.onOpen,
+          onmessage: (msg: LiveServerMessage) => {
+            const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (audioData) handlers.onAudio(audioData);
+            if (msg.serverContent?.turnComplete) handlers.onTurnComplete();
+          },
+          onerror: (e) => handlers.onError(e.message || 'Live API Error'),
+          onclose: handlers.onClose,
+        },
+      })
+    );
+
+    return {
+      sendAudio: (base64) => {
+        session.sendRealtimeInput({
+          media: {
+            mimeType: 'audio/pcm;rate=16000',
+            data: base64,
+          },
+        });
+      },
+      close: () => session.close(),
+    };
+  },
+});
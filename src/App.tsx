@@ -6,7 +6,19 @@ import { ChatInterface } from './components/ChatInterface';
 import { SubscriptionModal } from './components/SubscriptionModal';
 import { AdminGenerator } from './components/AdminGenerator';
 import { TutorialModal } from './components/TutorialModal'; // Import
-import { GraduationCap, School, Printer, LockKeyhole, Clock, AlertTriangle, HelpCircle } from 'lucide-react';
+import { FlashcardReview } from './components/FlashcardReview';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { StudyPlanner } from './components/StudyPlanner';
+import { TrackSelector } from './components/TrackSelector';
+import { countDueBySubject } from './services/flashcardService';
+import { getSubjectProgress } from './services/progressService';
+import { getSelectedTrack, saveSelectedTrack } from './services/trackService';
+import { TrackId, getGradeTracks, getTrack } from './data/subjects';
+import { useEntitlement } from './hooks/useEntitlement';
+import { useCurriculumVersion } from './hooks/useCurriculumVersion';
+import { syncCurriculum } from './services/curriculumService';
+import { LessonLink, parseLessonHash } from './utils/lessonLink';
+import { GraduationCap, School, Printer, Clock, AlertTriangle, HelpCircle, BarChart3, CalendarDays } from 'lucide-react';
 
 const App: React.FC = () => {
   // State
@@ -14,95 +26,85 @@ const App: React.FC = () => {
   const [subject, setSubject] = useState<Subject | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   
-  // Trial State
-  const [trialTimeLeft, setTrialTimeLeft] = useState<string>("");
-  const [isTrialActive, setIsTrialActive] = useState(false);
-  const [isCurrentGradeSubscribed, setIsCurrentGradeSubscribed] = useState(false);
-  
   // Manual Subscription Modal State
   const [isManualSubscriptionOpen, setIsManualSubscriptionOpen] = useState(false);
   
   // Tutorial Modal State
   const [isTutorialOpen, setIsTutorialOpen] = useState(false);
 
-  // Check for Admin Route on Mount & Trial Calculation logic
+  // Flashcard Review State (subject undefined = all subjects)
+  const [review, setReview] = useState<{ subject?: Subject } | null>(null);
+  const [dueCounts, setDueCounts] = useState<Partial<Record<Subject, number>>>({});
+  const [subjectProgress, setSubjectProgress] = useState<Partial<Record<Subject, number>>>({});
+
+  // Analytics Dashboard State
+  const [isDashboardOpen, setIsDashboardOpen] = useState(false);
+
+  // Track (شعبة) for grades that split students; asked for before the subjects are shown
+  const [track, setTrack] = useState<TrackId | null>(null);
+  const [isChoosingTrack, setIsChoosingTrack] = useState(false);
+
+  // Study Planner State; pendingLesson is explained as soon as its chat opens
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+  const [pendingLesson, setPendingLesson] = useState<LessonLink | null>(null);
+
+  // Check for Admin Route on Mount
   useEffect(() => {
     // 1. Check Admin Hash
     const checkHash = () => {
         setIsAdmin(window.location.hash === '#admin');
+
+        // 2. Lesson links from the study plan (e.g. opened from a calendar app)
+        const link = parseLessonHash(window.location.hash);
+        if (link) {
+            setGrade(link.grade);
+            setSubject(link.subject);
+            setPendingLesson(link);
+            window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        }
     };
     checkHash();
     window.addEventListener('hashchange', checkHash);
     
-    // --- GUARANTEE TRIAL START ON INSTALLATION/FIRST OPEN ---
-    // This ensures the 7-day countdown starts immediately when the user first opens the site,
-    // even if they stay on the home screen.
-    if (!localStorage.getItem('trial_start_date')) {
-        localStorage.setItem('trial_start_date', new Date().toISOString());
-    }
-    // --------------------------------------------------------
-
-    // 2. Real-time Countdown Timer
-    const timer = setInterval(() => {
-        // Global Trial Check
-        let startStr = localStorage.getItem('trial_start_date');
-        
-        if (startStr) {
-            const startDate = new Date(startStr);
-            // Trial is 7 days
-            const endDate = new Date(startDate.getTime() + 7 * 24 * 60 * 60 * 1000);
-            const now = new Date();
-            const diff = endDate.getTime() - now.getTime();
-
-            if (diff > 0) {
-                setIsTrialActive(true);
-                
-                // Calculate components (Fixed Countdown Format)
-                const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-                const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-                const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-                const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-
-                setTrialTimeLeft(`${days} يوم : ${hours} ساعة : ${minutes} دقيقة : ${seconds} ثانية`);
-            } else {
-                setIsTrialActive(false);
-                setTrialTimeLeft("انتهت الفترة التجريبية");
-            }
-        }
-    }, 1000);
-
     return () => {
         window.removeEventListener('hashchange', checkHash);
-        clearInterval(timer);
     };
   }, []);
 
-  // Check Subscription Status whenever Grade changes
   useEffect(() => {
-    if (grade) {
-        const subscriptionKey = `subscription_expiry_${grade}`;
-        const expiryStr = localStorage.getItem(subscriptionKey);
-        if (expiryStr) {
-            const expiryDate = new Date(expiryStr);
-            if (new Date() < expiryDate) {
-                setIsCurrentGradeSubscribed(true);
-            } else {
-                setIsCurrentGradeSubscribed(false);
-            }
-        } else {
-            setIsCurrentGradeSubscribed(false);
-        }
-    } else {
-        // Home screen
-        setIsCurrentGradeSubscribed(false); 
-    }
-  }, [grade, isManualSubscriptionOpen]); // Re-check when modal closes/opens or grade changes
+    setTrack(grade ? getSelectedTrack(grade)?.id ?? null : null);
+    setIsChoosingTrack(false);
+  }, [grade]);
+
+  // Pick up a newly published curriculum; the version re-renders the lesson lists when it changes
+  const curriculumVersion = useCurriculumVersion();
+  useEffect(() => {
+    syncCurriculum();
+  }, []);
+
+  // Due flashcards and progress for the subject screen; refreshed when coming back from a review or a chat
+  useEffect(() => {
+    if (!grade || subject || review) return;
+    countDueBySubject(grade).then(setDueCounts);
+    getSubjectProgress(grade).then(setSubjectProgress);
+  }, [grade, subject, review, curriculumVersion]);
+
+  // Trial and subscription state for the current grade (ticks every second)
+  const entitlement = useEntitlement(grade);
+  const isCurrentGradeSubscribed = entitlement.isSubscribed;
+  const { days, hours, minutes, seconds } = entitlement.trialTimeLeft;
 
   // Handlers
   const handleGradeSelect = (selectedGrade: GradeLevel) => {
     setGrade(selectedGrade);
   };
 
+  const handleTrackSelect = (selectedTrack: TrackId) => {
+    saveSelectedTrack(grade!, selectedTrack);
+    setTrack(selectedTrack);
+    setIsChoosingTrack(false);
+  };
+
   const handleSubjectSelect = (selectedSubject: Subject) => {
     setSubject(selectedSubject);
   };
@@ -111,6 +113,12 @@ const App: React.FC = () => {
     setSubject(null);
   };
 
+  const handleOpenPlannedLesson = (plannedSubject: Subject, lessonId: string) => {
+    setIsPlannerOpen(false);
+    setSubject(plannedSubject);
+    setPendingLesson({ grade: grade!, subject: plannedSubject, lessonId });
+  };
+
   const handleFullReset = () => {
     setSubject(null);
     setGrade(null);
@@ -120,11 +128,6 @@ const App: React.FC = () => {
     window.print();
   };
 
-  // Toggle Admin Mode manually
-  const toggleAdmin = () => {
-    window.location.hash = '#admin';
-  };
-
   // RENDER ADMIN PANEL IF HASH MATCHES
   if (isAdmin) {
     return <AdminGenerator />;
@@ -145,13 +148,39 @@ const App: React.FC = () => {
         onClose={() => setIsTutorialOpen(false)}
       />
       
+      {grade && (
+        <FlashcardReview
+          isOpen={!!review}
+          onClose={() => setReview(null)}
+          grade={grade}
+          subject={review?.subject}
+        />
+      )}
+
+      {grade && (
+        <AnalyticsDashboard
+          isOpen={isDashboardOpen}
+          onClose={() => setIsDashboardOpen(false)}
+          grade={grade}
+        />
+      )}
+
+      {grade && (
+        <StudyPlanner
+          isOpen={isPlannerOpen}
+          onClose={() => setIsPlannerOpen(false)}
+          grade={grade}
+          onOpenLesson={handleOpenPlannedLesson}
+        />
+      )}
+
       {/* Trial Banner - Real-time Countdown */}
       {/* Only show if trial is active AND we are NOT subscribed to the current grade */}
-      {isTrialActive && !isCurrentGradeSubscribed && trialTimeLeft && (
+      {entitlement.isTrialActive && !isCurrentGradeSubscribed && (
           <div className="bg-indigo-600 text-white text-xs md:text-sm py-2 px-4 text-center font-bold flex items-center justify-center gap-2 no-print shadow-md dir-rtl" dir="rtl">
               <Clock size={16} className="text-yellow-300 animate-pulse" />
               <span>فترة تجريبية مجانية: متبقي</span>
-              <span className="font-mono bg-indigo-700 px-2 py-0.5 rounded text-yellow-300 tracking-wider">{trialTimeLeft}</span>
+              <span className="font-mono bg-indigo-700 px-2 py-0.5 rounded text-yellow-300 tracking-wider">{`${days} يوم : ${hours} ساعة : ${minutes} دقيقة : ${seconds} ثانية`}</span>
           </div>
       )}
 
@@ -161,6 +190,8 @@ const App: React.FC = () => {
             grade={grade} 
             subject={subject} 
             onBack={handleReset} 
+            initialLessonId={pendingLesson?.subject === subject ? pendingLesson.lessonId : undefined}
+            onInitialLessonHandled={() => setPendingLesson(null)}
             // Only show Subscribe button if NOT subscribed to this grade
             onSubscribe={!isCurrentGradeSubscribed ? () => setIsManualSubscriptionOpen(true) : undefined}
         />
@@ -184,6 +215,22 @@ const App: React.FC = () => {
                    <HelpCircle size={20} />
                    <span className="text-xs font-bold hidden sm:inline">شرح الاستخدام</span>
                 </button>
+                <button 
+                  onClick={() => setIsPlannerOpen(true)}
+                  className="text-slate-600 hover:text-indigo-600 hover:bg-slate-50 p-2 rounded-lg transition-colors flex items-center gap-1"
+                  title="خطة المذاكرة"
+                >
+                   <CalendarDays size={20} />
+                   <span className="text-xs font-bold hidden sm:inline">خطتي</span>
+                </button>
+                <button 
+                  onClick={() => setIsDashboardOpen(true)}
+                  className="text-slate-600 hover:text-indigo-600 hover:bg-slate-50 p-2 rounded-lg transition-colors flex items-center gap-1"
+                  title="لوحة إنجازي"
+                >
+                   <BarChart3 size={20} />
+                   <span className="text-xs font-bold hidden sm:inline">إنجازي</span>
+                </button>
                 <button 
                   onClick={handlePrint}
                   className="text-slate-600 hover:text-indigo-600 hover:bg-slate-50 p-2 rounded-lg transition-colors"
@@ -204,16 +251,35 @@ const App: React.FC = () => {
           <main className="flex-1 max-w-5xl mx-auto w-full p-4 flex flex-col">
             <div className="text-center mb-8 mt-4">
               <h2 className="text-2xl md:text-3xl font-black text-slate-800 mb-3">اختر المادة الدراسية</h2>
-              <p className="text-base md:text-lg text-slate-500 font-medium">أنت الآن في {grade}</p>
+              <p className="text-base md:text-lg text-slate-500 font-medium">
+                أنت الآن في {grade}{track && ` - شعبة ${getTrack(grade, track)?.label}`}
+                {track && !isChoosingTrack && (
+                  <button onClick={() => setIsChoosingTrack(true)} className="mr-2 text-xs text-indigo-600 hover:underline">تغيير الشعبة</button>
+                )}
+              </p>
               {/* Show subscribe hint if not subscribed */}
               {!isCurrentGradeSubscribed && (
                  <button onClick={() => setIsManualSubscriptionOpen(true)} className="mt-2 text-xs text-amber-600 bg-amber-50 border border-amber-200 px-3 py-1 rounded-full animate-bounce">
                     اضغط هنا للاشتراك في هذا الصف
                  </button>
               )}
+              {isCurrentGradeSubscribed && (
+                 <button onClick={() => setIsManualSubscriptionOpen(true)} className="mt-2 text-xs text-slate-400 hover:text-indigo-600 underline">
+                    إدارة الاشتراك / نقل لجهاز جديد
+                 </button>
+              )}
             </div>
             
-            <SubjectGrid grade={grade} onSelect={handleSubjectSelect} />
+            {getGradeTracks(grade).length > 0 && (!track || isChoosingTrack) ? (
+              <TrackSelector
+                grade={grade}
+                selected={track}
+                onSelect={handleTrackSelect}
+                onCancel={track ? () => setIsChoosingTrack(false) : undefined}
+              />
+            ) : (
+              <SubjectGrid grade={grade} track={track} onSelect={handleSubjectSelect} dueCounts={dueCounts} progress={subjectProgress} onReview={(reviewSubject) => setReview({ subject: reviewSubject })} />
+            )}
           </main>
         </div>
       ) : (
@@ -310,17 +376,9 @@ const App: React.FC = () => {
                </div>
             </div>
 
-            <div className="bg-slate-50 p-5 text-center text-sm font-medium text-slate-400 border-t border-slate-100 flex justify-center items-center gap-2 relative">
+            {/* The admin panel is reached through #admin only */}
+            <div className="bg-slate-50 p-5 text-center text-sm font-medium text-slate-400 border-t border-slate-100 flex justify-center items-center gap-2">
               <span>مدعوم بتقنية Gemini 2.5 Flash للذكاء الاصطناعي</span>
-              
-              {/* ADMIN BUTTON (VISIBLE NOW) */}
-              <button 
-                onClick={toggleAdmin}
-                className="opacity-50 hover:opacity-100 transition-opacity p-2 absolute left-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-indigo-600"
-                title="لوحة تحكم المسؤول (Admin)"
-              >
-                <LockKeyhole size={16} />
-              </button>
             </div>
           </div>
         </div>
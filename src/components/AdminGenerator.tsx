@@ -1,39 +1,281 @@
 
-import React, { useState } from 'react';
-import { ShieldCheck, Copy, RefreshCw, Lock, Home, KeyRound, Smartphone, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, Copy, RefreshCw, Lock, Home, KeyRound, Smartphone, AlertCircle, GraduationCap, CalendarDays, Package, User, Phone, Banknote } from 'lucide-react';
+import { GradeLevel } from '../types';
+import { GradeKey, LicenseGrade, signLicense, getLicenseId, isSigningKeyValid, isLicenseConfigured } from '../utils/license';
+import { PLANS, PlanTier, DEFAULT_PLAN, getPlan } from '../data/plans';
+import { LedgerEntry, LedgerBackendKind, getLedgerBackend, createLedgerEntry, revokeLedgerEntry, transferLedgerEntry, getGradeLabel } from '../services/ledgerService';
+import { AdminSession, ADMIN_ROLE_LABELS, getStoredAdminSession, loginAdmin, logoutAdmin, verifyAdminSession } from '../services/adminAuthService';
+import { fetchRevokedLicenseIds, publishRevocations } from '../services/revocationService';
+import { TransferReceipt, TransferItem, findSpentLicenseIds } from '../services/transferService';
+import { LicenseLedger } from './LicenseLedger';
+import { TransferPanel } from './TransferPanel';
+import { CurriculumEditor } from './CurriculumEditor';
 
-const SALT = "SMART_EDU_EGYPT_2026"; 
-const ADMIN_PASS = "202625";
+const LEDGER_BACKEND_STORAGE = 'ledger_backend';
+
+interface IssueRequest {
+  deviceId: string;
+  grade: LicenseGrade;
+  plan: PlanTier;
+  days: number;
+  studentName: string;
+  phone: string;
+  price: number;
+  renewedFrom?: string;
+  notes?: string;
+}
 
 export const AdminGenerator: React.FC = () => {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [loginError, setLoginError] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const [session, setSession] = useState<AdminSession | null>(() => getStoredAdminSession());
+  const isAuthenticated = !!session;
+  // Viewers can browse the ledger but not issue or change codes
+  const canEdit = session?.role === 'owner' || session?.role === 'staff';
   
+  // The private key only lives in this component's state and is gone after a reload
+  const [signingKey, setSigningKey] = useState('');
+  const [keyError, setKeyError] = useState('');
   const [studentDeviceId, setStudentDeviceId] = useState('');
+  const [studentName, setStudentName] = useState('');
+  const [studentPhone, setStudentPhone] = useState('');
+  const [studentGrade, setStudentGrade] = useState<LicenseGrade>('GRADE_12');
+  const [plan, setPlan] = useState<PlanTier>(DEFAULT_PLAN);
+  const [days, setDays] = useState(getPlan(DEFAULT_PLAN).days);
+  const [price, setPrice] = useState(getPlan(DEFAULT_PLAN).price);
   const [generatedCode, setGeneratedCode] = useState('');
+  const [generatedSummary, setGeneratedSummary] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // License Ledger
+  const [ledgerBackendKind, setLedgerBackendKind] = useState<LedgerBackendKind>(() => (sessionStorage.getItem(LEDGER_BACKEND_STORAGE) as LedgerBackendKind) || 'local');
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [isLedgerLoading, setIsLedgerLoading] = useState(false);
+  const [ledgerError, setLedgerError] = useState('');
+
+  const ledgerBackend = getLedgerBackend(ledgerBackendKind, session);
+
+  const loadLedger = async () => {
+    setIsLedgerLoading(true);
+    setLedgerError('');
+    try {
+      setLedgerEntries(await ledgerBackend.list());
+    } catch (error) {
+      console.error("Failed to load ledger:", error);
+      setLedgerError('تعذر تحميل سجل الأكواد. تحقق من الاتصال بالخادم.');
+      setLedgerEntries([]);
+      // The server forgets sessions when it restarts
+      if (session && !(await verifyAdminSession(session))) handleSessionEnded();
+    } finally {
+      setIsLedgerLoading(false);
+    }
+  };
+
+  // Saves first, then updates the list, so what is shown is what was stored
+  const saveLedgerEntries = async (changed: LedgerEntry[]) => {
+    setLedgerError('');
+    try {
+      await ledgerBackend.save(changed);
+      const changedIds = new Set(changed.map((entry) => entry.id));
+      setLedgerEntries((current) => [...current.filter((entry) => !changedIds.has(entry.id)), ...changed]);
+    } catch (error) {
+      console.error("Failed to save ledger:", error);
+      setLedgerError('تعذر حفظ التغييرات في سجل الأكواد.');
+      throw error;
+    }
+  };
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    sessionStorage.setItem(LEDGER_BACKEND_STORAGE, ledgerBackendKind);
+    loadLedger();
+  }, [isAuthenticated, ledgerBackendKind]);
+
+  // Re-check a session restored from sessionStorage, and sign out when it expires
+  useEffect(() => {
+    if (!session) return;
+    verifyAdminSession(session).then((isValid) => {
+      if (!isValid) handleSessionEnded();
+    });
+    const timer = setTimeout(handleSessionEnded, Math.max(0, Date.parse(session.expiresAt) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const signOut = () => {
+    logoutAdmin(session);
+    setSigningKey('');
+    setSession(null);
+    setLedgerEntries([]);
+  };
+
+  const handleSessionEnded = () => {
+    signOut();
+    setLoginError('انتهت الجلسة. سجّل الدخول مرة أخرى.');
+  };
 
-  // 1. Login Handler
-  const handleLogin = (e: React.FormEvent) => {
+  // 1. Login Handler (checked by the server; no password ships in the app)
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (password === ADMIN_PASS) {
-      setIsAuthenticated(true);
+    if (isLoggingIn) return;
+    setLoginError('');
+    setIsLoggingIn(true);
+
+    const result = await loginAdmin(username.trim(), password);
+    setIsLoggingIn(false);
+    setPassword('');
+
+    if (result.ok) {
+      setSession(result.session);
     } else {
-      alert("كلمة المرور غير صحيحة");
-      setPassword('');
+      setLoginError(
+        result.reason === 'locked' ? 'محاولات خاطئة كثيرة. حاول مرة أخرى بعد 15 دقيقة.'
+        : result.reason === 'invalid' ? 'اسم المستخدم أو كلمة المرور غير صحيحة'
+        : 'تعذر الاتصال بالخادم.'
+      );
+    }
+  };
+
+  // 2. Code Generator Logic: signs codes and records them in the ledger (with any related
+  // ledger changes, e.g. the entries a transfer replaces) in one save
+  const issueCodes = async (requests: IssueRequest[], relatedChanges: LedgerEntry[] = []): Promise<string[] | null> => {
+    if (isGenerating || !canEdit || requests.length === 0) return null;
+    setKeyError('');
+
+    // The private key must match the public key baked into the student app
+    if (!(await isSigningKeyValid(signingKey))) {
+      setKeyError(isLicenseConfigured()
+        ? 'مفتاح التوقيع غير صحيح أو لا يطابق المفتاح العام للتطبيق.'
+        : 'لم يتم ضبط المفتاح العام (LICENSE_PUBLIC_KEY) في إعدادات التطبيق.');
+      return null;
+    }
+
+    setIsGenerating(true);
+    try {
+      const issuedAt = new Date();
+      const codes: string[] = [];
+      const newEntries: LedgerEntry[] = [];
+      for (const request of requests) {
+        const code = await signLicense({
+          deviceId: request.deviceId.trim(),
+          grade: request.grade,
+          days: request.days,
+          plan: request.plan,
+          issuedAt,
+        }, signingKey);
+        codes.push(code);
+        newEntries.push(createLedgerEntry({ ...request, code, issuedAt }, [...ledgerEntries, ...newEntries]));
+      }
+
+      setGeneratedCode(codes.join('\n\n'));
+      setGeneratedSummary(requests.map((request) =>
+        `${getPlan(request.plan).label} - ${getGradeLabel(request.grade)} - ${request.days} يوم${request.renewedFrom ? ' (تجديد)' : ''}`
+      ).join(' | '));
+
+      // A code that could not be logged is still shown, so the student is not left waiting
+      await saveLedgerEntries([...relatedChanges, ...newEntries]).catch(() => undefined);
+      return codes;
+    } catch (error) {
+      console.error("License signing failed:", error);
+      setKeyError('تعذر توقيع الكود. تأكد من مفتاح التوقيع.');
+      return null;
+    } finally {
+      setIsGenerating(false);
     }
   };
 
-  // 2. Code Generator Logic
   const generateCode = () => {
     if (!studentDeviceId.trim()) return;
-    
-    // CRITICAL: This logic MUST match SubscriptionModal.tsx exactly
-    // We take the DeviceID + Salt -> Base64 -> First 12 Chars
-    const cleanId = studentDeviceId.trim();
-    const rawString = cleanId + SALT;
-    const code = btoa(rawString).substring(0, 12).toUpperCase();
-    
-    setGeneratedCode(code);
+    issueCodes([{
+      deviceId: studentDeviceId,
+      grade: studentGrade,
+      plan,
+      days,
+      studentName,
+      phone: studentPhone,
+      price,
+    }]);
+  };
+
+  // Renewal: same device, grade and plan; the new code stacks on the remaining time
+  const handleRenew = (entry: LedgerEntry) => {
+    const renewalPlan = getPlan(entry.plan);
+    issueCodes([{
+      deviceId: entry.deviceId,
+      grade: entry.grade,
+      plan: entry.plan,
+      days: renewalPlan.days,
+      studentName: entry.studentName,
+      phone: entry.phone,
+      price: renewalPlan.price,
+      renewedFrom: entry.id,
+    }]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Publishing to the server's revocation list is what actually stops the code on the student's device
+  const revokeOnServer = async (licenseIds: string[], reason: string) => {
+    if (!(await publishRevocations(session, licenseIds, reason))) {
+      setLedgerError('تم الإلغاء في السجل فقط: تعذر نشر الإلغاء على الخادم، فسيظل الكود يعمل على جهاز الطالب.');
+    }
+  };
+
+  const handleRevoke = async (entry: LedgerEntry) => {
+    await saveLedgerEntries([revokeLedgerEntry(entry)]).catch(() => undefined);
+    await revokeOnServer([getLicenseId(entry.code)], 'revoked');
+  };
+
+  // Codes on a transfer receipt that were already revoked or transferred; null if the server's list is unavailable
+  const findSpentCodes = async (licenseIds: string[]): Promise<string[] | null> => {
+    const revokedIds = await fetchRevokedLicenseIds();
+    return revokedIds ? findSpentLicenseIds(licenseIds, ledgerEntries, revokedIds) : null;
+  };
+
+  // Device transfer: revoke the codes on the receipt, issue the remaining time to the new device.
+  // Checked again here (not just when the receipt was pasted) and revoked before anything is signed,
+  // so the same receipt can never be turned into codes twice.
+  const handleTransfer = async (receipt: TransferReceipt, items: TransferItem[], newDeviceId: string): Promise<string | null> => {
+    const replacedIds = Array.from(new Set(items.flatMap((item) => item.replaces)));
+    const spent = await findSpentCodes(replacedIds);
+    if (!spent) return 'تعذر التحقق من قائمة الإلغاء على الخادم. حاول مرة أخرى.';
+    if (spent.length > 0) return 'بعض أكواد هذا الإيصال ملغاة أو نُقلت من قبل. لا يمكن استخدام الإيصال مرة أخرى.';
+    if (!(await isSigningKeyValid(signingKey))) return 'مفتاح التوقيع غير صحيح. أدخل المفتاح الصحيح أولاً.';
+
+    if (!(await publishRevocations(session, replacedIds, `transferred to ${newDeviceId}`))) {
+      return 'تعذر إلغاء الأكواد القديمة على الخادم، فلم يتم إصدار أكواد جديدة.';
+    }
+    const replacedEntries = ledgerEntries.filter((entry) => entry.status === 'active' && replacedIds.includes(getLicenseId(entry.code)));
+    const student = replacedEntries[0];
+
+    const codes = await issueCodes(items.map((item) => ({
+      deviceId: newDeviceId,
+      grade: item.grade,
+      plan: item.plan,
+      days: item.days,
+      studentName: student?.studentName || '',
+      phone: student?.phone || '',
+      price: 0,
+      notes: `نقل من ${receipt.deviceId}`,
+    })), replacedEntries.map((entry) => transferLedgerEntry(entry, newDeviceId)));
+
+    if (!codes) return 'تم إلغاء الأكواد القديمة لكن تعذر إصدار الجديدة. أصدرها يدوياً من الأعلى.';
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    return null;
+  };
+
+  const handleImport = (entries: LedgerEntry[]) => {
+    saveLedgerEntries(entries).catch(() => undefined);
+  };
+
+  // Picking a plan fills in its default duration (and all grades for bundles)
+  const handlePlanChange = (planId: PlanTier) => {
+    const selected = getPlan(planId);
+    setPlan(planId);
+    setDays(selected.days);
+    setPrice(selected.price);
+    if (selected.allGrades) setStudentGrade('ALL');
   };
 
   const copyToClipboard = () => {
@@ -55,16 +297,29 @@ export const AdminGenerator: React.FC = () => {
           </div>
           <h2 className="text-2xl font-bold text-white mb-6">منطقة الإدارة</h2>
           <form onSubmit={handleLogin} className="space-y-4">
+            <input 
+              type="text" 
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="اسم المستخدم"
+              className="w-full px-4 py-3 rounded-lg bg-slate-900 border border-slate-600 text-white focus:border-indigo-500 focus:outline-none text-center text-lg"
+              autoComplete="username"
+              dir="ltr"
+              autoFocus
+            />
             <input 
               type="password" 
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               placeholder="أدخل كلمة المرور"
               className="w-full px-4 py-3 rounded-lg bg-slate-900 border border-slate-600 text-white focus:border-indigo-500 focus:outline-none text-center text-lg tracking-widest"
-              autoFocus
+              autoComplete="current-password"
             />
-            <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition-all">
-              دخول
+            {loginError && (
+              <p className="text-red-400 text-xs font-bold bg-red-500/10 p-2 rounded-lg border border-red-500/20">{loginError}</p>
+            )}
+            <button type="submit" disabled={isLoggingIn || !username.trim() || !password} className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition-all disabled:opacity-50">
+              {isLoggingIn ? 'جاري التحقق...' : 'دخول'}
             </button>
           </form>
           <button 
@@ -79,7 +334,7 @@ export const AdminGenerator: React.FC = () => {
   }
 
   return (
-    <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col items-center justify-center p-4 font-mono" dir="rtl">
+    <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col items-center justify-center p-4 py-10 font-mono" dir="rtl">
       <div className="max-w-xl w-full space-y-6">
         
         {/* Header */}
@@ -88,7 +343,12 @@ export const AdminGenerator: React.FC = () => {
              <ShieldCheck size={20} className="text-emerald-500" />
              <span className="font-bold text-white">مولد أكواد التفعيل</span>
            </div>
-           <button onClick={() => setIsAuthenticated(false)} className="text-xs hover:text-white">تسجيل خروج</button>
+           <div className="flex items-center gap-3 text-xs">
+             <span>{session.username} ({ADMIN_ROLE_LABELS[session.role]})</span>
+             <button onClick={signOut} className="hover:text-white">
+               تسجيل خروج
+             </button>
+           </div>
         </div>
 
         {/* Generator Section */}
@@ -105,6 +365,23 @@ export const AdminGenerator: React.FC = () => {
                </p>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">مفتاح التوقيع الخاص (Private Key)</label>
+              <div className="relative">
+                <input 
+                    type="password" 
+                    value={signingKey}
+                    onChange={(e) => setSigningKey(e.target.value)}
+                    placeholder="الصق المفتاح الخاص هنا (64 حرف)"
+                    className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none font-mono text-center placeholder:text-slate-600"
+                    dir="ltr"
+                    autoComplete="off"
+                />
+                <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600" size={20} />
+              </div>
+              <p className="text-[11px] text-slate-500 mt-1">لا يُحفظ المفتاح على الجهاز، وستحتاج إلى لصقه من جديد بعد تحديث الصفحة.</p>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-slate-400 mb-2">رقم جهاز الطالب (System ID)</label>
               <div className="relative">
@@ -120,24 +397,128 @@ export const AdminGenerator: React.FC = () => {
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">اسم الطالب</label>
+                <div className="relative">
+                  <input
+                      type="text"
+                      value={studentName}
+                      onChange={(e) => setStudentName(e.target.value)}
+                      placeholder="الاسم"
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none font-bold placeholder:text-slate-600"
+                  />
+                  <User className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600 pointer-events-none" size={20} />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">رقم الهاتف</label>
+                <div className="relative">
+                  <input
+                      type="tel"
+                      value={studentPhone}
+                      onChange={(e) => setStudentPhone(e.target.value)}
+                      placeholder="01xxxxxxxxx"
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none font-bold text-center placeholder:text-slate-600"
+                      dir="ltr"
+                  />
+                  <Phone className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600 pointer-events-none" size={20} />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">الباقة</label>
+              <div className="relative">
+                <select
+                    value={plan}
+                    onChange={(e) => handlePlanChange(e.target.value as PlanTier)}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none font-bold"
+                >
+                    {PLANS.map((p) => (
+                        <option key={p.id} value={p.id}>{p.label} ({p.price}ج)</option>
+                    ))}
+                </select>
+                <Package className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600 pointer-events-none" size={20} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">الصف الدراسي</label>
+                <div className="relative">
+                  <select
+                      value={studentGrade}
+                      onChange={(e) => setStudentGrade(e.target.value as LicenseGrade)}
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none font-bold"
+                  >
+                      {(Object.keys(GradeLevel) as GradeKey[]).map((key) => (
+                          <option key={key} value={key}>{GradeLevel[key]}</option>
+                      ))}
+                      <option value="ALL">كل الصفوف</option>
+                  </select>
+                  <GraduationCap className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600 pointer-events-none" size={20} />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">المدة (أيام)</label>
+                <div className="relative">
+                  <input
+                      type="number"
+                      min={1}
+                      max={730}
+                      value={days}
+                      onChange={(e) => setDays(Math.max(1, Math.min(730, Number(e.target.value) || 1)))}
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none font-bold text-center"
+                      dir="ltr"
+                  />
+                  <CalendarDays className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600 pointer-events-none" size={20} />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">المبلغ المدفوع (ج)</label>
+              <div className="relative">
+                <input
+                    type="number"
+                    min={0}
+                    value={price}
+                    onChange={(e) => setPrice(Math.max(0, Number(e.target.value) || 0))}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none font-bold text-center"
+                    dir="ltr"
+                />
+                <Banknote className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600 pointer-events-none" size={20} />
+              </div>
+            </div>
+
+            {keyError && (
+              <div className="text-red-400 text-xs font-bold text-center bg-red-500/10 p-2 rounded-lg border border-red-500/20">
+                {keyError}
+              </div>
+            )}
+
             <button 
               onClick={generateCode}
-              disabled={!studentDeviceId.trim()}
+              disabled={!studentDeviceId.trim() || !signingKey.trim() || isGenerating || !canEdit}
               className={`w-full font-bold py-4 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg ${
-                  studentDeviceId.trim() 
+                  studentDeviceId.trim() && signingKey.trim() && !isGenerating && canEdit
                   ? 'bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white shadow-emerald-900/20' 
                   : 'bg-slate-700 text-slate-500 cursor-not-allowed'
               }`}
             >
-              <RefreshCw size={20} />
+              <RefreshCw size={20} className={isGenerating ? 'animate-spin' : ''} />
               توليد كود التفعيل
             </button>
 
             {generatedCode && (
               <div className="bg-black/30 p-6 rounded-xl border border-emerald-500/30 text-center animate-in fade-in slide-in-from-top-2">
                 <p className="text-sm text-emerald-400 mb-3 font-bold">تم توليد الكود بنجاح (صالح لهذا الجهاز فقط)</p>
-                <div className="bg-slate-900 p-4 rounded-lg border border-slate-700 mb-4 cursor-pointer hover:border-emerald-500 transition-colors" onClick={copyToClipboard}>
-                  <code className="text-3xl font-black text-white tracking-widest break-all">{generatedCode}</code>
+                <p className="text-xs text-slate-400 mb-3">{generatedSummary}</p>
+                <div className="bg-slate-900 p-4 rounded-lg border border-slate-700 mb-4 cursor-pointer hover:border-emerald-500 transition-colors" onClick={copyToClipboard} dir="ltr">
+                  <code className="text-sm font-bold text-white break-all whitespace-pre-wrap">{generatedCode}</code>
                 </div>
                 <button 
                   onClick={copyToClipboard}
@@ -151,6 +532,37 @@ export const AdminGenerator: React.FC = () => {
           </div>
         </div>
 
+      </div>
+
+      {/* Device Transfer */}
+      {canEdit && (
+        <div className="max-w-3xl w-full mt-6">
+          <TransferPanel isBusy={isGenerating} onCheck={findSpentCodes} onTransfer={handleTransfer} />
+        </div>
+      )}
+
+      {/* Curriculum */}
+      <div className="max-w-3xl w-full mt-6">
+        <CurriculumEditor session={session} canEdit={canEdit} />
+      </div>
+
+      {/* Ledger Section */}
+      <div className="max-w-3xl w-full mt-6">
+        <LicenseLedger
+          entries={ledgerEntries}
+          isLoading={isLedgerLoading}
+          error={ledgerError}
+          backendKind={ledgerBackendKind}
+          canEdit={canEdit}
+          onBackendKindChange={setLedgerBackendKind}
+          onReload={loadLedger}
+          onRevoke={handleRevoke}
+          onRenew={handleRenew}
+          onImport={handleImport}
+        />
+      </div>
+
+      <div className="max-w-xl w-full">
         <div className="text-center pt-8">
            <button 
              onClick={handleExit} 
@@ -0,0 +1,158 @@
+
+import React, { useState, useEffect } from 'react';
+import { X, BarChart3, Flame, Timer, Trophy, TrendingDown, Loader2 } from 'lucide-react';
+import { ResponsiveContainer, BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { AnalyticsEvent, GradeLevel } from '../types';
+import { listAnalyticsEvents } from '../services/analyticsService';
+import { getAccuracyTrend, getStudyStreak, getStudyTimeBySubject, getWeakLessons } from '../utils/analytics';
+
+interface AnalyticsDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grade: GradeLevel;
+}
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)} س ${minutes % 60} د` : `${minutes} د`;
+
+// "2026-10-19" -> "19/10"
+const formatDay = (day: string) => day.split('-').slice(1).reverse().join('/');
+
+const StatCard: React.FC<{ icon: React.ReactNode; label: string; value: string }> = ({ icon, label, value }) => (
+  <div className="bg-white rounded-2xl border border-slate-200 p-4 flex items-center gap-3">
+    <div className="p-2 bg-slate-50 rounded-full shrink-0">{icon}</div>
+    <div className="min-w-0">
+      <p className="text-xs text-slate-500 font-bold">{label}</p>
+      <p className="text-lg font-black text-slate-800 truncate">{value}</p>
+    </div>
+  </div>
+);
+
+const EmptyChart: React.FC<{ text: string }> = ({ text }) => (
+  <p className="text-sm text-slate-400 text-center py-10">{text}</p>
+);
+
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ isOpen, onClose, grade }) => {
+  const [events, setEvents] = useState<AnalyticsEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    listAnalyticsEvents(grade).then((loaded) => {
+      setEvents(loaded);
+      setIsLoading(false);
+    });
+  }, [isOpen, grade]);
+
+  if (!isOpen) return null;
+
+  const studyTime = getStudyTimeBySubject(events);
+  const totalMinutes = studyTime.reduce((sum, entry) => sum + entry.minutes, 0);
+  const trend = getAccuracyTrend(events).map((point) => ({ ...point, day: formatDay(point.day) }));
+  const weakLessons = getWeakLessons(events);
+  const streak = getStudyStreak(events);
+  const quizzesTaken = events.filter((event) => event.type === 'quiz_completed' || event.type === 'exam_completed').length;
+
+  return (
+    <div className="fixed inset-0 z-[95] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-2 md:p-4 animate-in fade-in duration-200" dir="rtl">
+      <div className="bg-slate-50 w-full max-w-3xl max-h-[95vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-white p-4 border-b border-slate-200 flex items-center justify-between gap-3 shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <BarChart3 className="text-indigo-600 shrink-0" size={22} />
+              لوحة إنجازي
+            </h2>
+            <p className="text-xs text-slate-500 truncate">{grade} - محسوبة من نشاطك على هذا الجهاز</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-slate-100 hover:bg-slate-200 rounded-full transition-colors text-slate-600 shrink-0">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 size={32} className="animate-spin text-indigo-500" />
+            </div>
+          ) : (
+            <>
+              {/* Headline numbers */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <StatCard icon={<Flame size={20} className="text-orange-500" />} label="أيام متتالية" value={`${streak.current} يوم`} />
+                <StatCard icon={<Trophy size={20} className="text-amber-500" />} label="أطول سلسلة" value={`${streak.longest} يوم`} />
+                <StatCard icon={<Timer size={20} className="text-indigo-500" />} label="وقت المذاكرة" value={formatMinutes(totalMinutes)} />
+                <StatCard icon={<BarChart3 size={20} className="text-emerald-500" />} label="اختبارات منتهية" value={`${quizzesTaken}`} />
+              </div>
+
+              {/* Study time per subject */}
+              <section className="bg-white rounded-2xl border border-slate-200 p-4">
+                <h3 className="font-bold text-slate-800 mb-3">وقت المذاكرة لكل مادة</h3>
+                {studyTime.length > 0 ? (
+                  <div dir="ltr" style={{ height: Math.max(160, studyTime.length * 40) }}>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={studyTime} layout="vertical" margin={{ top: 0, right: 8, bottom: 0, left: 8 }}>
+                        <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                        <XAxis type="number" reversed allowDecimals={false} tick={{ fontSize: 11 }} />
+                        <YAxis type="category" dataKey="subject" orientation="right" width={120} tick={{ fontSize: 12 }} />
+                        <Tooltip formatter={(value: number) => [formatMinutes(value), 'الوقت']} />
+                        <Bar dataKey="minutes" fill="#6366f1" radius={[4, 0, 0, 4]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <EmptyChart text="افتح أي مادة وذاكر مع المعلم الذكي ليظهر وقتك هنا." />
+                )}
+              </section>
+
+              {/* Accuracy trend */}
+              <section className="bg-white rounded-2xl border border-slate-200 p-4">
+                <h3 className="font-bold text-slate-800 mb-3">نسبة الإجابات الصحيحة (آخر 30 يوم)</h3>
+                {trend.length > 0 ? (
+                  <div dir="ltr" className="h-56">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={trend} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="day" tick={{ fontSize: 11 }} />
+                        <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 11 }} />
+                        <Tooltip formatter={(value: number) => [`${value}%`, 'الدقة']} />
+                        <Line type="monotone" dataKey="accuracy" stroke="#10b981" strokeWidth={2} dot={{ r: 3 }} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <EmptyChart text="حل اختباراً تدريبياً أو امتحاناً تجريبياً لترى تطور مستواك." />
+                )}
+              </section>
+
+              {/* Weak lessons */}
+              <section className="bg-white rounded-2xl border border-slate-200 p-4">
+                <h3 className="font-bold text-slate-800 mb-3 flex items-center gap-2">
+                  <TrendingDown size={18} className="text-red-500" />
+                  دروس تحتاج مراجعة
+                </h3>
+                {weakLessons.length > 0 ? (
+                  <ul className="space-y-2">
+                    {weakLessons.map((lesson) => (
+                      <li key={`${lesson.subject}|${lesson.lesson}`} className="flex items-center justify-between gap-3 p-3 bg-red-50/50 border border-red-100 rounded-xl">
+                        <div className="min-w-0">
+                          <p className="font-bold text-slate-800 text-sm truncate">{lesson.lesson}</p>
+                          <p className="text-xs text-slate-500">{lesson.subject} · {lesson.attempts} محاولة</p>
+                        </div>
+                        <span className="text-sm font-black text-red-600 shrink-0">{Math.round(lesson.accuracy * 100)}%</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <EmptyChart text="لا توجد دروس ضعيفة حالياً. استمر!" />
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ResponsiveContainer, LineChart, Line, BarChart, Bar, ScatterChart, Scatter, XAxis, YAxis, Tooltip, CartesianGrid, Legend } from 'recharts';
+import { ChartSpec } from '../utils/answerBlocks';
+
+interface ChartBlockProps {
+  spec: ChartSpec;
+}
+
+const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#06b6d4', '#a855f7'];
+
+// One row per x value with a column per series, the shape recharts expects
+const toRows = (spec: ChartSpec) => {
+  const rows = new Map<number | string, Record<string, number | string>>();
+  spec.series.forEach((series, index) => {
+    series.data.forEach(([x, y]) => rows.set(x, { ...(rows.get(x) || { x }), [`s${index}`]: y }));
+  });
+  const values = Array.from(rows.values());
+  return values.every((row) => typeof row.x === 'number') ? values.sort((a, b) => (a.x as number) - (b.x as number)) : values;
+};
+
+export const ChartBlock: React.FC<ChartBlockProps> = ({ spec }) => {
+  const rows = toRows(spec);
+  const isNumericX = rows.every((row) => typeof row.x === 'number');
+  const xAxis = (
+    <XAxis
+      dataKey="x"
+      type={isNumericX && spec.type !== 'bar' ? 'number' : 'category'}
+      domain={['auto', 'auto']}
+      tick={{ fontSize: 11 }}
+      label={spec.xLabel ? { value: spec.xLabel, position: 'insideBottom', offset: -4, fontSize: 12 } : undefined}
+    />
+  );
+  const yAxis = (
+    <YAxis
+      tick={{ fontSize: 11 }}
+      label={spec.yLabel ? { value: spec.yLabel, angle: -90, position: 'insideLeft', fontSize: 12 } : undefined}
+    />
+  );
+  const common = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" />
+      {xAxis}
+      {yAxis}
+      <Tooltip />
+      {spec.series.length > 1 && <Legend wrapperStyle={{ fontSize: 12 }} />}
+    </>
+  );
+  const margin = { top: 8, right: 16, bottom: spec.xLabel ? 16 : 0, left: spec.yLabel ? 8 : -8 };
+
+  return (
+    <figure className="my-5 w-full bg-white border border-slate-200 rounded-xl p-3 pop-in print:border-black">
+      {spec.title && <figcaption className="text-sm md:text-base font-bold text-slate-700 mb-2 text-center">{spec.title}</figcaption>}
+      {/* Axes read left to right, as in the textbook */}
+      <div className="h-64 md:h-72" dir="ltr">
+        <ResponsiveContainer width="100%" height="100%">
+          {spec.type === 'bar' ? (
+            <BarChart data={rows} margin={margin}>
+              {common}
+              {spec.series.map((series, index) => (
+                <Bar key={index} dataKey={`s${index}`} name={series.name} fill={COLORS[index]} radius={[4, 4, 0, 0]} />
+              ))}
+            </BarChart>
+          ) : spec.type === 'scatter' ? (
+            <ScatterChart margin={margin}>
+              {common}
+              {spec.series.map((series, index) => (
+                <Scatter key={index} data={rows.filter((row) => row[`s${index}`] !== undefined)} dataKey={`s${index}`} name={series.name} fill={COLORS[index]} />
+              ))}
+            </ScatterChart>
+          ) : (
+            <LineChart data={rows} margin={margin}>
+              {common}
+              {spec.series.map((series, index) => (
+                <Line key={index} type="monotone" dataKey={`s${index}`} name={series.name} stroke={COLORS[index]} strokeWidth={2} dot={{ r: 3 }} connectNulls />
+              ))}
+            </LineChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+    </figure>
+  );
+};
@@ -1,19 +1,31 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GradeLevel, Subject, Message, Sender, Attachment } from '../types';
-import { generateStreamResponse } from '../services/geminiService';
+import { GradeLevel, Subject, Message, Sender, Attachment, Conversation, CurriculumLesson, FlashcardSource } from '../types';
+import { generateStreamResponse, generateFlashcards, summarizeConversation, GeminiError } from '../services/geminiService';
+import { addFlashcards } from '../services/flashcardService';
+import { markLessonExplained, markVideoWatched } from '../services/progressService';
+import { logEvent, recordStudyTime } from '../services/analyticsService';
+import { listConversations, createConversation, saveConversation, renameConversation, deleteConversation } from '../services/chatHistoryService';
+import { keepRecentMessages, planHistory } from '../utils/contextWindow';
 import { MessageBubble } from './MessageBubble';
+import { ConversationSidebar } from './ConversationSidebar';
 import { LiveVoiceModal } from './LiveVoiceModal';
 import { LessonBrowser } from './LessonBrowser';
+import { QuizModal } from './QuizModal';
+import { ExamModal } from './ExamModal';
 import { YouTubeModal } from './YouTubeModal';
 import { VideoResult } from '../data/videoData';
-import { Send, Sparkles, ChevronRight, HelpCircle, FileText, Lightbulb, Bot, List, Printer, Mic, Camera, Paperclip, X, Image as ImageIcon, AudioLines, StopCircle, BrainCircuit, Globe, Youtube, PlayCircle, BadgePercent } from 'lucide-react';
+import { findLesson } from '../data/curriculum';
+import { Send, Sparkles, ChevronRight, HelpCircle, FileText, Lightbulb, Bot, List, Printer, Mic, Camera, Paperclip, X, Image as ImageIcon, AudioLines, StopCircle, BrainCircuit, Globe, Youtube, PlayCircle, BadgePercent, History, FileCheck2, Layers, Pencil, Square, Archive } from 'lucide-react';
 
 interface ChatInterfaceProps {
   grade: GradeLevel;
   subject: Subject;
   onBack: () => void;
   onSubscribe?: () => void;
+  // Lesson to explain on arrival (study-plan links)
+  initialLessonId?: string;
+  onInitialLessonHandled?: () => void;
 }
 
 const SUGGESTIONS = [
@@ -26,7 +38,7 @@ const SUGGESTIONS = [
   { 
     label: 'أسئلة تدريبية', 
     icon: <HelpCircle size={18} />, 
-    promptPrefix: 'أعطني أسئلة تدريبية عن: ',
+    promptPrefix: 'QUIZ_TRIGGER', // Opens the lesson list, then the quiz
     autoSend: false
   },
   { 
@@ -43,17 +55,21 @@ const SUGGESTIONS = [
   },
 ];
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, onBack, onSubscribe }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      text: `أهلاً بك يا بطل في مادة **${subject}**! 🚀\n\nأنا جاهز لمساعدتك. يمكنك تصوير مسألة من الكتاب 📸، أو تسجيل سؤالك بصوتك 🎙️، أو الكتابة لي.\n\n💡 *نصيحة: يمكنك الضغط على أي سطر في إجابتي للسؤال عنه فوراً.*`,
-      sender: Sender.BOT,
-      timestamp: new Date(),
-    },
-  ]);
+const createWelcomeMessage = (subject: Subject): Message => ({
+  id: '1',
+  text: `أهلاً بك يا بطل في مادة **${subject}**! 🚀\n\nأنا جاهز لمساعدتك. يمكنك تصوير مسألة من الكتاب 📸، أو تسجيل سؤالك بصوتك 🎙️، أو الكتابة لي.\n\n💡 *نصيحة: يمكنك الضغط على أي سطر في إجابتي للسؤال عنه فوراً.*`,
+  sender: Sender.BOT,
+  timestamp: new Date(),
+});
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, onBack, onSubscribe, initialLessonId, onInitialLessonHandled }) => {
+  const [messages, setMessages] = useState<Message[]>(() => [createWelcomeMessage(subject)]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Aborts the answer being streamed (stop button)
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // User message being edited in the input; sending replaces it and the answers after it
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [attachment, setAttachment] = useState<Attachment | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [isLiveMode, setIsLiveMode] = useState(false);
@@ -64,9 +80,22 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
 
   // Video & Lesson Browser State
   const [isLessonBrowserOpen, setIsLessonBrowserOpen] = useState(false);
+  const [lessonBrowserMode, setLessonBrowserMode] = useState<'browse' | 'quiz'>('browse');
+  const [quizLesson, setQuizLesson] = useState<CurriculumLesson | null>(null);
+  const [isExamOpen, setIsExamOpen] = useState(false);
+
+  // Flashcard creation feedback (shown briefly above the input)
+  const [cardNotice, setCardNotice] = useState('');
   const [isVideoModalOpen, setIsVideoModalOpen] = useState(false);
   const [currentVideoData, setCurrentVideoData] = useState<VideoResult | null>(null);
   const [currentLessonTitle, setCurrentLessonTitle] = useState('');
+
+  // Saved Conversations State
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversation, setActiveConversation] = useState<Conversation | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Messages as last loaded/saved, so reopening a chat does not count as an edit
+  const persistedMessagesRef = useRef<Message[] | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -82,6 +111,109 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
     scrollToBottom();
   }, [messages, attachment]);
 
+  // Leaving the chat stops an answer still streaming
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // --- Conversation Persistence ---
+
+  const startNewConversation = () => {
+    const welcome = [createWelcomeMessage(subject)];
+    setActiveConversation(createConversation({ grade, subject }, welcome));
+    persistedMessagesRef.current = welcome;
+    setMessages(welcome);
+    setEditingMessageId(null);
+    setIsHistoryOpen(false);
+  };
+
+  const openConversation = (conversation: Conversation) => {
+    setActiveConversation(conversation);
+    persistedMessagesRef.current = conversation.messages;
+    setMessages(conversation.messages);
+    setEditingMessageId(null);
+    setIsHistoryOpen(false);
+  };
+
+  // Restore the most recent conversation for this grade/subject
+  useEffect(() => {
+    let cancelled = false;
+    listConversations({ grade, subject }).then((stored) => {
+      if (cancelled) return;
+      setConversations(stored);
+      if (stored.length > 0) {
+        openConversation(stored[0]);
+      } else {
+        startNewConversation();
+      }
+    });
+    return () => { cancelled = true; };
+  }, [grade, subject]);
+
+  // A lesson opened from the study plan gets a conversation of its own, once history has loaded.
+  // Sent on the render after the new conversation so the explanation does not carry the old history.
+  useEffect(() => {
+    if (!initialLessonId || activeConversation?.grade !== grade || activeConversation.subject !== subject || isLoading) return;
+    if (messages.length > 1) {
+      startNewConversation();
+      return;
+    }
+    onInitialLessonHandled?.();
+    // Lessons since removed from the curriculum are skipped
+    const lesson = findLesson(grade, subject, initialLessonId);
+    if (lesson) handleExplainLesson(lesson);
+  }, [initialLessonId, activeConversation, messages]);
+
+  // Time with this chat on screen counts as study time for the subject
+  useEffect(() => {
+    let startedAt: number | null = document.visibilityState === 'visible' ? Date.now() : null;
+    const flush = () => {
+      if (startedAt !== null) recordStudyTime(grade, subject, Date.now() - startedAt);
+      startedAt = null;
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') startedAt = Date.now();
+      else flush();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+    };
+  }, [grade, subject]);
+
+  // Save once a reply has finished streaming (skip chats that only hold the welcome message)
+  useEffect(() => {
+    if (!activeConversation || messages === persistedMessagesRef.current) return;
+    if (messages.length < 2 || messages.some((msg) => msg.isStreaming)) return;
+    persistedMessagesRef.current = messages;
+
+    saveConversation({ ...activeConversation, messages }).then((saved) => {
+      setConversations((prev) => [saved, ...prev.filter((c) => c.id !== saved.id)]);
+    });
+  }, [messages]);
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    if (!(await renameConversation(id, title))) {
+      alert("تعذر تغيير اسم المحادثة. حاول مرة أخرى.");
+      return;
+    }
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title } : c)));
+    if (activeConversation?.id === id) {
+      setActiveConversation({ ...activeConversation, title });
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    if (!(await deleteConversation(id))) {
+      alert("تعذر حذف المحادثة. حاول مرة أخرى.");
+      return;
+    }
+    setConversations((prev) => prev.filter((c) => c.id !== id));
+    if (activeConversation?.id === id) {
+      startNewConversation();
+    }
+  };
+
   // --- Handlers for Files & Camera ---
 
   const processFile = (file: File) => {
@@ -158,32 +290,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
 
   // --- Main Send Handler ---
 
-  const handleSend = async (text: string = inputValue) => {
-    if ((!text.trim() && !attachment) || isLoading) return;
-
-    // Default text if only attachment sent
-    let finalText = text;
-    if (!finalText.trim() && attachment) {
-        if (attachment.type === 'image') finalText = "اشرح هذه الصورة";
-        else if (attachment.type === 'audio') finalText = "استمع وأجب";
-        else finalText = "اشرح هذا الملف";
-    }
-
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      text: finalText,
-      sender: Sender.USER,
-      timestamp: new Date(),
-      attachment: attachment ? { ...attachment } : undefined
-    };
-
-    setMessages((prev) => [...prev, userMessage]);
-    setInputValue('');
-    setAttachment(null); // Clear attachment after sending
+  // Streams the answer to `userMessage`; `history` is everything before it
+  const streamReply = async (history: Message[], userMessage: Message) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
+    const botMessageId = (Date.now() + 1).toString();
 
     try {
-      const botMessageId = (Date.now() + 1).toString();
       const initialBotMessage: Message = {
         id: botMessageId,
         text: '',
@@ -193,11 +307,36 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
       };
       setMessages((prev) => [...prev, initialBotMessage]);
 
-      await generateStreamResponse(
-        finalText,
+      // Long chats: older messages are folded into the conversation's running summary
+      const plan = planHistory(history, activeConversation?.summary);
+      let summary = plan.summary;
+      let recent = plan.recent;
+      if (plan.toSummarize.length > 0) {
+        const text = await summarizeConversation(grade, subject, summary?.text, plan.toSummarize, controller.signal);
+        // Stopped before the answer started: no empty "stopped" bubble
+        if (controller.signal.aborted) {
+          setMessages((prev) => prev.filter((msg) => msg.id !== botMessageId));
+          return;
+        }
+        if (text) {
+          summary = {
+            text,
+            throughMessageId: plan.toSummarize[plan.toSummarize.length - 1].id,
+            messageCount: (summary?.messageCount || 0) + plan.toSummarize.length,
+          };
+        } else {
+          recent = keepRecentMessages([...plan.toSummarize, ...recent]);
+        }
+      }
+      if (summary !== activeConversation?.summary) {
+        setActiveConversation((current) => current && { ...current, summary: summary || undefined });
+      }
+
+      const reply = await generateStreamResponse(
+        userMessage.text,
         grade,
         subject,
-        messages,
+        recent,
         (chunkText) => {
           setMessages((prev) =>
             prev.map((msg) =>
@@ -208,24 +347,94 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
         userMessage.attachment,
         {
             useThinking: isThinkingMode,
-            useSearch: isSearchMode
+            useSearch: isSearchMode,
+            signal: controller.signal,
+            summary: summary?.text,
         }
       );
 
       setMessages((prev) =>
         prev.map((msg) =>
-          msg.id === botMessageId ? { ...msg, isStreaming: false } : msg
+          msg.id === botMessageId
+            ? { ...msg, text: reply, isStreaming: false, ...(controller.signal.aborted ? { isStopped: true } : {}) }
+            : msg
         )
       );
     } catch (error) {
       console.error(error);
+      // Shown as an error bubble with its own retry button; the partial text (if any) stays above it
+      const kind = error instanceof GeminiError ? error.kind : 'unknown';
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === botMessageId ? { ...msg, isStreaming: false, error: kind } : msg))
+      );
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleSend = async (text: string = inputValue) => {
+    if ((!text.trim() && !attachment) || isLoading) return;
+
+    // Default text if only attachment sent
+    let finalText = text;
+    if (!finalText.trim() && attachment) {
+        if (attachment.type === 'image') finalText = "اشرح هذه الصورة";
+        else if (attachment.type === 'audio') finalText = "استمع وأجب";
+        else finalText = "اشرح هذا الملف";
+    }
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      text: finalText,
+      sender: Sender.USER,
+      timestamp: new Date(),
+      attachment: attachment ? { ...attachment } : undefined
+    };
+
+    // An edited question replaces the original and everything after it
+    const editIndex = editingMessageId ? messages.findIndex((msg) => msg.id === editingMessageId) : -1;
+    const history = editIndex >= 0 ? messages.slice(0, editIndex) : messages;
+
+    setMessages([...history, userMessage]);
+    logEvent({ type: 'message_sent', grade, subject });
+    setInputValue('');
+    setAttachment(null); // Clear attachment after sending
+    setEditingMessageId(null);
+
+    await streamReply(history, userMessage);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Asks the last question again in place of the last answer
+  const handleRegenerate = () => {
+    const userIndex = messages.length - 2;
+    const userMessage = messages[userIndex];
+    if (isLoading || userMessage?.sender !== Sender.USER) return;
+    setMessages(messages.slice(0, userIndex + 1));
+    streamReply(messages.slice(0, userIndex), userMessage);
+  };
+
+  const handleEditMessage = (message: Message) => {
+    if (isLoading) return;
+    setEditingMessageId(message.id);
+    setInputValue(message.text);
+    setAttachment(message.attachment || null);
+    inputRef.current?.focus();
+  };
+
+  const cancelEdit = () => {
+    setEditingMessageId(null);
+    setInputValue('');
+    setAttachment(null);
+  };
+
   const handleSuggestionClick = (suggestion: typeof SUGGESTIONS[0]) => {
-    if (suggestion.promptPrefix === 'LESSON_BROWSER_TRIGGER') {
+    if (suggestion.promptPrefix === 'LESSON_BROWSER_TRIGGER' || suggestion.promptPrefix === 'QUIZ_TRIGGER') {
+        setLessonBrowserMode(suggestion.promptPrefix === 'QUIZ_TRIGGER' ? 'quiz' : 'browse');
         setIsLessonBrowserOpen(true);
         return;
     }
@@ -275,17 +484,42 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
   };
   
   // Video Handlers
-  const handlePlayVideo = (lesson: string, data: VideoResult) => {
-      setCurrentLessonTitle(lesson);
+  const handlePlayVideo = (lesson: CurriculumLesson, data: VideoResult) => {
+      setCurrentLessonTitle(lesson.title);
       setCurrentVideoData(data);
       setIsVideoModalOpen(true);
+      markVideoWatched(grade, subject, lesson);
   };
   
   // Explain Handler
-  const handleExplainLesson = (lesson: string) => {
+  const handleExplainLesson = (lesson: CurriculumLesson) => {
       setIsLessonBrowserOpen(false);
+      markLessonExplained(grade, subject, lesson);
       // Construct a good prompt for explanation
-      handleSend(`اشرح لي درس "${lesson}" بالتفصيل وبالأمثلة.`);
+      handleSend(`اشرح لي درس "${lesson.title}" بالتفصيل وبالأمثلة.`);
+  };
+
+  // Flashcard Handlers
+  const showCardNotice = (text: string) => {
+      setCardNotice(text);
+      setTimeout(() => setCardNotice((current) => current === text ? '' : current), 3000);
+  };
+
+  const handleMakeCards = async (source: FlashcardSource, content: string, lesson?: CurriculumLesson) => {
+      showCardNotice('جاري تجهيز البطاقات...');
+      const cards = await generateFlashcards(grade, subject, source, content);
+      if (!cards) {
+          showCardNotice('تعذر إنشاء البطاقات الآن');
+          return;
+      }
+      const added = await addFlashcards(cards.map((card) => ({ ...card, grade, subject, source, lessonId: lesson?.id, lesson: lesson?.title })));
+      showCardNotice(added.length > 0 ? `تمت إضافة ${added.length} بطاقة للمراجعة` : 'البطاقات موجودة بالفعل');
+  };
+
+  // Quiz Handler
+  const handleQuizLesson = (lesson: CurriculumLesson) => {
+      setIsLessonBrowserOpen(false);
+      setQuizLesson(lesson);
   };
 
   return (
@@ -306,6 +540,24 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
         subject={subject}
         onPlayVideo={handlePlayVideo}
         onExplain={handleExplainLesson}
+        onQuiz={handleQuizLesson}
+        onMakeCards={(lesson) => handleMakeCards('lesson', lesson.title, lesson)}
+        mode={lessonBrowserMode}
+      />
+
+      <QuizModal
+        isOpen={!!quizLesson}
+        onClose={() => setQuizLesson(null)}
+        grade={grade}
+        subject={subject}
+        lesson={quizLesson}
+      />
+
+      <ExamModal
+        isOpen={isExamOpen}
+        onClose={() => setIsExamOpen(false)}
+        grade={grade}
+        subject={subject}
       />
 
       <YouTubeModal 
@@ -315,6 +567,17 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
         lessonTitle={currentLessonTitle}
       />
 
+      <ConversationSidebar
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        conversations={conversations}
+        activeId={activeConversation?.id || null}
+        onSelect={openConversation}
+        onNew={startNewConversation}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
+      />
+
       {/* Hidden Inputs */}
       <input 
         type="file" 
@@ -361,15 +624,33 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
                 </button>
             )}
 
+            {/* SAVED CONVERSATIONS BUTTON */}
+            <button 
+               onClick={() => setIsHistoryOpen(true)}
+               className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-all hover:scale-110 active:scale-95"
+               title="المحادثات السابقة"
+            >
+               <History size={22} className="md:w-6 md:h-6" />
+            </button>
+
             {/* NEW VIDEO LIBRARY BUTTON */}
             <button 
-               onClick={() => setIsLessonBrowserOpen(true)}
+               onClick={() => { setLessonBrowserMode('browse'); setIsLessonBrowserOpen(true); }}
                className="p-2 text-slate-600 hover:text-red-600 hover:bg-red-50 rounded-full transition-all hover:scale-110 active:scale-95"
                title="مكتبة الفيديوهات والدروس"
             >
                <List size={22} className="md:w-6 md:h-6" />
             </button>
 
+            {/* MOCK EXAM BUTTON */}
+            <button 
+               onClick={() => setIsExamOpen(true)}
+               className="p-2 text-slate-600 hover:text-emerald-600 hover:bg-emerald-50 rounded-full transition-all hover:scale-110 active:scale-95"
+               title="امتحان تجريبي"
+            >
+               <FileCheck2 size={22} className="md:w-6 md:h-6" />
+            </button>
+
             <button 
                onClick={handlePrint}
                className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-all hover:scale-110 active:scale-95"
@@ -386,7 +667,18 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
 
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto p-3 md:p-6 space-y-4 md:space-y-6 scrollbar-hide">
-        {messages.map((msg) => (
+        {/* Older messages are sent as a summary; shown so the student knows why details may be missed */}
+        {activeConversation?.summary && (
+          <details className="mx-auto max-w-xl text-xs md:text-sm text-slate-500 bg-slate-100 border border-slate-200 rounded-2xl px-4 py-2 no-print">
+            <summary className="flex items-center gap-2 cursor-pointer font-bold list-none">
+              <Archive size={14} />
+              لخّص المعلم أول {activeConversation.summary.messageCount} رسالة ليتابع معك بسرعة. اضغط لعرض الملخص.
+            </summary>
+            <p className="mt-2 whitespace-pre-wrap leading-relaxed">{activeConversation.summary.text}</p>
+          </details>
+        )}
+
+        {messages.map((msg, index) => (
           <div key={msg.id}>
              {/* Show Attachment in Chat if User Sent it */}
              {msg.sender === Sender.USER && msg.attachment && (
@@ -411,6 +703,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
                 subject={subject} 
                 onTermClick={handleTermClick}
                 onQuote={handleQuoteClick}
+                // The welcome message has nothing to learn from
+                onMakeCards={index > 0 ? (text) => handleMakeCards('chat', text) : undefined}
+                onCardFromTerm={(term) => handleMakeCards('term', term)}
+                onRegenerate={index > 0 && index === messages.length - 1 && !isLoading ? handleRegenerate : undefined}
+                onEdit={msg.sender === Sender.USER && !isLoading ? () => handleEditMessage(msg) : undefined}
              />
           </div>
         ))}
@@ -434,6 +731,27 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
         <div ref={messagesEndRef} />
       </div>
 
+      {editingMessageId && (
+        <div className="flex justify-center px-4 pb-2 no-print pop-in">
+          <span className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-800 text-xs md:text-sm font-bold px-4 py-2 rounded-full">
+            <Pencil size={14} />
+            تعديل السؤال: سيُحذف ما بعده من المحادثة عند الإرسال
+            <button onClick={cancelEdit} className="p-0.5 rounded-full hover:bg-amber-100" title="إلغاء التعديل">
+              <X size={14} />
+            </button>
+          </span>
+        </div>
+      )}
+
+      {cardNotice && (
+        <div className="flex justify-center px-4 pb-2 no-print pop-in">
+          <span className="flex items-center gap-2 bg-slate-900 text-white text-xs md:text-sm font-bold px-4 py-2 rounded-full shadow-lg">
+            <Layers size={14} />
+            {cardNotice}
+          </span>
+        </div>
+      )}
+
       {/* Suggestions (Shortcuts) - Hide when previewing */}
       {!isLoading && !attachment && messages.length < 3 && (
         <div className="px-3 md:px-4 py-2 flex gap-2 overflow-x-auto scrollbar-hide shrink-0 no-print pop-in pb-3">
@@ -569,18 +887,28 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
                 {isRecording ? <StopCircleIcon /> : <Mic size={24} />}
           </button>
 
-          {/* Send Button */}
-          <button
-            onClick={() => handleSend()}
-            disabled={(!inputValue.trim() && !attachment) || isLoading || isRecording}
-            className={`p-3 rounded-2xl flex items-center justify-center transition-all h-[56px] md:h-[64px] w-[56px] md:w-[64px] shrink-0 active:scale-90 ${
-              (inputValue.trim() || attachment) && !isLoading && !isRecording
-                ? 'bg-indigo-600 text-white shadow-md hover:bg-indigo-700 hover:scale-105'
-                : 'bg-slate-200 text-slate-400 cursor-not-allowed'
-            }`}
-          >
-            <Send size={24} />
-          </button>
+          {/* Send Button (Stop while an answer is streaming) */}
+          {isLoading ? (
+            <button
+              onClick={handleStop}
+              className="p-3 rounded-2xl flex items-center justify-center transition-all h-[56px] md:h-[64px] w-[56px] md:w-[64px] shrink-0 active:scale-90 bg-slate-800 text-white shadow-md hover:bg-slate-900"
+              title="إيقاف الإجابة"
+            >
+              <Square size={20} fill="currentColor" />
+            </button>
+          ) : (
+            <button
+              onClick={() => handleSend()}
+              disabled={(!inputValue.trim() && !attachment) || isLoading || isRecording}
+              className={`p-3 rounded-2xl flex items-center justify-center transition-all h-[56px] md:h-[64px] w-[56px] md:w-[64px] shrink-0 active:scale-90 ${
+                (inputValue.trim() || attachment) && !isLoading && !isRecording
+                  ? 'bg-indigo-600 text-white shadow-md hover:bg-indigo-700 hover:scale-105'
+                  : 'bg-slate-200 text-slate-400 cursor-not-allowed'
+              }`}
+            >
+              <Send size={24} />
+            </button>
+          )}
         </div>
         
         {isRecording && (
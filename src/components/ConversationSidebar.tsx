@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { X, History, MessageSquarePlus, Pencil, Trash2, Check } from 'lucide-react';
+import { Conversation } from '../types';
+
+interface ConversationSidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (conversation: Conversation) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({ isOpen, onClose, conversations, activeId, onSelect, onNew, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  if (!isOpen) return null;
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`هل تريد حذف المحادثة "${conversation.title}"؟`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex justify-end animate-in fade-in duration-200 no-print">
+      <div className="bg-slate-50 w-full max-w-sm h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+
+        {/* Header */}
+        <div className="bg-white p-4 border-b border-slate-200 shrink-0">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <History className="text-indigo-600" size={24} />
+              المحادثات السابقة
+            </h2>
+            <button onClick={onClose} className="p-2 bg-slate-100 hover:bg-slate-200 rounded-full transition-colors text-slate-600">
+              <X size={20} />
+            </button>
+          </div>
+
+          <button
+            onClick={onNew}
+            className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2.5 rounded-xl transition-all active:scale-95"
+          >
+            <MessageSquarePlus size={18} />
+            محادثة جديدة
+          </button>
+        </div>
+
+        {/* List */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {conversations.length > 0 ? (
+            conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={`group p-3 rounded-xl border transition-all flex items-center gap-2 ${
+                  conversation.id === activeId
+                  ? 'bg-indigo-50 border-indigo-300'
+                  : 'bg-white border-slate-200 hover:border-indigo-200'
+                }`}
+              >
+                {editingId === conversation.id ? (
+                  <>
+                    <input
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitEditing();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 border border-indigo-300 rounded-lg text-sm font-bold focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      autoFocus
+                    />
+                    <button onClick={commitEditing} className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded-lg" title="حفظ">
+                      <Check size={16} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => onSelect(conversation)} className="flex-1 min-w-0 text-right">
+                      <p className="font-bold text-slate-800 text-sm truncate">{conversation.title}</p>
+                      <p className="text-[11px] text-slate-400 mt-0.5">
+                        {conversation.updatedAt.toLocaleDateString('ar-EG', { day: 'numeric', month: 'short' })} - {conversation.messages.length} رسالة
+                      </p>
+                    </button>
+                    <button onClick={() => startEditing(conversation)} className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg" title="إعادة تسمية">
+                      <Pencil size={16} />
+                    </button>
+                    <button onClick={() => handleDelete(conversation)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg" title="حذف">
+                      <Trash2 size={16} />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full text-center p-8 opacity-70">
+              <History size={40} className="text-slate-400 mb-4" />
+              <p className="text-sm text-slate-500">لا توجد محادثات محفوظة لهذه المادة بعد.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,341 @@
+import React, { useState, useEffect } from 'react';
+import { BookOpen, Plus, Trash2, ArrowUp, ArrowDown, Upload, RotateCcw, AlertCircle, CheckCircle } from 'lucide-react';
+import { CurriculumDocument, CurriculumLesson, CurriculumTermKey, CurriculumUnit, GradeLevel, Subject } from '../types';
+import { AdminSession } from '../services/adminAuthService';
+import { CurriculumRelease, fetchLatestCurriculum, listCurriculumReleases, publishCurriculum } from '../services/curriculumService';
+import { validateCurriculumDocument } from '../utils/curriculumSchema';
+import { applyCurriculumDocument } from '../data/curriculum';
+import BUNDLED_CURRICULUM from '../data/curriculum.json';
+import { findSubjectRegistryIssues } from '../data/subjects';
+
+interface CurriculumEditorProps {
+  session: AdminSession | null;
+  canEdit: boolean;
+}
+
+const TERM_LABELS: Record<CurriculumTermKey, string> = { term1: 'الترم الأول', term2: 'الترم الثاني' };
+
+// Next free id under a parent, e.g. "...term1.u3" after u1 and u2 (ids stay stable when items move).
+// Students' progress is keyed by lesson id, so ids already published are never handed out again.
+const getNextId = (parentId: string, prefix: string, existingIds: string[]) => {
+  const idPrefix = `${parentId}.${prefix}`;
+  const numbers = existingIds.filter((id) => id.startsWith(idPrefix)).map((id) => Number(id.slice(idPrefix.length))).filter(Number.isFinite);
+  return `${idPrefix}${Math.max(0, ...numbers) + 1}`;
+};
+
+const collectIds = (document: CurriculumDocument): string[] =>
+  document.subjects.flatMap((entry) => Object.values(entry.terms).flatMap((term) =>
+    term.units.flatMap((unit) => [unit.id, ...unit.lessons.map((lesson) => lesson.id)])
+  ));
+
+const moveItem = <T,>(items: T[], index: number, offset: number): T[] => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const result = [...items];
+  [result[index], result[target]] = [result[target], result[index]];
+  return result;
+};
+
+const toLines = (value: string) => value.split('\n').map((line) => line.trim()).filter(Boolean);
+
+const inputClass = 'w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm outline-none focus:border-indigo-500 placeholder:text-slate-600';
+const iconButtonClass = 'p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent';
+
+export const CurriculumEditor: React.FC<CurriculumEditorProps> = ({ session, canEdit }) => {
+  const [draft, setDraft] = useState<CurriculumDocument | null>(null);
+  const [releases, setReleases] = useState<CurriculumRelease[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [grade, setGrade] = useState<GradeLevel>(GradeLevel.GRADE_12);
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [term, setTerm] = useState<CurriculumTermKey>('term1');
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+  const [isPublishing, setIsPublishing] = useState(false);
+  // Remounts the uncontrolled objective/keyword fields when the draft is reloaded
+  const [loadCount, setLoadCount] = useState(0);
+  // Ids in the bundled and the latest published curriculum, including items deleted from the draft since
+  const [publishedIds, setPublishedIds] = useState<string[]>([]);
+
+  const load = async () => {
+    setErrors([]);
+    setMessage('');
+    const latest = await fetchLatestCurriculum();
+    setDraft(latest);
+    setPublishedIds([...collectIds(BUNDLED_CURRICULUM as CurriculumDocument), ...collectIds(latest)]);
+    setReleases(await listCurriculumReleases(session));
+    setIsDirty(false);
+    setLoadCount((count) => count + 1);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const gradeSubjects = draft ? draft.subjects.filter((entry) => entry.grade === grade).map((entry) => entry.subject) : [];
+  const activeSubject = subject && gradeSubjects.includes(subject) ? subject : gradeSubjects[0];
+  const activeTerm = draft?.subjects.find((entry) => entry.grade === grade && entry.subject === activeSubject)?.terms[term];
+
+  const updateUnits = (update: (units: CurriculumUnit[]) => CurriculumUnit[]) => {
+    setDraft((current) => current && {
+      ...current,
+      subjects: current.subjects.map((entry) =>
+        entry.grade === grade && entry.subject === activeSubject
+          ? { ...entry, terms: { ...entry.terms, [term]: { ...entry.terms[term], units: update(entry.terms[term].units) } } }
+          : entry
+      ),
+    });
+    setIsDirty(true);
+    setMessage('');
+  };
+
+  const updateUnit = (unitId: string, update: (unit: CurriculumUnit) => CurriculumUnit) =>
+    updateUnits((units) => units.map((unit) => (unit.id === unitId ? update(unit) : unit)));
+
+  const updateLesson = (unitId: string, lessonId: string, changes: Partial<CurriculumLesson>) =>
+    updateUnit(unitId, (unit) => ({
+      ...unit,
+      lessons: unit.lessons.map((lesson) => (lesson.id === lessonId ? { ...lesson, ...changes } : lesson)),
+    }));
+
+  const addUnit = () => {
+    if (!activeTerm) return;
+    const id = getNextId(activeTerm.id, 'u', [...publishedIds, ...activeTerm.units.map((unit) => unit.id)]);
+    updateUnits((units) => [...units, { id, title: 'وحدة جديدة', lessons: [] }]);
+  };
+
+  const addLesson = (unit: CurriculumUnit) => {
+    const id = getNextId(unit.id, 'l', [...publishedIds, ...unit.lessons.map((lesson) => lesson.id)]);
+    updateUnit(unit.id, (current) => ({
+      ...current,
+      lessons: [...current.lessons, { id, title: 'درس جديد', objectives: [], keywords: [] }],
+    }));
+  };
+
+  const handlePublish = async () => {
+    if (!draft || !isDirty || isPublishing) return;
+    const validation = validateCurriculumDocument(draft);
+    const issues = validation.ok ? findSubjectRegistryIssues(validation.document) : validation.errors;
+    if (issues.length > 0) {
+      setErrors(issues);
+      return;
+    }
+
+    setIsPublishing(true);
+    setErrors([]);
+    const result = await publishCurriculum(session, draft, note.trim());
+    setIsPublishing(false);
+
+    if (!result.ok) {
+      if (result.reason === 'conflict') {
+        setErrors(['نشر مشرف آخر إصداراً أحدث أثناء التعديل. أعد التحميل ثم أعد تعديلاتك.']);
+      } else if (result.reason === 'invalid') {
+        setErrors(result.details?.length ? result.details : ['رفض الخادم المنهج.']);
+      } else {
+        setErrors(['تعذر الاتصال بالخادم.']);
+      }
+      return;
+    }
+
+    // The server stamps the version; apply it here too so this device shows the change right away
+    const published = { ...draft, version: result.version, publishedAt: new Date().toISOString() };
+    applyCurriculumDocument(published);
+    setDraft(published);
+    setPublishedIds((current) => [...current, ...collectIds(published)]);
+    setIsDirty(false);
+    setNote('');
+    setMessage(`تم نشر الإصدار ${result.version}. سيصل للطلاب عند فتح التطبيق.`);
+    setReleases(await listCurriculumReleases(session));
+  };
+
+  if (!draft) {
+    return (
+      <div className="bg-slate-800 rounded-2xl shadow-2xl border border-slate-700 p-6 text-slate-400 text-sm">
+        جاري تحميل المنهج...
+      </div>
+    );
+  }
+
+  const latestRelease = releases[releases.length - 1];
+
+  return (
+    <div className="bg-slate-800 rounded-2xl shadow-2xl border border-slate-700 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <BookOpen size={20} className="text-indigo-400" />
+          <span className="font-bold text-white">محرر المنهج</span>
+          <span className="text-xs text-slate-500">الإصدار {draft.version}{isDirty ? ' (معدّل)' : ''}</span>
+        </div>
+        <button onClick={load} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+          <RotateCcw size={14} />
+          إعادة التحميل
+        </button>
+      </div>
+
+      {latestRelease && (
+        <p className="text-[11px] text-slate-500">
+          آخر نشر: {new Date(latestRelease.publishedAt).toLocaleString('ar-EG')} بواسطة {latestRelease.publishedBy}
+          {latestRelease.note && ` - ${latestRelease.note}`}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <select value={grade} onChange={(e) => setGrade(e.target.value as GradeLevel)} className={inputClass}>
+          {Object.values(GradeLevel).map((value) => <option key={value} value={value}>{value}</option>)}
+        </select>
+        <select value={activeSubject || ''} onChange={(e) => setSubject(e.target.value as Subject)} className={inputClass}>
+          {gradeSubjects.map((value) => <option key={value} value={value}>{value}</option>)}
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        {(Object.keys(TERM_LABELS) as CurriculumTermKey[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setTerm(key)}
+            className={`flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${term === key ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+          >
+            {TERM_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      <div key={loadCount} className="space-y-3 max-h-[32rem] overflow-y-auto custom-scrollbar">
+        {activeTerm?.units.map((unit, unitIndex) => (
+          <div key={unit.id} className="bg-slate-900 border border-slate-700 rounded-xl p-3 space-y-2">
+            <div className="flex items-center gap-1">
+              <input
+                value={unit.title}
+                onChange={(e) => updateUnit(unit.id, (current) => ({ ...current, title: e.target.value }))}
+                disabled={!canEdit}
+                className={`${inputClass} font-bold`}
+              />
+              <button onClick={() => updateUnits((units) => moveItem(units, unitIndex, -1))} disabled={!canEdit || unitIndex === 0} className={iconButtonClass} title="لأعلى">
+                <ArrowUp size={16} />
+              </button>
+              <button onClick={() => updateUnits((units) => moveItem(units, unitIndex, 1))} disabled={!canEdit || unitIndex === activeTerm.units.length - 1} className={iconButtonClass} title="لأسفل">
+                <ArrowDown size={16} />
+              </button>
+              <button
+                onClick={() => window.confirm(`حذف "${unit.title}" بكل دروسها؟`) && updateUnits((units) => units.filter((item) => item.id !== unit.id))}
+                disabled={!canEdit}
+                className={`${iconButtonClass} hover:text-red-400`}
+                title="حذف الوحدة"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+
+            {unit.lessons.map((lesson, lessonIndex) => (
+              <div key={lesson.id} className="border-r-2 border-slate-700 pr-3 space-y-1">
+                <div className="flex items-center gap-1">
+                  <input
+                    value={lesson.title}
+                    onChange={(e) => updateLesson(unit.id, lesson.id, { title: e.target.value })}
+                    disabled={!canEdit}
+                    className={inputClass}
+                  />
+                  <button onClick={() => updateUnit(unit.id, (current) => ({ ...current, lessons: moveItem(current.lessons, lessonIndex, -1) }))} disabled={!canEdit || lessonIndex === 0} className={iconButtonClass} title="لأعلى">
+                    <ArrowUp size={14} />
+                  </button>
+                  <button onClick={() => updateUnit(unit.id, (current) => ({ ...current, lessons: moveItem(current.lessons, lessonIndex, 1) }))} disabled={!canEdit || lessonIndex === unit.lessons.length - 1} className={iconButtonClass} title="لأسفل">
+                    <ArrowDown size={14} />
+                  </button>
+                  <button
+                    onClick={() => updateUnit(unit.id, (current) => ({ ...current, lessons: current.lessons.filter((item) => item.id !== lesson.id) }))}
+                    disabled={!canEdit}
+                    className={`${iconButtonClass} hover:text-red-400`}
+                    title="حذف الدرس"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <details className="text-xs">
+                  <summary className="text-slate-500 cursor-pointer hover:text-slate-300">الأهداف والكلمات المفتاحية والفيديو</summary>
+                  <div className="grid gap-2 mt-2">
+                    <textarea
+                      defaultValue={lesson.objectives.join('\n')}
+                      onBlur={(e) => updateLesson(unit.id, lesson.id, { objectives: toLines(e.target.value) })}
+                      disabled={!canEdit}
+                      rows={2}
+                      placeholder="هدف في كل سطر"
+                      className={`${inputClass} resize-none`}
+                    />
+                    <input
+                      defaultValue={lesson.keywords.join('، ')}
+                      onBlur={(e) => updateLesson(unit.id, lesson.id, { keywords: e.target.value.split(/[،,]/).map((keyword) => keyword.trim()).filter(Boolean) })}
+                      disabled={!canEdit}
+                      placeholder="كلمات مفتاحية مفصولة بفاصلة"
+                      className={inputClass}
+                    />
+                    <input
+                      value={lesson.videoId || ''}
+                      onChange={(e) => updateLesson(unit.id, lesson.id, { videoId: e.target.value.trim() || undefined })}
+                      disabled={!canEdit}
+                      placeholder="معرف فيديو يوتيوب (اختياري)"
+                      className={`${inputClass} font-mono`}
+                      dir="ltr"
+                    />
+                  </div>
+                </details>
+              </div>
+            ))}
+
+            {canEdit && (
+              <button onClick={() => addLesson(unit)} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 pr-3">
+                <Plus size={14} />
+                إضافة درس
+              </button>
+            )}
+          </div>
+        ))}
+
+        {activeTerm?.units.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-4">لا توجد وحدات في هذا الترم بعد.</p>
+        )}
+      </div>
+
+      {canEdit && (
+        <>
+          <button onClick={addUnit} className="w-full border border-dashed border-slate-600 hover:border-indigo-500 text-slate-400 hover:text-white py-2 rounded-xl text-sm flex items-center justify-center gap-2">
+            <Plus size={16} />
+            إضافة وحدة
+          </button>
+
+          {errors.length > 0 && (
+            <div className="text-red-400 text-xs bg-red-500/10 p-3 rounded-lg border border-red-500/20 space-y-1">
+              {errors.map((error) => (
+                <p key={error} className="flex items-center gap-2" dir="auto">
+                  <AlertCircle size={12} className="shrink-0" />
+                  {error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {message && (
+            <div className="text-emerald-400 text-xs font-bold bg-emerald-500/10 p-2 rounded-lg border border-emerald-500/20 flex items-center gap-2">
+              <CheckCircle size={14} />
+              {message}
+            </div>
+          )}
+
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="ملاحظة عن التعديل (مثال: إضافة منهج الترم الثاني)"
+            className={inputClass}
+          />
+          <button
+            onClick={handlePublish}
+            disabled={!isDirty || isPublishing}
+            className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2"
+          >
+            <Upload size={18} />
+            {isPublishing ? 'جاري النشر...' : 'نشر إصدار جديد'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,479 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { X, FileCheck2, Timer, Printer, KeyRound, Loader2, AlertTriangle, Send, RotateCcw, CheckCircle2, XCircle } from 'lucide-react';
+import { GradeLevel, Subject, QuizQuestion, WrittenAnswerGrade } from '../types';
+import { getTermLessons } from '../data/curriculum';
+import { getExamBlueprint, getBlueprintTotal } from '../data/examBlueprints';
+import { generateExamQuestions, gradeWrittenAnswers } from '../services/geminiService';
+import { logEvent } from '../services/analyticsService';
+import { Exam, ExamAnswers, ExamSection, createExam, createExamSection, getExamQuestions, getQuestionScore, isObjectiveCorrect, scoreExam, formatCountdown } from '../utils/exam';
+
+interface ExamModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grade: GradeLevel;
+  subject: Subject;
+}
+
+type Phase = 'setup' | 'generating' | 'taking' | 'grading' | 'results';
+
+const OPTION_LETTERS = ['أ', 'ب', 'ج', 'د', 'هـ', 'و'];
+// The countdown turns red for the last minutes
+const WARNING_MS = 5 * 60 * 1000;
+
+const TERM_LABELS: Record<Exam['term'], string> = {
+  term1: 'الترم الأول',
+  term2: 'الترم الثاني',
+};
+
+// Paper version for printing: blank for the student, or with answers as the key
+const ExamPaper: React.FC<{ exam: Exam; withKey: boolean }> = ({ exam, withKey }) => {
+  const total = exam.sections.reduce((sum, section) => sum + section.questions.length * section.marksEach, 0);
+
+  return (
+    <div className="exam-paper bg-white p-6 text-black space-y-6">
+      <div className="text-center border-b-2 border-black pb-4">
+        <h1 className="text-2xl font-black">امتحان تجريبي - {exam.subject}</h1>
+        <p className="font-bold mt-1">{exam.grade} · {TERM_LABELS[exam.term]}</p>
+        <p className="text-sm mt-1">الزمن: {exam.durationMinutes} دقيقة · الدرجة الكلية: {total}</p>
+        {withKey && <p className="text-sm font-black mt-2">نموذج الإجابة</p>}
+      </div>
+
+      {exam.sections.map((section) => (
+        <div key={section.title} className="space-y-4">
+          <h2 className="text-lg font-black">{section.title} <span className="text-sm font-bold">({section.marksEach} درجة لكل سؤال)</span></h2>
+          {section.questions.map((question, index) => (
+            <div key={question.id} className="break-inside-avoid">
+              <p className="font-bold">{index + 1}. {question.question}</p>
+
+              {question.kind === 'mcq' && (
+                <div className="grid grid-cols-2 gap-x-6 gap-y-1 mt-2 pr-4 text-sm">
+                  {question.options.map((option, optionIndex) => (
+                    <span key={optionIndex} className={withKey && optionIndex === question.correctIndex ? 'font-black underline' : ''}>
+                      ({OPTION_LETTERS[optionIndex] || optionIndex + 1}) {option}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {question.kind === 'true_false' && (
+                <p className="mt-1 pr-4 text-sm">{withKey ? `الإجابة: ${question.answer ? '(✓) صح' : '(✗) خطأ'}` : '(   )'}</p>
+              )}
+
+              {question.kind === 'essay' && (withKey ? (
+                <div className="mt-2 pr-4 text-sm space-y-1">
+                  <p><span className="font-bold">الإجابة النموذجية: </span>{question.modelAnswer}</p>
+                  {question.rubric.length > 0 && (
+                    <ul className="list-disc pr-5">
+                      {question.rubric.map((point, pointIndex) => <li key={pointIndex}>{point}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ) : (
+                <div className="mt-2 space-y-5 pr-4">
+                  {[0, 1, 2, 3].map((line) => <div key={line} className="border-b border-dotted border-black" />)}
+                </div>
+              ))}
+
+              {withKey && question.kind !== 'essay' && question.explanation && (
+                <p className="mt-1 pr-4 text-xs">التفسير: {question.explanation}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const ExamModal: React.FC<ExamModalProps> = ({ isOpen, onClose, grade, subject }) => {
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [term, setTerm] = useState<Exam['term']>('term1');
+  const [exam, setExam] = useState<Exam | null>(null);
+  const [answers, setAnswers] = useState<ExamAnswers>({});
+  const [writtenGrades, setWrittenGrades] = useState<Record<string, WrittenAnswerGrade>>({});
+  const [isGradingFailed, setIsGradingFailed] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [error, setError] = useState('');
+  const [endsAt, setEndsAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [printMode, setPrintMode] = useState<'paper' | 'key' | null>(null);
+  // Guards against the timer and the submit button both submitting
+  const isSubmittingRef = useRef(false);
+  // Bumped when the modal closes or reopens, so an exam still being generated is dropped
+  const generationRef = useRef(0);
+
+  const blueprint = getExamBlueprint(grade, subject);
+  const lessons = getTermLessons(grade, subject, term).map((lesson) => lesson.title);
+
+  // Start fresh each time the exam screen is opened
+  useEffect(() => {
+    generationRef.current++;
+    if (!isOpen) return;
+    setPhase('setup');
+    setExam(null);
+    setAnswers({});
+    setWrittenGrades({});
+    setError('');
+  }, [isOpen, grade, subject]);
+
+  // Countdown (stopped while closed, so an abandoned exam is never handed in)
+  useEffect(() => {
+    if (!isOpen || phase !== 'taking') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen, phase]);
+
+  // Time's up: hand in whatever has been answered
+  useEffect(() => {
+    if (isOpen && phase === 'taking' && endsAt > 0 && now >= endsAt) submitExam();
+  }, [isOpen, phase, now, endsAt]);
+
+  // Print the paper or the key on its own, then return to the screen
+  useEffect(() => {
+    if (!printMode) return;
+    document.body.classList.add('print-exam');
+    window.print();
+    document.body.classList.remove('print-exam');
+    setPrintMode(null);
+  }, [printMode]);
+
+  const startExam = async () => {
+    if (lessons.length === 0) return;
+    const generation = ++generationRef.current;
+    setError('');
+    setPhase('generating');
+    setProgress({ done: 0, total: blueprint.sections.length });
+
+    const sections: ExamSection[] = [];
+    for (const [index, section] of blueprint.sections.entries()) {
+      const questions = await generateExamQuestions(grade, subject, lessons, section.kind, section.count);
+      if (generation !== generationRef.current) return;
+      if (!questions) {
+        setError('تعذر تجهيز الامتحان الآن. حاول مرة أخرى بعد قليل.');
+        setPhase('setup');
+        return;
+      }
+      sections.push(createExamSection(section, index, questions));
+      setProgress({ done: index + 1, total: blueprint.sections.length });
+    }
+
+    const startedAt = Date.now();
+    isSubmittingRef.current = false;
+    setExam(createExam(grade, subject, term, blueprint, sections));
+    setAnswers({});
+    setWrittenGrades({});
+    setNow(startedAt);
+    setEndsAt(startedAt + blueprint.durationMinutes * 60 * 1000);
+    setPhase('taking');
+  };
+
+  const gradeEssays = async (currentExam: Exam, currentAnswers: ExamAnswers) => {
+    const essays = currentExam.sections.flatMap((section) =>
+      section.questions.flatMap((question) => question.kind === 'essay'
+        ? [{ question, answer: String(currentAnswers[question.id] ?? ''), maxMarks: section.marksEach }]
+        : []
+      )
+    );
+
+    const grades = await gradeWrittenAnswers(grade, subject, essays);
+    setIsGradingFailed(!grades);
+    const byId: Record<string, WrittenAnswerGrade> = {};
+    essays.forEach((essay, index) => {
+      byId[essay.question.id] = grades?.[index] || { awarded: 0, feedback: 'تعذر التصحيح الآلي.' };
+    });
+    setWrittenGrades(byId);
+    return byId;
+  };
+
+  const submitExam = async () => {
+    if (!exam || isSubmittingRef.current) return;
+    isSubmittingRef.current = true;
+    setPhase('grading');
+    const grades = await gradeEssays(exam, answers);
+    const { score, total } = scoreExam(exam, answers, grades);
+    logEvent({ type: 'exam_completed', grade, subject, score, total });
+    setPhase('results');
+  };
+
+  const handleSubmitClick = () => {
+    const unanswered = getExamQuestions(exam!).filter((question) => answers[question.id] === undefined || answers[question.id] === '').length;
+    if (unanswered > 0 && !confirm(`لم تجب على ${unanswered} سؤال. هل تريد تسليم الامتحان؟`)) return;
+    submitExam();
+  };
+
+  const handleRegrade = async () => {
+    if (!exam) return;
+    setPhase('grading');
+    await gradeEssays(exam, answers);
+    setPhase('results');
+  };
+
+  const handleClose = () => {
+    if (phase === 'taking' && !confirm('سيتم إلغاء الامتحان الحالي. هل تريد الخروج؟')) return;
+    if (phase === 'taking') {
+      // Abandoned: not graded and not logged
+      setPhase('setup');
+      setExam(null);
+      setEndsAt(0);
+    }
+    onClose();
+  };
+
+  const setAnswer = (question: QuizQuestion, value: ExamAnswers[string]) => {
+    setAnswers((prev) => ({ ...prev, [question.id]: value }));
+  };
+
+  if (!isOpen) return null;
+
+  const remaining = endsAt - now;
+  const answeredCount = exam ? getExamQuestions(exam).filter((question) => answers[question.id] !== undefined && answers[question.id] !== '').length : 0;
+  const result = exam && phase === 'results' ? scoreExam(exam, answers, writtenGrades) : null;
+
+  return (
+    <div className="exam-screen fixed inset-0 z-[95] bg-slate-50 flex flex-col animate-in fade-in duration-200" dir="rtl">
+
+      {/* Header */}
+      <div className="bg-white px-4 py-3 border-b border-slate-200 flex items-center justify-between gap-3 shrink-0 no-print">
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <FileCheck2 className="text-indigo-600 shrink-0" size={22} />
+            امتحان تجريبي
+          </h2>
+          <p className="text-xs text-slate-500 truncate">{subject} - {grade}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {phase === 'taking' && (
+            <span className={`font-mono font-black text-lg px-3 py-1 rounded-full flex items-center gap-1.5 ${remaining <= WARNING_MS ? 'bg-red-50 text-red-600 animate-pulse' : 'bg-indigo-50 text-indigo-700'}`} dir="ltr">
+              <Timer size={18} />
+              {formatCountdown(remaining)}
+            </span>
+          )}
+          {exam && (phase === 'taking' || phase === 'results') && (
+            <button onClick={() => setPrintMode('paper')} className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full" title="طباعة ورقة الامتحان">
+              <Printer size={20} />
+            </button>
+          )}
+          {exam && phase === 'results' && (
+            <button onClick={() => setPrintMode('key')} className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full" title="طباعة نموذج الإجابة">
+              <KeyRound size={20} />
+            </button>
+          )}
+          <button onClick={handleClose} className="p-2 bg-slate-100 hover:bg-slate-200 rounded-full transition-colors text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="exam-body flex-1 overflow-y-auto">
+        {printMode && exam ? (
+          <ExamPaper exam={exam} withKey={printMode === 'key'} />
+        ) : (
+          <div className="max-w-3xl mx-auto p-4 space-y-4">
+
+            {/* Setup */}
+            {phase === 'setup' && (
+              <div className="bg-white rounded-2xl border border-slate-200 p-6 space-y-5 shadow-sm">
+                <div>
+                  <p className="text-sm font-bold text-slate-700 mb-2">المنهج:</p>
+                  <div className="flex bg-slate-100 p-1 rounded-xl">
+                    {(['term1', 'term2'] as const).map((value) => (
+                      <button
+                        key={value}
+                        onClick={() => setTerm(value)}
+                        className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${term === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                      >
+                        {TERM_LABELS[value]}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-2">{lessons.length > 0 ? `${lessons.length} درس` : 'لا توجد دروس لهذا الترم بعد.'}</p>
+                </div>
+
+                <div>
+                  <p className="text-sm font-bold text-slate-700 mb-2">شكل الامتحان ({getBlueprintTotal(blueprint)} درجة · {blueprint.durationMinutes} دقيقة):</p>
+                  <ul className="space-y-1.5">
+                    {blueprint.sections.map((section) => (
+                      <li key={section.title} className="flex items-center justify-between text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+                        <span className="font-bold text-slate-700">{section.title}</span>
+                        <span className="text-slate-500">{section.count} × {section.marksEach} = {section.count * section.marksEach}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {error && (
+                  <div className="text-red-600 text-xs font-bold text-center bg-red-50 p-2 rounded-lg border border-red-100 flex items-center justify-center gap-2">
+                    <AlertTriangle size={14} />
+                    {error}
+                  </div>
+                )}
+
+                <button
+                  onClick={startExam}
+                  disabled={lessons.length === 0}
+                  className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl shadow-lg transition-all disabled:bg-slate-300 disabled:shadow-none"
+                >
+                  ابدأ الامتحان
+                </button>
+                <p className="text-xs text-slate-500 text-center">يبدأ العد التنازلي فور ظهور الأسئلة، ويتم التسليم تلقائياً عند انتهاء الوقت.</p>
+              </div>
+            )}
+
+            {/* Generating / grading */}
+            {(phase === 'generating' || phase === 'grading') && (
+              <div className="flex flex-col items-center justify-center py-24 text-slate-500 gap-3">
+                <Loader2 size={36} className="animate-spin text-indigo-500" />
+                <p className="text-sm font-bold">
+                  {phase === 'generating' ? `جاري إعداد الامتحان (${progress.done}/${progress.total})...` : 'جاري تصحيح الإجابات المقالية...'}
+                </p>
+              </div>
+            )}
+
+            {/* Taking */}
+            {phase === 'taking' && exam && (
+              <>
+                {exam.sections.map((section) => (
+                  <div key={section.title} className="space-y-3">
+                    <h3 className="font-black text-slate-800 mt-2">{section.title} <span className="text-xs font-bold text-slate-500">({section.marksEach} درجة لكل سؤال)</span></h3>
+                    {section.questions.map((question, index) => (
+                      <div key={question.id} className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+                        <p className="font-bold text-slate-800 leading-relaxed mb-3">{index + 1}. {question.question}</p>
+
+                        {question.kind === 'mcq' && (
+                          <div className="grid sm:grid-cols-2 gap-2">
+                            {question.options.map((option, optionIndex) => (
+                              <button
+                                key={optionIndex}
+                                onClick={() => setAnswer(question, optionIndex)}
+                                className={`text-right p-3 rounded-xl border-2 text-sm font-bold transition-all ${
+                                  answers[question.id] === optionIndex ? 'border-indigo-500 bg-indigo-50 text-indigo-800' : 'border-slate-200 hover:border-indigo-200'
+                                }`}
+                              >
+                                ({OPTION_LETTERS[optionIndex] || optionIndex + 1}) {option}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        {question.kind === 'true_false' && (
+                          <div className="grid grid-cols-2 gap-2">
+                            {[true, false].map((value) => (
+                              <button
+                                key={String(value)}
+                                onClick={() => setAnswer(question, value)}
+                                className={`p-3 rounded-xl border-2 text-sm font-bold transition-all ${
+                                  answers[question.id] === value ? 'border-indigo-500 bg-indigo-50 text-indigo-800' : 'border-slate-200 hover:border-indigo-200'
+                                }`}
+                              >
+                                {value ? 'صح ✓' : 'خطأ ✗'}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        {question.kind === 'essay' && (
+                          <textarea
+                            value={String(answers[question.id] ?? '')}
+                            onChange={(e) => setAnswer(question, e.target.value)}
+                            rows={4}
+                            className="w-full p-3 border border-slate-300 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+                            placeholder="اكتب إجابتك هنا..."
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+
+                <div className="sticky bottom-0 bg-slate-50 py-3">
+                  <button onClick={handleSubmitClick} className="w-full bg-slate-900 hover:bg-slate-800 text-white font-bold py-3.5 rounded-xl shadow-lg flex items-center justify-center gap-2">
+                    <Send size={18} />
+                    تسليم الامتحان ({answeredCount}/{getExamQuestions(exam).length})
+                  </button>
+                </div>
+              </>
+            )}
+
+            {/* Results */}
+            {phase === 'results' && exam && result && (
+              <>
+                <div className="bg-white rounded-2xl border-2 border-indigo-200 p-6 text-center space-y-3 shadow-sm">
+                  <p className="text-sm font-bold text-slate-500">درجتك</p>
+                  <p className="text-4xl font-black text-slate-800">{result.score} <span className="text-xl text-slate-400">/ {result.total}</span></p>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {exam.sections.map((section, index) => (
+                      <span key={section.title} className="text-xs font-bold bg-slate-100 text-slate-600 px-3 py-1 rounded-full">
+                        {section.title}: {result.sections[index].score}/{result.sections[index].total}
+                      </span>
+                    ))}
+                  </div>
+                  {isGradingFailed && (
+                    <button onClick={handleRegrade} className="text-xs font-bold text-amber-700 bg-amber-50 border border-amber-200 px-3 py-1.5 rounded-lg inline-flex items-center gap-1">
+                      <RotateCcw size={12} />
+                      تعذر تصحيح المقالي. إعادة التصحيح
+                    </button>
+                  )}
+                </div>
+
+                {exam.sections.map((section) => (
+                  <div key={section.title} className="space-y-3">
+                    <h3 className="font-black text-slate-800 mt-2">{section.title}</h3>
+                    {section.questions.map((question, index) => {
+                      const awarded = getQuestionScore(section, question, answers, writtenGrades);
+                      const answer = answers[question.id];
+                      const isFullMarks = awarded >= section.marksEach;
+
+                      return (
+                        <div key={question.id} className={`bg-white rounded-2xl border-2 p-4 ${isFullMarks ? 'border-emerald-200' : awarded > 0 ? 'border-amber-200' : 'border-red-200'}`}>
+                          <div className="flex items-start justify-between gap-3 mb-2">
+                            <p className="font-bold text-slate-800 leading-relaxed">{index + 1}. {question.question}</p>
+                            <span className={`text-xs font-black px-2 py-1 rounded-full shrink-0 flex items-center gap-1 ${isFullMarks ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-600'}`}>
+                              {isFullMarks ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+                              {awarded}/{section.marksEach}
+                            </span>
+                          </div>
+
+                          {question.kind === 'mcq' && (
+                            <p className="text-sm text-slate-600">
+                              إجابتك: <span className="font-bold">{typeof answer === 'number' ? question.options[answer] : 'لم تجب'}</span>
+                              {!isObjectiveCorrect(question, answer) && <> · الصحيح: <span className="font-bold text-emerald-700">{question.options[question.correctIndex]}</span></>}
+                            </p>
+                          )}
+                          {question.kind === 'true_false' && (
+                            <p className="text-sm text-slate-600">
+                              إجابتك: <span className="font-bold">{typeof answer === 'boolean' ? (answer ? 'صح' : 'خطأ') : 'لم تجب'}</span>
+                              {!isObjectiveCorrect(question, answer) && <> · الصحيح: <span className="font-bold text-emerald-700">{question.answer ? 'صح' : 'خطأ'}</span></>}
+                            </p>
+                          )}
+                          {question.kind === 'essay' && (
+                            <div className="space-y-2 text-sm">
+                              <p className="text-slate-600 whitespace-pre-wrap">إجابتك: <span className="font-bold">{String(answer || '') || 'لم تجب'}</span></p>
+                              {writtenGrades[question.id]?.feedback && (
+                                <p className="text-amber-800 bg-amber-50 border border-amber-100 rounded-lg p-2">ملاحظة المصحح: {writtenGrades[question.id].feedback}</p>
+                              )}
+                              <p className="bg-indigo-50 border border-indigo-100 rounded-lg p-2 text-slate-700"><span className="font-bold text-indigo-700">الإجابة النموذجية: </span>{question.modelAnswer}</p>
+                            </div>
+                          )}
+
+                          {question.explanation && question.kind !== 'essay' && (
+                            <p className="mt-2 text-xs text-slate-500 leading-relaxed">التفسير: {question.explanation}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+
+                <button onClick={() => setPhase('setup')} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl flex items-center justify-center gap-2">
+                  <RotateCcw size={18} />
+                  امتحان جديد
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
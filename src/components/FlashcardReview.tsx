@@ -0,0 +1,141 @@
+
+import React, { useState, useEffect } from 'react';
+import { X, Layers, Trash2, PartyPopper, Loader2 } from 'lucide-react';
+import { Flashcard, GradeLevel, Subject } from '../types';
+import { getDueFlashcards, reviewFlashcard, deleteFlashcard } from '../services/flashcardService';
+import { ReviewRating, RATING_QUALITY, scheduleReview } from '../utils/sm2';
+
+interface FlashcardReviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grade: GradeLevel;
+  // Review one subject only; all subjects when omitted
+  subject?: Subject;
+}
+
+const RATINGS: { rating: ReviewRating; label: string; className: string }[] = [
+  { rating: 'again', label: 'نسيت', className: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100' },
+  { rating: 'hard', label: 'صعبة', className: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100' },
+  { rating: 'good', label: 'تذكرتها', className: 'bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-100' },
+  { rating: 'easy', label: 'سهلة', className: 'bg-indigo-50 text-indigo-700 border-indigo-200 hover:bg-indigo-100' },
+];
+
+const formatInterval = (days: number) => days <= 1 ? 'غداً' : `${days} يوم`;
+
+export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ isOpen, onClose, grade, subject }) => {
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setIsFlipped(false);
+    setReviewedCount(0);
+    getDueFlashcards(grade, subject).then((cards) => {
+      setQueue(cards);
+      setIsLoading(false);
+    });
+  }, [isOpen, grade, subject]);
+
+  if (!isOpen) return null;
+
+  const card = queue[0];
+
+  const handleRate = async (rating: ReviewRating) => {
+    if (!card) return;
+    const updated = await reviewFlashcard(card, rating);
+    setReviewedCount((n) => n + 1);
+    setIsFlipped(false);
+    // Forgotten cards come back at the end of this session as well as tomorrow
+    setQueue((prev) => rating === 'again' ? [...prev.slice(1), updated] : prev.slice(1));
+  };
+
+  const handleDelete = async () => {
+    if (!card || !confirm('حذف هذه البطاقة نهائياً؟')) return;
+    await deleteFlashcard(card.id);
+    setIsFlipped(false);
+    setQueue((prev) => prev.slice(1));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[95] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-3 md:p-4 animate-in fade-in duration-200" dir="rtl">
+      <div className="bg-slate-50 w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col">
+
+        {/* Header */}
+        <div className="bg-white p-4 border-b border-slate-200 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Layers className="text-indigo-600 shrink-0" size={22} />
+              مراجعة اليوم
+            </h2>
+            <p className="text-xs text-slate-500 truncate">{subject || 'كل المواد'} - {grade}</p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {queue.length > 0 && (
+              <span className="text-xs font-bold text-slate-500 bg-slate-100 px-3 py-1 rounded-full">متبقي {queue.length}</span>
+            )}
+            <button onClick={onClose} className="p-2 bg-slate-100 hover:bg-slate-200 rounded-full transition-colors text-slate-600">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 md:p-6">
+          {isLoading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 size={32} className="animate-spin text-indigo-500" />
+            </div>
+          ) : !card ? (
+            <div className="text-center py-12 space-y-3">
+              <PartyPopper size={40} className="mx-auto text-amber-500" />
+              <p className="text-lg font-black text-slate-800">
+                {reviewedCount > 0 ? `أحسنت! راجعت ${reviewedCount} بطاقة` : 'لا توجد بطاقات للمراجعة الآن'}
+              </p>
+              <p className="text-sm text-slate-500">
+                {reviewedCount > 0 ? 'ستظهر البطاقات مرة أخرى في موعد مراجعتها.' : 'أضف بطاقات من شرح المعلم الذكي أو من فهرس الدروس.'}
+              </p>
+              <button onClick={onClose} className="mt-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-sm font-bold">
+                تم
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <button
+                onClick={() => setIsFlipped((flipped) => !flipped)}
+                className="w-full min-h-[14rem] bg-white rounded-2xl border-2 border-slate-200 hover:border-indigo-300 shadow-sm p-6 flex flex-col items-center justify-center text-center transition-all"
+              >
+                <span className="text-[11px] font-bold text-slate-400 mb-3">
+                  {card.subject}{card.lesson ? ` · ${card.lesson}` : ''}
+                </span>
+                <p className="text-xl font-black text-slate-800 leading-relaxed">{card.front}</p>
+                {isFlipped ? (
+                  <p className="mt-4 pt-4 border-t border-slate-100 w-full text-base text-slate-700 leading-relaxed animate-in fade-in">{card.back}</p>
+                ) : (
+                  <span className="mt-6 text-xs text-indigo-500 font-bold">اضغط لإظهار الإجابة</span>
+                )}
+              </button>
+
+              {isFlipped && (
+                <div className="grid grid-cols-4 gap-2 animate-in fade-in">
+                  {RATINGS.map(({ rating, label, className }) => (
+                    <button key={rating} onClick={() => handleRate(rating)} className={`py-2.5 rounded-xl border-2 text-sm font-bold transition-colors ${className}`}>
+                      <span className="block">{label}</span>
+                      <span className="block text-[10px] font-medium opacity-70">{formatInterval(scheduleReview(card, RATING_QUALITY[rating]).interval)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <button onClick={handleDelete} className="w-full text-xs text-slate-400 hover:text-red-500 font-bold flex items-center justify-center gap-1 py-1">
+                <Trash2 size={12} />
+                حذف البطاقة
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { FlowDiagram, FlowNodeShape, FLOW_NODE_HEIGHT, FLOW_NODE_WIDTH, layoutFlowDiagram } from '../utils/answerBlocks';
+
+interface FlowDiagramBlockProps {
+  diagram: FlowDiagram;
+}
+
+const SHAPE_STYLES: Record<FlowNodeShape, string> = {
+  box: 'rounded-lg bg-indigo-50 border-indigo-300 text-indigo-900',
+  round: 'rounded-full bg-emerald-50 border-emerald-300 text-emerald-900',
+  circle: 'rounded-full bg-sky-50 border-sky-300 text-sky-900',
+  decision: 'rounded-lg bg-amber-50 border-amber-400 text-amber-900 border-dashed',
+};
+
+export const FlowDiagramBlock: React.FC<FlowDiagramBlockProps> = ({ diagram }) => {
+  const layout = useMemo(() => layoutFlowDiagram(diagram), [diagram]);
+
+  return (
+    <figure className="my-5 w-full overflow-x-auto bg-white border border-slate-200 rounded-xl p-3 pop-in print:border-black print:overflow-visible">
+      <svg width={layout.width} height={layout.height} viewBox={`0 0 ${layout.width} ${layout.height}`} className="mx-auto max-w-full h-auto block">
+        <defs>
+          <marker id="flow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+          </marker>
+        </defs>
+
+        {layout.edges.map((edge, index) => {
+          const [[x1, y1], [x2, y2]] = edge.points;
+          return (
+            <g key={index}>
+              <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#64748b" strokeWidth={1.5} strokeDasharray={edge.dashed ? '5 4' : undefined} markerEnd="url(#flow-arrow)" />
+              {edge.label && (
+                <foreignObject x={(x1 + x2) / 2 - 50} y={(y1 + y2) / 2 - 12} width={100} height={24}>
+                  <div className="h-full flex items-center justify-center">
+                    <span className="bg-white px-1 text-[11px] text-slate-600 font-bold truncate">{edge.label}</span>
+                  </div>
+                </foreignObject>
+              )}
+            </g>
+          );
+        })}
+
+        {layout.nodes.map((node) => (
+          <foreignObject key={node.id} x={node.x} y={node.y} width={FLOW_NODE_WIDTH} height={FLOW_NODE_HEIGHT}>
+            <div className={`h-full flex items-center justify-center text-center border-2 px-2 text-xs md:text-sm font-bold leading-tight overflow-hidden ${SHAPE_STYLES[node.shape]}`}>
+              {node.label}
+            </div>
+          </foreignObject>
+        ))}
+      </svg>
+    </figure>
+  );
+};
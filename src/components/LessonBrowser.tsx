@@ -1,36 +1,66 @@
 
-import React, { useState } from 'react';
-import { X, PlayCircle, BookOpen, Sparkles, Calendar, AlertCircle } from 'lucide-react';
-import { GradeLevel, Subject } from '../types';
+import React, { useState, useEffect } from 'react';
+import { X, PlayCircle, BookOpen, Sparkles, Calendar, AlertCircle, ClipboardCheck, Layers } from 'lucide-react';
+import { CurriculumLesson, GradeLevel, LessonAction, Subject } from '../types';
 import { getCurriculumFor } from '../data/curriculum';
 import { getVideoForLesson, VideoResult } from '../data/videoData';
+import { getLessonStatuses } from '../services/progressService';
+import { logEvent } from '../services/analyticsService';
+import { LessonStatus, MasteryLevel, MASTERY_LABELS, getAverageCompletion } from '../utils/progress';
 
 interface LessonBrowserProps {
   isOpen: boolean;
   onClose: () => void;
   grade: GradeLevel;
   subject: Subject;
-  onPlayVideo: (lesson: string, data: VideoResult) => void;
-  onExplain: (lesson: string) => void;
+  onPlayVideo: (lesson: CurriculumLesson, data: VideoResult) => void;
+  onExplain: (lesson: CurriculumLesson) => void;
+  onQuiz: (lesson: CurriculumLesson) => void;
+  onMakeCards: (lesson: CurriculumLesson) => void;
+  // 'quiz' when opened to pick a lesson to be tested on
+  mode?: 'browse' | 'quiz';
 }
 
-export const LessonBrowser: React.FC<LessonBrowserProps> = ({ isOpen, onClose, grade, subject, onPlayVideo, onExplain }) => {
+const MASTERY_STYLES: Record<MasteryLevel, string> = {
+  new: 'bg-slate-100 text-slate-500',
+  started: 'bg-sky-50 text-sky-700',
+  practiced: 'bg-amber-50 text-amber-700',
+  mastered: 'bg-emerald-50 text-emerald-700',
+};
+
+const ProgressBar: React.FC<{ value: number }> = ({ value }) => (
+  <div className="flex items-center gap-2">
+    <div className="flex-1 h-2 bg-slate-200 rounded-full overflow-hidden">
+      <div className="h-full bg-emerald-500 rounded-full transition-all duration-500" style={{ width: `${Math.round(value * 100)}%` }} />
+    </div>
+    <span className="text-xs font-bold text-slate-500 w-9 text-left">{Math.round(value * 100)}%</span>
+  </div>
+);
+
+export const LessonBrowser: React.FC<LessonBrowserProps> = ({ isOpen, onClose, grade, subject, onPlayVideo, onExplain, onQuiz, onMakeCards, mode = 'browse' }) => {
   const [activeTab, setActiveTab] = useState<'term1' | 'term2'>('term1');
+  const [statuses, setStatuses] = useState<Record<string, LessonStatus>>({});
+
+  // Reloaded on every open so a lesson just explained or a quiz just taken shows up
+  useEffect(() => {
+    if (isOpen) getLessonStatuses(grade, subject).then(setStatuses);
+  }, [isOpen, grade, subject]);
 
   if (!isOpen) return null;
 
-  // Safe data retrieval
-  const curriculum = getCurriculumFor(grade, subject);
-  const term1Lessons = curriculum.term1 || [];
-  const term2Lessons = curriculum.term2 || [];
+  const units = getCurriculumFor(grade, subject).terms[activeTab].units;
+  const currentLessons = units.flatMap((unit) => unit.lessons.map((lesson) => lesson.id));
+
+  const trackAction = (lesson: string, action: LessonAction) => {
+    logEvent({ type: 'lesson_action', grade, subject, lesson, action });
+  };
 
-  const handleVideoClick = (lesson: string) => {
+  const handleVideoClick = (lesson: CurriculumLesson) => {
+    trackAction(lesson.title, 'video');
     const videoData = getVideoForLesson(grade, subject, lesson);
     onPlayVideo(lesson, videoData);
   };
 
-  const currentLessons = activeTab === 'term1' ? term1Lessons : term2Lessons;
-
   return (
     <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex justify-end animate-in fade-in duration-200">
       <div className="bg-slate-50 w-full max-w-md h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
@@ -41,7 +71,7 @@ export const LessonBrowser: React.FC<LessonBrowserProps> = ({ isOpen, onClose, g
             <div>
               <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                 <BookOpen className="text-indigo-600" size={24} />
-                فهرس الدروس
+                {mode === 'quiz' ? 'اختر درساً للاختبار' : 'فهرس الدروس'}
               </h2>
               <p className="text-sm text-slate-500">{subject} - {grade}</p>
             </div>
@@ -75,41 +105,91 @@ export const LessonBrowser: React.FC<LessonBrowserProps> = ({ isOpen, onClose, g
                 الترم الثاني
              </button>
           </div>
+
+          {/* What is left in this term */}
+          {currentLessons.length > 0 && (
+            <div className="mt-3">
+              <ProgressBar value={getAverageCompletion(currentLessons, statuses)} />
+            </div>
+          )}
         </div>
 
         {/* List */}
         <div className="flex-1 overflow-y-auto p-4 space-y-3">
           {currentLessons.length > 0 ? (
-            currentLessons.map((lesson, idx) => (
-              <div key={idx} className="group bg-white p-3 md:p-4 rounded-xl border border-slate-200 shadow-sm hover:border-indigo-300 hover:shadow-md transition-all flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 animate-in slide-in-from-bottom-2 fade-in fill-mode-backwards" style={{animationDelay: `${idx * 50}ms`}}>
-                <div className="flex-1 w-full">
-                  <p className="font-bold text-slate-800 text-sm md:text-base leading-relaxed">
-                    {lesson}
-                  </p>
-                </div>
+            units.map((unit) => (
+              <section key={unit.id} className="space-y-3">
+                {/* Unit heading, unless the unit is a single lesson of the same name */}
+                {!(unit.lessons.length === 1 && unit.lessons[0].title === unit.title) && (
+                  <h3 className="text-sm font-black text-indigo-800 pt-2 first:pt-0">{unit.title}</h3>
+                )}
+                {unit.lessons.map((lesson, idx) => (
+                  <div key={lesson.id} className="group bg-white p-3 md:p-4 rounded-xl border border-slate-200 shadow-sm hover:border-indigo-300 hover:shadow-md transition-all flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 animate-in slide-in-from-bottom-2 fade-in fill-mode-backwards" style={{animationDelay: `${idx * 50}ms`}}>
+                    <div className="flex-1 w-full">
+                      <p className="font-bold text-slate-800 text-sm md:text-base leading-relaxed">
+                        {lesson.title}
+                      </p>
+                      {statuses[lesson.id] && (
+                        <div className="flex flex-wrap items-center gap-1.5 mt-1.5 text-[11px] font-bold">
+                          <span className={`px-2 py-0.5 rounded-full ${MASTERY_STYLES[statuses[lesson.id].mastery]}`}>
+                            {MASTERY_LABELS[statuses[lesson.id].mastery]}
+                          </span>
+                          {statuses[lesson.id].explained && <span className="text-indigo-600">✓ شرح</span>}
+                          {statuses[lesson.id].videoWatched && <span className="text-red-600">✓ فيديو</span>}
+                          {statuses[lesson.id].quiz && (
+                            <span className="text-emerald-700">اختبار {statuses[lesson.id].quiz!.score}/{statuses[lesson.id].quiz!.total}</span>
+                          )}
+                        </div>
+                      )}
+                    </div>
                 
-                <div className="flex items-center gap-2 shrink-0 w-full sm:w-auto mt-2 sm:mt-0">
-                  {/* Explain Button */}
-                  <button 
-                    onClick={() => onExplain(lesson)}
-                    className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 bg-indigo-50 text-indigo-600 hover:bg-indigo-600 hover:text-white px-3 py-2 rounded-lg transition-all active:scale-95 border border-indigo-100"
-                    title="شرح كتابي من المعلم الذكي"
-                  >
-                    <Sparkles size={16} />
-                    <span className="text-xs font-bold">شرح AI</span>
-                  </button>
-
-                  {/* Video Button */}
-                  <button 
-                    onClick={() => handleVideoClick(lesson)}
-                    className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 bg-red-50 text-red-600 hover:bg-red-600 hover:text-white px-3 py-2 rounded-lg transition-all active:scale-95 border border-red-100"
-                    title="شاهد شرح فيديو"
-                  >
-                    <PlayCircle size={16} />
-                    <span className="text-xs font-bold">فيديو</span>
-                  </button>
-                </div>
-              </div>
+                    <div className="flex items-center gap-2 shrink-0 w-full sm:w-auto mt-2 sm:mt-0">
+                      {/* Quiz Button */}
+                      <button 
+                        onClick={() => { trackAction(lesson.title, 'quiz'); onQuiz(lesson); }}
+                        className={`flex-1 sm:flex-none flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg transition-all active:scale-95 border ${
+                          mode === 'quiz'
+                          ? 'bg-emerald-600 text-white border-emerald-600 hover:bg-emerald-700'
+                          : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-600 hover:text-white border-emerald-100'
+                        }`}
+                        title="أسئلة تفاعلية على الدرس"
+                      >
+                        <ClipboardCheck size={16} />
+                        <span className="text-xs font-bold">اختبرني</span>
+                      </button>
+
+                      {/* Explain Button */}
+                      <button 
+                        onClick={() => { trackAction(lesson.title, 'explain'); onExplain(lesson); }}
+                        className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 bg-indigo-50 text-indigo-600 hover:bg-indigo-600 hover:text-white px-3 py-2 rounded-lg transition-all active:scale-95 border border-indigo-100"
+                        title="شرح كتابي من المعلم الذكي"
+                      >
+                        <Sparkles size={16} />
+                        <span className="text-xs font-bold">شرح AI</span>
+                      </button>
+
+                      {/* Video Button */}
+                      <button 
+                        onClick={() => handleVideoClick(lesson)}
+                        className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 bg-red-50 text-red-600 hover:bg-red-600 hover:text-white px-3 py-2 rounded-lg transition-all active:scale-95 border border-red-100"
+                        title="شاهد شرح فيديو"
+                      >
+                        <PlayCircle size={16} />
+                        <span className="text-xs font-bold">فيديو</span>
+                      </button>
+
+                      {/* Flashcards Button */}
+                      <button 
+                        onClick={() => { trackAction(lesson.title, 'cards'); onMakeCards(lesson); }}
+                        className="flex items-center justify-center bg-slate-50 text-slate-600 hover:bg-indigo-600 hover:text-white px-3 py-2 rounded-lg transition-all active:scale-95 border border-slate-200"
+                        title="بطاقات مراجعة للدرس"
+                      >
+                        <Layers size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </section>
             ))
           ) : (
             <div className="flex flex-col items-center justify-center h-full text-center p-8 opacity-70">
@@ -117,12 +197,10 @@ export const LessonBrowser: React.FC<LessonBrowserProps> = ({ isOpen, onClose, g
                   <Calendar size={40} className="text-slate-400" />
               </div>
               <h3 className="text-lg font-bold text-slate-700 mb-2">
-                  {activeTab === 'term2' ? 'لم يعلن عنه بعد' : 'لا توجد دروس'}
+                  لا توجد دروس بعد
               </h3>
               <p className="text-sm text-slate-500 max-w-xs leading-relaxed">
-                  {activeTab === 'term2' 
-                   ? 'سيتم إضافة منهج الترم الثاني فور إقراره رسمياً من وزارة التربية والتعليم.' 
-                   : 'لا توجد بيانات متاحة لهذا القسم حالياً.'}
+                  ستظهر الدروس هنا تلقائياً فور نشرها، دون الحاجة لتحديث التطبيق.
               </p>
               {activeTab === 'term2' && (
                   <div className="mt-4 flex items-center gap-2 text-xs text-amber-600 bg-amber-50 px-3 py-1.5 rounded-full border border-amber-100">
@@ -0,0 +1,169 @@
+import React, { useState, useRef } from 'react';
+import { BookUser, Search, Download, Upload, Ban, RotateCw, Copy, HardDrive, Server, RefreshCw } from 'lucide-react';
+import { LedgerEntry, LedgerBackendKind, searchLedger, isEntryExpired, getGradeLabel, ledgerToCsv, ledgerFromCsv } from '../services/ledgerService';
+import { getPlan } from '../data/plans';
+import { downloadFile } from '../utils/csv';
+
+interface LicenseLedgerProps {
+  entries: LedgerEntry[];
+  isLoading: boolean;
+  error: string;
+  backendKind: LedgerBackendKind;
+  canEdit: boolean;
+  onBackendKindChange: (kind: LedgerBackendKind) => void;
+  onReload: () => void;
+  onRevoke: (entry: LedgerEntry) => void;
+  onRenew: (entry: LedgerEntry) => void;
+  onImport: (entries: LedgerEntry[]) => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('ar-EG', { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const LicenseLedger: React.FC<LicenseLedgerProps> = ({
+  entries, isLoading, error, backendKind, canEdit,
+  onBackendKindChange, onReload, onRevoke, onRenew, onImport,
+}) => {
+  const [query, setQuery] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visibleEntries = searchLedger(entries, query);
+  const totalRevenue = entries.filter((e) => e.status === 'active').reduce((sum, e) => sum + e.price, 0);
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(ledgerToCsv(searchLedger(entries, '')), `license-ledger-${date}.csv`);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { entries: imported, errors } = ledgerFromCsv(await file.text());
+    if (errors.length > 0) {
+      alert(`تعذر استيراد بعض الصفوف:\n${errors.slice(0, 10).join('\n')}`);
+    }
+    if (imported.length > 0 && confirm(`استيراد ${imported.length} كود؟ الأكواد الموجودة بنفس المعرف سيتم استبدالها.`)) {
+      onImport(imported);
+    }
+  };
+
+  const handleRevoke = (entry: LedgerEntry) => {
+    if (confirm(`إلغاء كود ${entry.studentName || entry.deviceId}؟`)) onRevoke(entry);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-2xl shadow-2xl border border-slate-700 p-6 space-y-4">
+
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <BookUser size={20} className="text-indigo-400" />
+          <span className="font-bold text-white">سجل الأكواد</span>
+          <span className="text-xs text-slate-500">({entries.length} كود - {totalRevenue}ج)</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onReload} className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors" title="تحديث">
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={!canEdit} className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors flex items-center gap-1 text-xs disabled:opacity-40" title="استيراد CSV">
+            <Upload size={16} />
+            <span className="hidden sm:inline">استيراد</span>
+          </button>
+          <button onClick={handleExport} disabled={entries.length === 0} className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors flex items-center gap-1 text-xs disabled:opacity-40" title="تصدير CSV">
+            <Download size={16} />
+            <span className="hidden sm:inline">تصدير</span>
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportFile} />
+        </div>
+      </div>
+
+      {/* Storage */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-slate-400">مكان الحفظ:</span>
+        <button
+          onClick={() => onBackendKindChange('local')}
+          className={`px-3 py-1.5 rounded-lg flex items-center gap-1 font-bold transition-colors ${backendKind === 'local' ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+        >
+          <HardDrive size={14} />
+          هذا المتصفح
+        </button>
+        <button
+          onClick={() => onBackendKindChange('server')}
+          className={`px-3 py-1.5 rounded-lg flex items-center gap-1 font-bold transition-colors ${backendKind === 'server' ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+        >
+          <Server size={14} />
+          الخادم
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="ابحث بالاسم أو الهاتف أو رقم الجهاز..."
+          className="w-full bg-slate-900 border border-slate-600 rounded-lg pr-10 pl-4 py-2.5 text-white text-sm outline-none focus:border-indigo-500 placeholder:text-slate-600"
+        />
+        <Search className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500" size={16} />
+      </div>
+
+      {error && (
+        <div className="text-red-400 text-xs font-bold text-center bg-red-500/10 p-2 rounded-lg border border-red-500/20">
+          {error}
+        </div>
+      )}
+
+      {/* Entries */}
+      <div className="space-y-2 max-h-[28rem] overflow-y-auto">
+        {visibleEntries.length === 0 ? (
+          <p className="text-center text-slate-500 text-sm py-6">{query ? 'لا توجد نتائج' : 'لم يتم تسجيل أي كود بعد'}</p>
+        ) : visibleEntries.map((entry) => {
+          const expired = isEntryExpired(entry);
+          const statusLabel = entry.status === 'revoked' ? 'ملغي' : entry.status === 'transferred' ? 'منقول' : expired ? 'منتهي' : 'فعال';
+          const statusClass = entry.status === 'revoked' ? 'bg-red-500/10 text-red-400'
+            : entry.status === 'transferred' ? 'bg-amber-500/10 text-amber-400'
+            : expired ? 'bg-slate-700 text-slate-400' : 'bg-emerald-500/10 text-emerald-400';
+
+          return (
+            <div key={entry.id} className="bg-slate-900 border border-slate-700 rounded-xl p-3 text-xs">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-bold text-white text-sm truncate">{entry.studentName || 'بدون اسم'}</p>
+                  <p className="text-slate-400 mt-0.5" dir="ltr">{entry.phone} · {entry.deviceId}</p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full font-bold shrink-0 ${statusClass}`}>{statusLabel}</span>
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-slate-400">
+                <span>{getGradeLabel(entry.grade)}</span>
+                <span>{getPlan(entry.plan).label} ({entry.days} يوم)</span>
+                <span>{entry.price}ج</span>
+                <span>من {formatDate(entry.issuedAt)} حتى {formatDate(entry.expiresAt)}</span>
+                {entry.renewedFrom && <span className="text-indigo-400">تجديد</span>}
+              </div>
+              <div className="flex items-center gap-2 mt-3">
+                <button onClick={() => navigator.clipboard.writeText(entry.code)} className="px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg flex items-center gap-1">
+                  <Copy size={12} />
+                  نسخ الكود
+                </button>
+                {entry.status === 'active' && canEdit && (
+                  <>
+                    <button onClick={() => onRenew(entry)} className="px-2 py-1 bg-slate-800 hover:bg-emerald-700 text-slate-300 hover:text-white rounded-lg flex items-center gap-1">
+                      <RotateCw size={12} />
+                      تجديد
+                    </button>
+                    <button onClick={() => handleRevoke(entry)} className="px-2 py-1 bg-slate-800 hover:bg-red-700 text-slate-300 hover:text-white rounded-lg flex items-center gap-1">
+                      <Ban size={12} />
+                      إلغاء
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,8 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { X, Mic, MicOff, PhoneOff, Loader2, Activity } from 'lucide-react';
-import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
 import { GradeLevel, Subject } from '../types';
-import { getApiKey, rotateApiKey } from '../utils/apiKeyManager'; // Import key manager and rotation logic
+import { wsUrl } from '../utils/api';
 
 interface LiveVoiceModalProps {
   isOpen: boolean;
@@ -16,13 +15,12 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
   const [status, setStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
   const [isMuted, setIsMuted] = useState(false);
   const [volumeLevel, setVolumeLevel] = useState(0);
-  const [retryCount, setRetryCount] = useState(0); // Track retries
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const processorRef = useRef<ScriptProcessorNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const sessionRef = useRef<any>(null);
+  const socketRef = useRef<WebSocket | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const mountedRef = useRef(true);
 
@@ -60,14 +58,10 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
     return float32;
   };
 
-  const connect = useCallback(async (currentRetry = 0) => {
+  const connect = useCallback(async () => {
     try {
       setStatus('connecting');
-      const apiKey = getApiKey(); 
-      if (!apiKey) throw new Error("No API Key found");
 
-      const ai = new GoogleGenAI({ apiKey });
-      
       // 1. Setup Audio Context
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
       const ctx = new AudioContextClass({ sampleRate: 24000 }); // Output rate
@@ -82,7 +76,7 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
       });
       mediaStreamRef.current = stream;
 
-      // 3. Connect to Gemini Live
+      // 3. Connect to Gemini Live through the backend relay (keys stay on the server)
       const systemInstruction = `
         أنت مدرس خصوصي ودود وذكي باللهجة المصرية. اسمك "المعلم الذكي".
         تتحدث مع طالب في ${grade} يدرس مادة ${subject}.
@@ -95,20 +89,21 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
         5. ابدأ المحادثة بالترحيب وسؤاله "جاهز نذاكر سوا يا بطل؟"
       `;
 
-      const session = await ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-          },
-          systemInstruction: systemInstruction,
-        },
-        callbacks: {
-          onopen: () => {
-            if (!mountedRef.current) return;
+      const socket = new WebSocket(wsUrl('/api/live'));
+      socketRef.current = socket;
+      let isOpen = false;
+
+      socket.onopen = () => {
+        socket.send(JSON.stringify({ type: 'setup', systemInstruction }));
+      };
+
+      socket.onmessage = (event) => {
+        if (!mountedRef.current) return;
+        const msg = JSON.parse(event.data);
+
+        if (msg.type === 'open') {
+            isOpen = true;
             setStatus('connected');
-            setRetryCount(0); // Reset retry count on success
             
             // Start Audio Processing Pipeline
             const inputCtx = new AudioContextClass({ sampleRate: 16000 });
@@ -126,14 +121,9 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
               const rms = Math.sqrt(sum / inputData.length);
               setVolumeLevel(Math.min(rms * 5, 1));
 
-              const base64Data = encodeAudio(inputData);
-              
-              session.sendRealtimeInput({
-                media: {
-                  mimeType: 'audio/pcm;rate=16000',
-                  data: base64Data
-                }
-              });
+              if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: 'audio', data: encodeAudio(inputData) }));
+              }
             };
 
             source.connect(processor);
@@ -141,112 +131,89 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
             
             sourceRef.current = source;
             processorRef.current = processor;
-          },
-          onmessage: (msg: LiveServerMessage) => {
-             if (!mountedRef.current) return;
-             
-             // Handle Audio Output
-             const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-             if (audioData && ctx) {
-                const float32Data = decodeAudioData(audioData);
-                
-                // Create Buffer
-                const buffer = ctx.createBuffer(1, float32Data.length, 24000);
-                buffer.getChannelData(0).set(float32Data);
-                
-                // Play Buffer
-                const source = ctx.createBufferSource();
-                source.buffer = buffer;
-                source.connect(ctx.destination);
-                
-                // Schedule
-                const currentTime = ctx.currentTime;
-                const start = Math.max(currentTime, nextStartTimeRef.current);
-                source.start(start);
-                nextStartTimeRef.current = start + buffer.duration;
-                
-                // Visualizer for Bot (Simulated randomly when receiving data)
-                setVolumeLevel(Math.random() * 0.5 + 0.3);
-             }
-             
-             // Reset visualizer shortly after
-             setTimeout(() => setVolumeLevel(0), 200);
-
-             if (msg.serverContent?.turnComplete) {
-                 // Turn complete logic if needed
-             }
-          },
-          onclose: () => {
-            console.log("Connection closed");
-            if (mountedRef.current) onClose();
-          },
-          onerror: (err) => {
-            console.error("Live API Error", err);
-            // Automatic Failover Logic for Live Mode
-            if (mountedRef.current) {
-                if (currentRetry < 3) {
-                     console.log(`Connection failed, rotating key and retrying (Attempt ${currentRetry + 1})...`);
-                     if (rotateApiKey()) {
-                         // Must close existing streams before retrying
-                         if (mediaStreamRef.current) {
-                             mediaStreamRef.current.getTracks().forEach(track => track.stop());
-                         }
-                         if (audioContextRef.current) {
-                             audioContextRef.current.close();
-                         }
-                         // Retry connection
-                         connect(currentRetry + 1);
-                     } else {
-                         setStatus('error');
-                     }
-                } else {
-                    setStatus('error');
-                }
-            }
-          }
+            return;
         }
-      });
-      
-      sessionRef.current = session;
+
+        // Handle Audio Output
+        if (msg.type === 'audio' && msg.data && ctx) {
+            const float32Data = decodeAudioData(msg.data);
+            
+            // Create Buffer
+            const buffer = ctx.createBuffer(1, float32Data.length, 24000);
+            buffer.getChannelData(0).set(float32Data);
+            
+            // Play Buffer
+            const source = ctx.createBufferSource();
+            source.buffer = buffer;
+            source.connect(ctx.destination);
+            
+            // Schedule
+            const currentTime = ctx.currentTime;
+            const start = Math.max(currentTime, nextStartTimeRef.current);
+            source.start(start);
+            nextStartTimeRef.current = start + buffer.duration;
+            
+            // Visualizer for Bot (Simulated randomly when receiving data)
+            setVolumeLevel(Math.random() * 0.5 + 0.3);
+
+            // Reset visualizer shortly after
+            setTimeout(() => setVolumeLevel(0), 200);
+            return;
+        }
+
+        if (msg.type === 'error') {
+            console.error("Live API Error", msg.message);
+            setStatus('error');
+        }
+      };
+
+      socket.onerror = (err) => {
+        console.error("Live relay error", err);
+        if (mountedRef.current) setStatus('error');
+      };
+
+      socket.onclose = () => {
+        console.log("Connection closed");
+        // Only auto-close the modal if the call was actually established
+        if (mountedRef.current && isOpen) onClose();
+      };
 
     } catch (e) {
       console.error(e);
-      // Failover for initial connection failure
-      if (currentRetry < 3) {
-          if (rotateApiKey()) {
-              connect(currentRetry + 1);
-              return;
-          }
-      }
       setStatus('error');
     }
   }, [grade, subject, isMuted, onClose]);
 
+  const disconnect = () => {
+      if (socketRef.current) {
+        socketRef.current.onclose = null;
+        socketRef.current.close();
+        socketRef.current = null;
+      }
+      if (mediaStreamRef.current) {
+        mediaStreamRef.current.getTracks().forEach(track => track.stop());
+      }
+      if (processorRef.current) processorRef.current.disconnect();
+      if (sourceRef.current) sourceRef.current.disconnect();
+      if (audioContextRef.current && audioContextRef.current.state !== 'closed') audioContextRef.current.close();
+  };
+
   useEffect(() => {
     mountedRef.current = true;
     if (isOpen) {
-      connect(0);
+      connect();
     }
     
     return () => {
       mountedRef.current = false;
-      // Cleanup
-      if (sessionRef.current) {
-         // sessionRef.current.close(); // LiveClient doesn't have explicit close, just drop connection
-      }
-      if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      }
-      if (processorRef.current) processorRef.current.disconnect();
-      if (sourceRef.current) sourceRef.current.disconnect();
-      if (audioContextRef.current) audioContextRef.current.close();
+      disconnect();
     };
   }, [isOpen, connect]);
 
   const handleRetry = () => {
-      // Manual retry button triggers rotation too
-      rotateApiKey();
-      connect(0);
+      // The server rotates keys on its side, we just reconnect cleanly
+      disconnect();
+      connect();
   };
 
   if (!isOpen) return null;
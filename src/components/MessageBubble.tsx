@@ -1,20 +1,81 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Message, Sender, Subject } from '../types';
-import ReactMarkdown from 'react-markdown';
+import React, { ComponentProps, useState, useEffect, useRef } from 'react';
+import { ChatErrorKind, Message, Sender, Subject } from '../types';
+import ReactMarkdown, { ExtraProps } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Bot, User, Copy, Search, Check, HelpCircle, Volume2, StopCircle, Loader2 } from 'lucide-react';
-import { streamSpeech } from '../services/geminiService';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+// Registers \ce{...} and \pu{...} for chemical equations
+import 'katex/contrib/mhchem';
+import { Bot, User, Copy, Search, Check, HelpCircle, Volume2, StopCircle, Loader2, Layers, Plus, RotateCcw, Pencil, Hourglass, KeyRound, WifiOff, ShieldAlert, FileWarning, Clock, AlertTriangle, RefreshCw, LucideIcon } from 'lucide-react';
+import { streamSpeech, isRetryableError } from '../services/geminiService';
+import { parseChartSpec, parseFlowDiagram } from '../utils/answerBlocks';
+import { ChartBlock } from './ChartBlock';
+import { FlowDiagramBlock } from './FlowDiagramBlock';
 
 interface MessageBubbleProps {
   message: Message;
   subject?: Subject;
   onTermClick?: (term: string) => void;
   onQuote?: (text: string) => void;
+  // Flashcards: from the whole answer, or from one highlighted term
+  onMakeCards?: (text: string) => void;
+  onCardFromTerm?: (term: string) => void;
+  // Last answer only: ask the same question again (also the retry button of a failed answer)
+  onRegenerate?: () => void;
+  // User messages: edit and resend, dropping what came after
+  onEdit?: () => void;
 }
 
-export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject, onTermClick, onQuote }) => {
+const ERROR_DETAILS: Record<ChatErrorKind, { icon: LucideIcon; title: string; hint: string; tone: string }> = {
+  quota: {
+    icon: Hourglass,
+    title: 'المعلم الذكي مشغول الآن',
+    hint: 'وصلنا مؤقتاً للحد المسموح من الأسئلة. انتظر دقيقة ثم أعد المحاولة.',
+    tone: 'bg-amber-50 border-amber-200 text-amber-800',
+  },
+  auth: {
+    icon: KeyRound,
+    title: 'تعذر الوصول إلى المعلم الذكي',
+    hint: 'هناك مشكلة في إعدادات الخدمة. أعد المحاولة لاحقاً، وإن تكررت تواصل مع الدعم.',
+    tone: 'bg-red-50 border-red-200 text-red-800',
+  },
+  network: {
+    icon: WifiOff,
+    title: 'انقطع الاتصال',
+    hint: 'تأكد من اتصالك بالإنترنت ثم أعد المحاولة.',
+    tone: 'bg-slate-50 border-slate-300 text-slate-700',
+  },
+  safety: {
+    icon: ShieldAlert,
+    title: 'لا يمكن الإجابة عن هذا الطلب',
+    hint: 'رفضه نظام الحماية. اضغط "تعديل" على سؤالك وأعد صياغته.',
+    tone: 'bg-rose-50 border-rose-200 text-rose-800',
+  },
+  invalid_attachment: {
+    icon: FileWarning,
+    title: 'تعذرت قراءة المرفق',
+    hint: 'قد يكون تالفاً أو كبيراً أو بصيغة غير مدعومة. اضغط "تعديل" على سؤالك وأرفق ملفاً آخر.',
+    tone: 'bg-orange-50 border-orange-200 text-orange-800',
+  },
+  timeout: {
+    icon: Clock,
+    title: 'تأخر الرد كثيراً',
+    hint: 'لم تصل الإجابة في الوقت المحدد. أعد المحاولة، أو أوقف وضع التفكير العميق لإجابة أسرع.',
+    tone: 'bg-amber-50 border-amber-200 text-amber-800',
+  },
+  unknown: {
+    icon: AlertTriangle,
+    title: 'حدث خطأ غير متوقع',
+    hint: 'لم تكتمل الإجابة. أعد المحاولة بعد قليل.',
+    tone: 'bg-red-50 border-red-200 text-red-800',
+  },
+};
+
+export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject, onTermClick, onQuote, onMakeCards, onCardFromTerm, onRegenerate, onEdit }) => {
   const isUser = message.sender === Sender.USER;
+  const errorDetails = message.error ? ERROR_DETAILS[message.error] : null;
+  const ErrorIcon = errorDetails?.icon;
   const [isCopied, setIsCopied] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
@@ -85,6 +146,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
         // Clean text: Remove markdown, URLs, etc.
         const cleanText = message.text
             .replace(/```[\s\S]*?```/g, '') // Remove code blocks
+            .replace(/\$\$[\s\S]*?\$\$|\$[^$\n]+\$/g, ' ') // Remove formulas
             .replace(/[*#`_\-]/g, ' ')
             .replace(/https?:\/\/\S+/g, 'رابط')
             .trim()
@@ -226,10 +288,12 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
           <div className={`px-4 py-3 md:px-7 md:py-5 rounded-3xl shadow-sm markdown-body text-base md:text-xl leading-loose relative w-full overflow-hidden transition-all duration-300
             ${isUser 
               ? 'bg-indigo-600 text-white rounded-tl-none font-medium user-message-bubble' 
-              : 'bg-white border border-slate-200 text-slate-900 rounded-tr-none font-medium'
+              : errorDetails && !message.text
+                ? `${errorDetails.tone} border rounded-tr-none font-medium`
+                : 'bg-white border border-slate-200 text-slate-900 rounded-tr-none font-medium'
             }`}>
             
-            {!isUser && (
+            {!isUser && !errorDetails && (
               <div className="flex gap-2 mb-3 pb-2 border-b border-slate-100 no-print w-full justify-end items-center">
                 
                 {/* AI TTS Button */}
@@ -268,6 +332,28 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
                   {isCopied ? <Check size={14} /> : <Copy size={14} />}
                   {isCopied ? 'تم النسخ' : 'نسخ'}
                 </button>
+
+                {onMakeCards && !message.isStreaming && (
+                  <button 
+                    onClick={() => onMakeCards(message.text)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs md:text-sm font-bold border border-slate-200 bg-slate-50 text-slate-600 hover:bg-indigo-50 hover:text-indigo-600 transition-all active:scale-95"
+                    title="حوّل الشرح إلى بطاقات مراجعة"
+                  >
+                    <Layers size={14} />
+                    بطاقات
+                  </button>
+                )}
+
+                {onRegenerate && !message.isStreaming && (
+                  <button
+                    onClick={onRegenerate}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs md:text-sm font-bold border border-slate-200 bg-slate-50 text-slate-600 hover:bg-indigo-50 hover:text-indigo-600 transition-all active:scale-95"
+                    title="اكتب الإجابة من جديد"
+                  >
+                    <RotateCcw size={14} />
+                    إجابة أخرى
+                  </button>
+                )}
               </div>
             )}
 
@@ -275,7 +361,9 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
               <p className="whitespace-pre-wrap leading-loose break-words">{message.text}</p>
             ) : (
               <ReactMarkdown 
-                remarkPlugins={[remarkGfm]}
+                remarkPlugins={[remarkGfm, remarkMath]}
+                // Formulas that fail to parse (e.g. cut off mid-stream) show as red source instead of throwing
+                rehypePlugins={[[rehypeKatex, { throwOnError: false, strict: false }]]}
                 components={{
                   table: ({node, ...props}) => <div className="overflow-x-auto my-4 w-full border rounded-xl print:overflow-visible print:block"><table className="min-w-full divide-y divide-slate-200 border text-sm md:text-lg print:border-black print:text-sm print:w-full" {...props} /></div>,
                   th: ({node, ...props}) => <th className="px-3 py-3 bg-slate-50 text-right font-bold text-slate-800 uppercase border print:bg-gray-100 print:text-black print:border-black whitespace-nowrap" {...props} />,
@@ -327,20 +415,51 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
 
                   blockquote: ({node, ...props}) => <blockquote className="border-r-4 border-indigo-300 pr-4 italic text-slate-700 bg-indigo-50/50 p-3 rounded-lg my-3 text-base md:text-xl print:bg-white print:text-black print:border-black print:pl-0" {...props} />,
                   
+                  // Code blocks draw their own frame
+                  pre: ({node, children}) => <>{children}</>,
+
                   // --- CODE RENDERING (Reverted to standard style) ---
-                  code: ({node, inline, className, children, ...props}: any) => {
-                     if (inline) {
+                  code: ({node, className, children, ...props}: ComponentProps<'code'> & ExtraProps) => {
+                     // Chart and flow diagram blocks; invalid or still streaming ones fall through to plain code
+                     const language = /language-(\w+)/.exec(className || '')?.[1];
+                     if (language === 'chart') {
+                       const spec = parseChartSpec(String(children));
+                       if (spec) return <ChartBlock spec={spec} />;
+                     }
+                     if (language === 'flow' || language === 'mermaid') {
+                       const diagram = parseFlowDiagram(String(children));
+                       if (diagram) return <FlowDiagramBlock diagram={diagram} />;
+                     }
+
+                     // react-markdown no longer says which code is inline: fenced blocks carry a
+                     // language class or end in a newline, `inline terms` have neither
+                     const isInline = !className && !String(children).includes('\n');
+                     if (isInline) {
                        return (
-                         <button 
-                           onClick={(e) => {
-                               e.stopPropagation();
-                               onTermClick && onTermClick(String(children));
-                           }}
-                           className="inline-flex items-center mx-1 px-2.5 py-0.5 rounded-full bg-indigo-50 text-indigo-700 border border-indigo-100 hover:bg-indigo-100 hover:border-indigo-300 transition-colors cursor-pointer print:bg-transparent print:border-black print:text-black no-print-button-style text-sm md:text-base align-middle active:scale-95 leading-none"
-                         >
-                           <Search size={12} className="ml-1 opacity-50 no-print" />
-                           <span className="font-bold">{children}</span>
-                         </button>
+                         <span className="inline-flex items-center mx-1 align-middle">
+                           <button 
+                             onClick={(e) => {
+                                 e.stopPropagation();
+                                 onTermClick && onTermClick(String(children));
+                             }}
+                             className="inline-flex items-center px-2.5 py-0.5 rounded-full bg-indigo-50 text-indigo-700 border border-indigo-100 hover:bg-indigo-100 hover:border-indigo-300 transition-colors cursor-pointer print:bg-transparent print:border-black print:text-black no-print-button-style text-sm md:text-base active:scale-95 leading-none"
+                           >
+                             <Search size={12} className="ml-1 opacity-50 no-print" />
+                             <span className="font-bold">{children}</span>
+                           </button>
+                           {onCardFromTerm && (
+                             <button
+                               onClick={(e) => {
+                                   e.stopPropagation();
+                                   onCardFromTerm(String(children));
+                               }}
+                               className="mr-0.5 p-0.5 rounded-full text-indigo-400 hover:text-indigo-700 hover:bg-indigo-100 transition-colors no-print"
+                               title="أضف كبطاقة مراجعة"
+                             >
+                               <Plus size={12} />
+                             </button>
+                           )}
+                         </span>
                        );
                      }
                      
@@ -365,9 +484,35 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
                 {message.text}
               </ReactMarkdown>
             )}
+
+            {errorDetails && ErrorIcon && (
+              <div className={`flex flex-col gap-2 text-sm md:text-base leading-relaxed no-print ${message.text ? `mt-4 p-3 md:p-4 rounded-2xl border ${errorDetails.tone}` : ''}`}>
+                <span className="flex items-center gap-2 font-bold">
+                  <ErrorIcon size={18} className="flex-shrink-0" />
+                  {errorDetails.title}
+                </span>
+                <span className="opacity-80">{errorDetails.hint}</span>
+                {onRegenerate && message.error && isRetryableError(message.error) && (
+                  <button
+                    onClick={onRegenerate}
+                    className="self-start flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs md:text-sm font-bold border border-slate-200 bg-white text-slate-700 hover:bg-indigo-50 hover:text-indigo-600 transition-all active:scale-95"
+                  >
+                    <RefreshCw size={14} />
+                    أعد المحاولة
+                  </button>
+                )}
+              </div>
+            )}
           </div>
-          <span className="text-[11px] text-slate-400 mt-1.5 px-2 no-print font-medium">
+          <span className="flex items-center gap-2 text-[11px] text-slate-400 mt-1.5 px-2 no-print font-medium">
             {message.timestamp.toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit' })}
+            {message.isStopped && <span className="text-amber-600 font-bold">تم إيقاف الإجابة</span>}
+            {onEdit && (
+              <button onClick={onEdit} className="flex items-center gap-1 hover:text-indigo-600 transition-colors" title="عدّل السؤال وأعد إرساله">
+                <Pencil size={11} />
+                تعديل
+              </button>
+            )}
           </span>
         </div>
       </div>
@@ -0,0 +1,263 @@
+
+import React, { useState, useEffect } from 'react';
+import { X, ClipboardCheck, CheckCircle2, XCircle, RotateCcw, Trophy, Loader2, AlertTriangle } from 'lucide-react';
+import { CurriculumLesson, GradeLevel, Subject, QuizQuestion, QuizResult } from '../types';
+import { generateQuiz } from '../services/geminiService';
+import { saveQuizResult } from '../services/quizService';
+import { logEvent } from '../services/analyticsService';
+import { QuizAnswer, isAnswerCorrect, scoreQuiz } from '../utils/quiz';
+
+interface QuizModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grade: GradeLevel;
+  subject: Subject;
+  lesson: CurriculumLesson | null;
+  onComplete?: (result: QuizResult) => void;
+}
+
+const KIND_LABELS: Record<QuizQuestion['kind'], string> = {
+  mcq: 'اختيار من متعدد',
+  true_false: 'صح أم خطأ',
+  essay: 'سؤال مقالي',
+};
+
+interface QuestionCardProps {
+  index: number;
+  question: QuizQuestion;
+  answer?: QuizAnswer;
+  onAnswer: (answer: QuizAnswer) => void;
+}
+
+const QuestionCard: React.FC<QuestionCardProps> = ({ index, question, answer, onAnswer }) => {
+  const [essayDraft, setEssayDraft] = useState('');
+  const [isModelAnswerShown, setIsModelAnswerShown] = useState(false);
+
+  const isAnswered = !!answer;
+  const isCorrect = answer ? isAnswerCorrect(question, answer) : false;
+
+  // Highlights the right choice and the student's wrong one once answered
+  const choiceClass = (isRight: boolean, isChosen: boolean) => {
+    if (!isAnswered) return 'border-slate-200 bg-white hover:border-indigo-300 hover:bg-indigo-50';
+    if (isRight) return 'border-emerald-500 bg-emerald-50 text-emerald-800';
+    if (isChosen) return 'border-red-400 bg-red-50 text-red-700';
+    return 'border-slate-200 bg-white opacity-60';
+  };
+
+  return (
+    <div className={`bg-white rounded-2xl border-2 p-4 md:p-5 shadow-sm transition-colors ${
+      !isAnswered ? 'border-slate-200' : isCorrect ? 'border-emerald-200' : 'border-red-200'
+    }`}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-1 rounded-full">
+          سؤال {index + 1} · {KIND_LABELS[question.kind]}
+        </span>
+        {isAnswered && (isCorrect
+          ? <CheckCircle2 size={20} className="text-emerald-500" />
+          : <XCircle size={20} className="text-red-500" />
+        )}
+      </div>
+
+      <p className="font-bold text-slate-800 leading-relaxed mb-4">{question.question}</p>
+
+      {question.kind === 'mcq' && (
+        <div className="space-y-2">
+          {question.options.map((option, optionIndex) => (
+            <button
+              key={optionIndex}
+              disabled={isAnswered}
+              onClick={() => onAnswer({ kind: 'mcq', choice: optionIndex })}
+              className={`w-full text-right p-3 rounded-xl border-2 text-sm font-bold transition-all ${choiceClass(
+                optionIndex === question.correctIndex,
+                answer?.kind === 'mcq' && answer.choice === optionIndex
+              )}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {question.kind === 'true_false' && (
+        <div className="grid grid-cols-2 gap-2">
+          {[true, false].map((value) => (
+            <button
+              key={String(value)}
+              disabled={isAnswered}
+              onClick={() => onAnswer({ kind: 'true_false', choice: value })}
+              className={`p-3 rounded-xl border-2 text-sm font-bold transition-all ${choiceClass(
+                value === question.answer,
+                answer?.kind === 'true_false' && answer.choice === value
+              )}`}
+            >
+              {value ? 'صح ✓' : 'خطأ ✗'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {question.kind === 'essay' && (
+        <div className="space-y-3">
+          <textarea
+            value={answer?.kind === 'essay' ? answer.text : essayDraft}
+            onChange={(e) => setEssayDraft(e.target.value)}
+            disabled={isModelAnswerShown}
+            rows={3}
+            className="w-full p-3 border border-slate-300 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none resize-none disabled:bg-slate-50"
+            placeholder="اكتب إجابتك هنا..."
+          />
+          {!isModelAnswerShown ? (
+            <button
+              onClick={() => setIsModelAnswerShown(true)}
+              className="w-full py-2.5 bg-slate-900 hover:bg-slate-800 text-white rounded-xl text-sm font-bold"
+            >
+              قارن بالإجابة النموذجية
+            </button>
+          ) : (
+            <>
+              <div className="bg-indigo-50 border border-indigo-100 rounded-xl p-3 text-sm text-slate-700 leading-relaxed">
+                <span className="block text-xs font-bold text-indigo-600 mb-1">الإجابة النموذجية:</span>
+                {question.modelAnswer}
+              </div>
+              {!isAnswered && (
+                <div className="grid grid-cols-2 gap-2">
+                  <button onClick={() => onAnswer({ kind: 'essay', text: essayDraft, correct: true })} className="py-2 rounded-xl border-2 border-emerald-200 bg-emerald-50 text-emerald-700 text-sm font-bold hover:bg-emerald-100">
+                    إجابتي صحيحة
+                  </button>
+                  <button onClick={() => onAnswer({ kind: 'essay', text: essayDraft, correct: false })} className="py-2 rounded-xl border-2 border-red-200 bg-red-50 text-red-700 text-sm font-bold hover:bg-red-100">
+                    أحتاج مراجعة
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {isAnswered && question.explanation && (
+        <div className="mt-4 text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-xl p-3 leading-relaxed animate-in fade-in">
+          <span className="font-bold text-slate-800">التفسير: </span>
+          {question.explanation}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const QuizModal: React.FC<QuizModalProps> = ({ isOpen, onClose, grade, subject, lesson, onComplete }) => {
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  // Bumped to ask for a fresh set of questions
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen || !lesson) return;
+    let cancelled = false;
+
+    setQuestions([]);
+    setAnswers({});
+    setError('');
+    setIsLoading(true);
+
+    generateQuiz(grade, subject, lesson.title).then((quiz) => {
+      if (cancelled) return;
+      if (quiz) setQuestions(quiz);
+      else setError('تعذر تجهيز الأسئلة الآن. حاول مرة أخرى بعد قليل.');
+      setIsLoading(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [isOpen, grade, subject, lesson?.id, attempt]);
+
+  const { score, total } = scoreQuiz(questions, answers);
+  const isFinished = questions.length > 0 && questions.every((question) => answers[question.id]);
+
+  const handleAnswer = (question: QuizQuestion, answer: QuizAnswer) => {
+    const nextAnswers = { ...answers, [question.id]: answer };
+    setAnswers(nextAnswers);
+
+    // Record the score once, when the last question is answered
+    if (lesson && questions.every((q) => nextAnswers[q.id])) {
+      const result: QuizResult = { grade, subject, lessonId: lesson.id, lesson: lesson.title, ...scoreQuiz(questions, nextAnswers), takenAt: new Date() };
+      saveQuizResult(result);
+      logEvent({ type: 'quiz_completed', grade, subject, lesson: lesson.title, score: result.score, total: result.total });
+      onComplete?.(result);
+    }
+  };
+
+  if (!isOpen || !lesson) return null;
+
+  const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[95] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-2 md:p-4 animate-in fade-in duration-200" dir="rtl">
+      <div className="bg-slate-50 w-full max-w-2xl max-h-[95vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-white p-4 border-b border-slate-200 flex items-center justify-between gap-3 shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ClipboardCheck className="text-indigo-600 shrink-0" size={22} />
+              اختبر نفسك
+            </h2>
+            <p className="text-xs text-slate-500 truncate">{lesson.title}</p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {questions.length > 0 && (
+              <span className="text-sm font-black text-indigo-600 bg-indigo-50 px-3 py-1 rounded-full">{score} / {total}</span>
+            )}
+            <button onClick={onClose} className="p-2 bg-slate-100 hover:bg-slate-200 rounded-full transition-colors text-slate-600">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {isLoading && (
+            <div className="flex flex-col items-center justify-center py-16 text-slate-500 gap-3">
+              <Loader2 size={32} className="animate-spin text-indigo-500" />
+              <p className="text-sm font-bold">جاري تجهيز الأسئلة...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex flex-col items-center justify-center py-12 gap-4 text-center">
+              <AlertTriangle size={32} className="text-amber-500" />
+              <p className="text-sm font-bold text-slate-600">{error}</p>
+              <button onClick={() => setAttempt((n) => n + 1)} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-sm font-bold">
+                إعادة المحاولة
+              </button>
+            </div>
+          )}
+
+          {questions.map((question, index) => (
+            <QuestionCard
+              key={`${attempt}-${question.id}`}
+              index={index}
+              question={question}
+              answer={answers[question.id]}
+              onAnswer={(answer) => handleAnswer(question, answer)}
+            />
+          ))}
+
+          {isFinished && (
+            <div className="bg-white rounded-2xl border-2 border-indigo-200 p-6 text-center space-y-3 animate-in zoom-in-95">
+              <Trophy size={40} className={`mx-auto ${percentage >= 50 ? 'text-amber-500' : 'text-slate-400'}`} />
+              <p className="text-2xl font-black text-slate-800">{score} من {total}</p>
+              <p className="text-sm text-slate-600 font-bold">
+                {percentage >= 85 ? 'ممتاز! أنت متمكن من هذا الدرس 🎉' : percentage >= 50 ? 'جيد، راجع الأسئلة التي أخطأت فيها.' : 'تحتاج لمراجعة الدرس مرة أخرى.'}
+              </p>
+              <button onClick={() => setAttempt((n) => n + 1)} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-sm font-bold inline-flex items-center gap-2">
+                <RotateCcw size={16} />
+                أسئلة جديدة
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+
+import React, { useState, useEffect } from 'react';
+import { X, CalendarDays, CalendarPlus, Download, Trash2, PlayCircle, RefreshCw, AlertTriangle, Loader2, CheckCircle2, Circle, Repeat } from 'lucide-react';
+import { GradeLevel, StudyPlan, StudyPlanItem, Subject } from '../types';
+import { createStudyPlan, deleteStudyPlan, loadStudyPlan, saveStudyPlan } from '../services/planService';
+import { addDays, daysBetween, getMissedItems, isPlanOverloaded, reschedulePlan } from '../utils/planner';
+import { buildICalendar } from '../utils/ical';
+import { buildLessonUrl } from '../utils/lessonLink';
+import { toDayKey } from '../utils/analytics';
+import { downloadFile } from '../utils/csv';
+
+interface StudyPlannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grade: GradeLevel;
+  onOpenLesson: (subject: Subject, lessonId: string) => void;
+}
+
+const TERMS: { value: StudyPlan['term']; label: string }[] = [
+  { value: 'term1', label: 'الترم الأول' },
+  { value: 'term2', label: 'الترم الثاني' },
+];
+
+const formatDate = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString('ar-EG', { weekday: 'long', day: 'numeric', month: 'long' });
+};
+
+const getItemTitle = (item: StudyPlanItem) => item.kind === 'lesson' ? item.lesson : `مراجعة ${item.lessons.length} درس`;
+
+// Term 2 exams are in the summer, so from February on the second term is the likely one
+const getDefaultTerm = (): StudyPlan['term'] => {
+  const month = new Date().getMonth();
+  return month >= 1 && month <= 6 ? 'term2' : 'term1';
+};
+
+export const StudyPlanner: React.FC<StudyPlannerProps> = ({ isOpen, onClose, grade, onOpenLesson }) => {
+  const today = toDayKey(new Date());
+  const [plan, setPlan] = useState<StudyPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  // Setup form
+  const [term, setTerm] = useState<StudyPlan['term']>(getDefaultTerm);
+  const [examDate, setExamDate] = useState(() => addDays(today, 60));
+  const [hoursPerDay, setHoursPerDay] = useState(3);
+
+  // Sessions left behind since the last visit move to the coming days
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setNotice('');
+    loadStudyPlan(grade).then(async (stored) => {
+      let current = stored;
+      const missed = stored ? getMissedItems(stored, today) : [];
+      if (stored && missed.length > 0 && stored.examDate > today) {
+        current = reschedulePlan(stored, today);
+        await saveStudyPlan(current);
+        setNotice(`تم نقل ${missed.length} جلسة فائتة إلى الأيام القادمة.`);
+      }
+      setPlan(current);
+      setIsLoading(false);
+    });
+  }, [isOpen, grade]);
+
+  if (!isOpen) return null;
+
+  const handleCreate = async () => {
+    setIsLoading(true);
+    setNotice('');
+    setPlan(await createStudyPlan({ grade, term, examDate, hoursPerDay }));
+    setIsLoading(false);
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('حذف الخطة الحالية وإنشاء خطة جديدة؟')) return;
+    await deleteStudyPlan(grade);
+    setPlan(null);
+    setNotice('');
+  };
+
+  const toggleDone = async (item: StudyPlanItem) => {
+    if (!plan) return;
+    const updated: StudyPlan = {
+      ...plan,
+      items: plan.items.map((entry) => entry.id === item.id ? { ...entry, doneAt: entry.doneAt ? undefined : new Date() } : entry),
+    };
+    setPlan(updated);
+    await saveStudyPlan(updated);
+  };
+
+  const handleExport = () => {
+    if (!plan) return;
+    const events = plan.items.filter((item) => !item.doneAt).map((item) => ({
+      uid: `${item.id}@thanaweya-smart-teacher`,
+      date: item.date,
+      title: `${item.subject}: ${getItemTitle(item)}`,
+      description: item.kind === 'lesson'
+        ? `مدة الجلسة ${item.minutes} دقيقة`
+        : `راجع: ${item.lessons.join('، ')}`,
+      url: item.kind === 'lesson' ? buildLessonUrl({ grade, subject: item.subject, lessonId: item.lessonId }) : undefined,
+    }));
+    downloadFile(buildICalendar(`خطة مذاكرة ${grade}`, events), 'study-plan.ics', 'text/calendar;charset=utf-8');
+  };
+
+  const upcoming = plan ? plan.items.filter((item) => item.date >= today) : [];
+  const days = Array.from(new Set(upcoming.map((item) => item.date)));
+  const lessonItems = plan ? plan.items.filter((item) => item.kind === 'lesson') : [];
+  const doneLessons = lessonItems.filter((item) => item.doneAt).length;
+
+  return (
+    <div className="fixed inset-0 z-[95] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-2 md:p-4 animate-in fade-in duration-200" dir="rtl">
+      <div className="bg-slate-50 w-full max-w-2xl max-h-[95vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-white p-4 border-b border-slate-200 flex items-center justify-between gap-3 shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <CalendarDays className="text-indigo-600 shrink-0" size={22} />
+              خطة المذاكرة
+            </h2>
+            <p className="text-xs text-slate-500 truncate">
+              {grade}{plan ? ` - متبقي ${Math.max(0, daysBetween(today, plan.examDate))} يوم على الامتحان` : ''}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {plan && (
+              <>
+                <button onClick={handleExport} className="flex items-center gap-1 px-3 py-2 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 rounded-xl text-xs font-bold" title="تصدير إلى التقويم (iCal)">
+                  <Download size={16} />
+                  <span className="hidden sm:inline">التقويم</span>
+                </button>
+                <button onClick={handleDelete} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-full" title="خطة جديدة">
+                  <Trash2 size={18} />
+                </button>
+              </>
+            )}
+            <button onClick={onClose} className="p-2 bg-slate-100 hover:bg-slate-200 rounded-full transition-colors text-slate-600">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 size={32} className="animate-spin text-indigo-500" />
+            </div>
+          ) : !plan ? (
+            /* Setup */
+            <div className="bg-white rounded-2xl border border-slate-200 p-5 space-y-5">
+              <p className="text-sm text-slate-600 leading-relaxed">
+                سنوزع الدروس التي لم تتقنها بعد على الأيام المتبقية حتى الامتحان، مع أيام للمراجعة كل أسبوع ومراجعة نهائية قبل الامتحان.
+              </p>
+
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">الترم</label>
+                <div className="flex bg-slate-100 p-1 rounded-xl">
+                  {TERMS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => setTerm(value)}
+                      className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${term === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">موعد الامتحان</label>
+                <input
+                  type="date"
+                  value={examDate}
+                  min={addDays(today, 1)}
+                  onChange={(e) => setExamDate(e.target.value)}
+                  className="w-full p-3 rounded-xl border border-slate-200 focus:border-indigo-500 outline-none"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">ساعات المذاكرة يومياً: {hoursPerDay}</label>
+                <input
+                  type="range"
+                  min={1}
+                  max={10}
+                  value={hoursPerDay}
+                  onChange={(e) => setHoursPerDay(Number(e.target.value))}
+                  className="w-full accent-indigo-600"
+                />
+              </div>
+
+              <button
+                onClick={handleCreate}
+                disabled={!examDate || examDate <= today}
+                className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-xl font-bold flex items-center justify-center gap-2"
+              >
+                <CalendarPlus size={18} />
+                أنشئ الخطة
+              </button>
+            </div>
+          ) : (
+            <>
+              {notice && (
+                <div className="flex items-center gap-2 p-3 bg-sky-50 border border-sky-100 text-sky-800 rounded-xl text-sm font-bold">
+                  <RefreshCw size={16} className="shrink-0" />
+                  {notice}
+                </div>
+              )}
+              {isPlanOverloaded(plan) && (
+                <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-100 text-amber-800 rounded-xl text-sm font-bold">
+                  <AlertTriangle size={16} className="shrink-0" />
+                  الدروس المتبقية أكثر من ساعاتك اليومية. زد ساعات المذاكرة أو ابدأ مبكراً.
+                </div>
+              )}
+
+              <div className="bg-white rounded-2xl border border-slate-200 p-4">
+                <div className="flex justify-between text-sm font-bold text-slate-600 mb-2">
+                  <span>أنجزت {doneLessons} من {lessonItems.length} درس</span>
+                  <span>{lessonItems.length > 0 ? Math.round((doneLessons / lessonItems.length) * 100) : 0}%</span>
+                </div>
+                <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-emerald-500 rounded-full" style={{ width: `${lessonItems.length > 0 ? (doneLessons / lessonItems.length) * 100 : 0}%` }} />
+                </div>
+              </div>
+
+              {days.length === 0 && (
+                <p className="text-center text-sm text-slate-500 py-8">لا توجد جلسات قادمة في هذه الخطة.</p>
+              )}
+
+              {days.map((day) => (
+                <section key={day}>
+                  <h3 className={`text-sm font-black mb-2 ${day === today ? 'text-indigo-700' : 'text-slate-500'}`}>
+                    {day === today ? 'اليوم - ' : ''}{formatDate(day)}
+                  </h3>
+                  <div className="space-y-2">
+                    {upcoming.filter((item) => item.date === day).map((item) => (
+                      <div key={item.id} className={`flex items-center gap-3 p-3 rounded-xl border ${item.doneAt ? 'bg-slate-50 border-slate-100 opacity-60' : 'bg-white border-slate-200'}`}>
+                        <button onClick={() => toggleDone(item)} className="shrink-0 text-emerald-600" title={item.doneAt ? 'لم أنجزها' : 'تم'}>
+                          {item.doneAt ? <CheckCircle2 size={22} /> : <Circle size={22} className="text-slate-300" />}
+                        </button>
+                        <div className="flex-1 min-w-0">
+                          <p className={`font-bold text-sm text-slate-800 ${item.doneAt ? 'line-through' : ''}`}>
+                            {item.kind === 'review' && <Repeat size={14} className="inline ml-1 text-amber-600" />}
+                            {getItemTitle(item)}
+                          </p>
+                          <p className="text-xs text-slate-500 truncate">
+                            {item.subject} · {item.minutes} دقيقة
+                            {item.kind === 'review' ? ` · ${item.lessons.join('، ')}` : ''}
+                          </p>
+                        </div>
+                        {item.kind === 'lesson' && !item.doneAt && (
+                          <button
+                            onClick={() => onOpenLesson(item.subject, item.lessonId)}
+                            className="shrink-0 flex items-center gap-1 px-3 py-2 bg-indigo-50 text-indigo-700 hover:bg-indigo-600 hover:text-white rounded-lg text-xs font-bold transition-colors"
+                          >
+                            <PlayCircle size={14} />
+                            ابدأ
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,96 +1,30 @@
 
 import React from 'react';
 import { Subject, GradeLevel } from '../types';
-import { 
-  BookOpen, 
-  Calculator, 
-  FlaskConical, 
-  Globe, 
-  Languages, 
-  Microscope, 
-  Atom, 
-  Scale, 
-  BrainCircuit,
-  Activity,
-  BookType,
-  Dna,
-  ScrollText,
-  Flag,
-  AlertCircle
-} from 'lucide-react';
+import { AlertCircle, Layers } from 'lucide-react';
+import { TrackId, getSubjectInfo, getTrackSubjects } from '../data/subjects';
 
 interface SubjectGridProps {
   grade: GradeLevel;
+  // Only the track's subjects are shown
+  track?: TrackId | null;
   onSelect: (subject: Subject) => void;
+  // Flashcards due for review, per subject
+  dueCounts?: Partial<Record<Subject, number>>;
+  onReview?: (subject?: Subject) => void;
+  // Curriculum completion (0..1) of the subjects the student has started
+  progress?: Partial<Record<Subject, number>>;
 }
 
-const subjectIcons: Partial<Record<Subject, React.ReactNode>> = {
-  [Subject.ARABIC]: <BookType className="w-10 h-10 text-emerald-600" />,
-  [Subject.ENGLISH]: <Languages className="w-10 h-10 text-blue-600" />,
-  [Subject.FRENCH]: <div className="font-black text-3xl text-indigo-600">Fr</div>,
-  [Subject.GERMAN]: <div className="font-black text-3xl text-amber-600">De</div>,
-  [Subject.INTEGRATED_SCIENCES]: <Dna className="w-10 h-10 text-teal-600" />,
-  [Subject.PHYSICS]: <Atom className="w-10 h-10 text-violet-600" />,
-  [Subject.CHEMISTRY]: <FlaskConical className="w-10 h-10 text-pink-600" />,
-  [Subject.BIOLOGY]: <Microscope className="w-10 h-10 text-green-600" />,
-  [Subject.MATH]: <Calculator className="w-10 h-10 text-red-600" />,
-  [Subject.HISTORY]: <BookOpen className="w-10 h-10 text-amber-700" />,
-  [Subject.GEOGRAPHY]: <Globe className="w-10 h-10 text-cyan-600" />,
-  [Subject.PHILOSOPHY]: <Scale className="w-10 h-10 text-teal-700" />,
-  [Subject.PSYCHOLOGY]: <BrainCircuit className="w-10 h-10 text-fuchsia-600" />,
-  [Subject.GEOLOGY]: <Activity className="w-10 h-10 text-orange-600" />,
-  [Subject.RELIGION]: <ScrollText className="w-10 h-10 text-emerald-800" />,
-  [Subject.NATIONAL_EDUCATION]: <Flag className="w-10 h-10 text-red-800" />,
+const SubjectIcon: React.FC<{ subject: Subject }> = ({ subject }) => {
+  const { icon: Icon, color } = getSubjectInfo(subject);
+  if (typeof Icon === 'string') return <div className={`font-black text-3xl ${color}`}>{Icon}</div>;
+  return <Icon className={`w-10 h-10 ${color}`} />;
 };
 
-// Re-defining data locally to ensure stability if imports fail or differ
-const SUBJECTS_BY_GRADE: Record<GradeLevel, Subject[]> = {
-  [GradeLevel.GRADE_10]: [
-    Subject.ARABIC,
-    Subject.ENGLISH,
-    Subject.MATH,
-    Subject.INTEGRATED_SCIENCES,
-    Subject.HISTORY,
-    Subject.PHILOSOPHY,
-    Subject.FRENCH,
-    Subject.GERMAN,
-    Subject.RELIGION,
-    Subject.NATIONAL_EDUCATION
-  ],
-  [GradeLevel.GRADE_11]: [
-    Subject.ARABIC,
-    Subject.ENGLISH,
-    Subject.MATH,
-    Subject.PHYSICS,
-    Subject.CHEMISTRY,
-    Subject.BIOLOGY,
-    Subject.HISTORY,
-    Subject.GEOGRAPHY,
-    Subject.PHILOSOPHY,
-    Subject.PSYCHOLOGY,
-    Subject.FRENCH,
-    Subject.GERMAN
-  ],
-  [GradeLevel.GRADE_12]: [
-    Subject.ARABIC,
-    Subject.ENGLISH,
-    Subject.MATH,
-    Subject.PHYSICS,
-    Subject.CHEMISTRY,
-    Subject.BIOLOGY,
-    Subject.GEOLOGY,
-    Subject.HISTORY,
-    Subject.GEOGRAPHY,
-    Subject.PHILOSOPHY,
-    Subject.PSYCHOLOGY,
-    Subject.FRENCH,
-    Subject.GERMAN
-  ]
-};
-
-export const SubjectGrid: React.FC<SubjectGridProps> = ({ grade, onSelect }) => {
-  // Defensive check
-  const displayedSubjects = SUBJECTS_BY_GRADE[grade];
+export const SubjectGrid: React.FC<SubjectGridProps> = ({ grade, track, onSelect, dueCounts = {}, onReview, progress = {} }) => {
+  const displayedSubjects = getTrackSubjects(grade, track);
+  const totalDue = Object.values(dueCounts).reduce((sum, count) => sum + (count || 0), 0);
 
   if (!displayedSubjects || displayedSubjects.length === 0) {
     return (
@@ -106,21 +40,55 @@ export const SubjectGrid: React.FC<SubjectGridProps> = ({ grade, onSelect }) =>
   }
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 p-4 animate-in fade-in duration-500">
-      {displayedSubjects.map((subject) => (
+    <>
+      {/* Daily flashcard review */}
+      {onReview && (
         <button
-          key={subject}
-          onClick={() => onSelect(subject)}
-          className="flex flex-row sm:flex-col items-center justify-start sm:justify-center p-5 sm:p-6 bg-white rounded-xl shadow-sm hover:shadow-md border border-slate-100 hover:border-indigo-200 transition-all duration-200 group transform hover:scale-[1.02]"
+          onClick={() => onReview()}
+          className="mx-4 mt-2 flex items-center justify-between gap-3 p-4 bg-white rounded-xl border border-indigo-100 hover:border-indigo-300 shadow-sm transition-all text-right"
         >
-          <div className="mr-4 sm:mr-0 sm:mb-4 p-3 bg-slate-50 rounded-full group-hover:bg-indigo-50 transition-colors">
-            {subjectIcons[subject] || <BookOpen className="w-10 h-10 text-slate-400" />}
-          </div>
-          <span className="text-lg font-bold text-slate-800 text-center group-hover:text-indigo-700">
-            {subject}
+          <span className="flex items-center gap-3">
+            <span className="p-2 bg-indigo-50 rounded-full text-indigo-600"><Layers size={22} /></span>
+            <span>
+              <span className="block font-bold text-slate-800">مراجعة اليوم</span>
+              <span className="block text-xs text-slate-500">{totalDue > 0 ? `${totalDue} بطاقة في انتظارك` : 'لا توجد بطاقات مستحقة الآن'}</span>
+            </span>
           </span>
+          {totalDue > 0 && <span className="bg-indigo-600 text-white text-sm font-black px-3 py-1 rounded-full">{totalDue}</span>}
         </button>
-      ))}
-    </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 p-4 animate-in fade-in duration-500">
+        {displayedSubjects.map((subject) => (
+          <button
+            key={subject}
+            onClick={() => onSelect(subject)}
+            className="relative flex flex-row sm:flex-col items-center justify-start sm:justify-center p-5 sm:p-6 bg-white rounded-xl shadow-sm hover:shadow-md border border-slate-100 hover:border-indigo-200 transition-all duration-200 group transform hover:scale-[1.02]"
+          >
+            {!!dueCounts[subject] && onReview && (
+              <span
+                onClick={(e) => { e.stopPropagation(); onReview(subject); }}
+                className="absolute top-2 left-2 flex items-center gap-1 bg-indigo-50 text-indigo-700 border border-indigo-100 hover:bg-indigo-100 text-xs font-bold px-2 py-0.5 rounded-full"
+                title="راجع بطاقات هذه المادة"
+              >
+                <Layers size={12} />
+                {dueCounts[subject]}
+              </span>
+            )}
+            <div className="mr-4 sm:mr-0 sm:mb-4 p-3 bg-slate-50 rounded-full group-hover:bg-indigo-50 transition-colors">
+              <SubjectIcon subject={subject} />
+            </div>
+            <span className="text-lg font-bold text-slate-800 text-center group-hover:text-indigo-700">
+              {subject}
+            </span>
+            {progress[subject] !== undefined && (
+              <span className="absolute bottom-0 inset-x-0 h-1.5 bg-slate-100 rounded-b-xl overflow-hidden" title={`أنجزت ${Math.round(progress[subject]! * 100)}% من المنهج`}>
+                <span className="block h-full bg-emerald-500" style={{ width: `${Math.round(progress[subject]! * 100)}%` }} />
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+    </>
   );
 };
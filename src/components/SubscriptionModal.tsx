@@ -1,9 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { Lock, Clock, CheckCircle, Send, AlertTriangle, Copy, BadgePercent, X, Star, Smartphone } from 'lucide-react';
+import { Lock, Clock, CheckCircle, Send, AlertTriangle, Copy, BadgePercent, X, Star, Smartphone, ArrowRightLeft, CreditCard, Loader2, ExternalLink } from 'lucide-react';
 import { GradeLevel } from '../types';
+import { LicensePayload, getLicenseGrades, gradeToKey } from '../utils/license';
+import { useEntitlement } from '../hooks/useEntitlement';
+import { createTransferReceipt } from '../services/transferService';
+import { PaymentConfig, PaymentMethod, PaymentOrder, PAYMENT_METHOD_LABELS, fetchPaymentConfig, startCheckout, waitForPayment, getPendingOrderId, clearPendingOrder, getPaymentPageUrl } from '../services/paymentService';
+import { PLANS, Plan, PlanTier, DEFAULT_PLAN, getPlan } from '../data/plans';
 
-const SALT = "SMART_EDU_EGYPT_2026"; 
 const ADMIN_PHONE_NUMBER = "201221746554"; // رقمك
 
 interface SubscriptionModalProps {
@@ -13,14 +17,37 @@ interface SubscriptionModalProps {
 }
 
 export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ forceOpen, onClose, currentGrade }) => {
-  const [viewState, setViewState] = useState<'loading' | 'hidden' | 'locked' | 'manual'>('loading');
-  const [lockReason, setLockReason] = useState<'trial_ended' | 'subscription_ended' | 'manual_upgrade'>('trial_ended');
-  
-  const [daysLeft, setDaysLeft] = useState(0);
-  const [deviceId, setDeviceId] = useState('');
   const [inputCode, setInputCode] = useState('');
   const [error, setError] = useState('');
   const [selectedGrade, setSelectedGrade] = useState<string>('');
+  const [selectedPlan, setSelectedPlan] = useState<PlanTier>(DEFAULT_PLAN);
+  const [transferReceipt, setTransferReceipt] = useState('');
+  const [paymentConfig, setPaymentConfig] = useState<PaymentConfig | null>(null);
+  const [paymentOrder, setPaymentOrder] = useState<PaymentOrder | null>(null);
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+
+  // Trial and subscription rules live in the entitlement service; the modal only reacts to them,
+  // so it also locks on its own when the trial runs out while the app is open.
+  const entitlement = useEntitlement(currentGrade ?? null);
+  const { deviceId } = entitlement;
+
+  const viewState: 'loading' | 'hidden' | 'locked' | 'manual' =
+    forceOpen ? 'manual'
+    : !currentGrade ? 'hidden' // On Home Screen (no specific grade), don't lock
+    : !entitlement.ready ? 'loading'
+    : entitlement.isLocked ? 'locked'
+    : 'hidden';
+
+  const lockReason: 'trial_ended' | 'subscription_ended' | 'clock_rollback' | 'tampered' | 'revoked' | 'transferred' | 'manual_upgrade' =
+    forceOpen ? 'manual_upgrade'
+    : entitlement.status === 'subscription_ended' ? 'subscription_ended'
+    : entitlement.status === 'clock_rollback' ? 'clock_rollback'
+    : entitlement.status === 'tampered' ? 'tampered'
+    : entitlement.status === 'revoked' ? 'revoked'
+    : entitlement.status === 'transferred' ? 'transferred'
+    : 'trial_ended';
+  // Red lock screen: the student did have access and lost it
+  const isAccessLost = lockReason !== 'trial_ended' && lockReason !== 'manual_upgrade';
 
   // Auto-select grade if passed via props
   useEffect(() => {
@@ -29,15 +56,28 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ forceOpen,
     }
   }, [currentGrade]);
 
+  // Online checkout is optional: without the payments server, prices come from the bundled plans
   useEffect(() => {
-    if (forceOpen) {
-        setLockReason('manual_upgrade');
-        setViewState('manual');
-        ensureDeviceId();
-    } else {
-        checkStatus();
-    }
-  }, [forceOpen, currentGrade]);
+    fetchPaymentConfig().then(setPaymentConfig);
+  }, []);
+
+  // Resume an order started before a redirect to the payment page (or an app restart)
+  useEffect(() => {
+    const orderId = paymentOrder?.id || getPendingOrderId();
+    if (!orderId || (paymentOrder && paymentOrder.status !== 'pending')) return;
+
+    const controller = new AbortController();
+    waitForPayment(orderId, setPaymentOrder, controller.signal).then(async (order) => {
+      if (controller.signal.aborted) return;
+      clearPendingOrder();
+      // Failed, or paid while the server could not sign (the admin then sends the code)
+      if (order?.status !== 'paid' || !order.license) return;
+      const result = await entitlement.activate(order.license);
+      if (result.valid) announceActivation(result.license);
+      else setError("تم الدفع لكن تعذر تفعيل الكود تلقائياً. تواصل مع المسؤول.");
+    });
+    return () => controller.abort();
+  }, [paymentOrder?.id]);
 
   // Block scrolling only if locked
   useEffect(() => {
@@ -48,112 +88,97 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ forceOpen,
     }
   }, [viewState]);
 
-  const ensureDeviceId = () => {
-    let storedId = localStorage.getItem('device_id');
-    // Generate a more professional looking ID if not exists
-    if (!storedId) {
-      const array = new Uint32Array(2);
-      window.crypto.getRandomValues(array);
-      // Format: APP-XXXX-XXXX
-      storedId = 'APP-' + array[0].toString(16).toUpperCase().padStart(4, '0') + '-' + array[1].toString(16).toUpperCase().padStart(4, '0');
-      localStorage.setItem('device_id', storedId);
+  const handleActivate = async () => {
+    setError('');
+
+    // 1. Validation Logic: the code is a signed license, checked offline against the public key
+    const result = await entitlement.activate(inputCode);
+
+    if (!result.valid) {
+      setError(
+        result.reason === 'device' ? "كود التفعيل خاطئ! هذا الكود لا يعمل مع هذا الجهاز."
+        : result.reason === 'revoked' ? "هذا الكود تم إلغاؤه أو نقله لجهاز آخر."
+        : result.reason === 'not_configured' ? "التفعيل غير متاح حالياً. يرجى التواصل مع الدعم."
+        : "كود التفعيل غير صالح. تأكد من نسخه كاملاً."
+      );
+      return;
     }
-    setDeviceId(storedId);
-    return storedId;
+
+    // 2. Success Logic: the stored code itself decides the grade(s) and duration
+    announceActivation(result.license);
+    setInputCode('');
   };
 
-  const checkStatus = () => {
-    const currentId = ensureDeviceId();
+  const announceActivation = (license: LicensePayload) => {
+    const grades = getLicenseGrades(license);
+    const gradesLabel = license.grade === 'ALL' ? 'كل الصفوف' : grades[0];
+    alert(`مبروك! 🥳\nتم تفعيل ${getPlan(license.plan).label} (${gradesLabel}) بنجاح.\nالتطبيق يعمل معك الآن لمدة ${license.days} يوم.`);
+    onClose?.();
+  };
 
-    // If we are on Home Screen (no specific grade), don't lock
-    if (!currentGrade) {
-        setViewState('hidden');
-        return;
-    }
+  // Prices as configured on the server, so the buttons, WhatsApp message and checkout agree
+  const plans: Plan[] = paymentConfig?.plans.length ? paymentConfig.plans : PLANS;
+  const chosenPlan = plans.find((plan) => plan.id === selectedPlan) || getPlan(selectedPlan);
 
-    // 1. PRIORITY CHECK: Is the student ALREADY subscribed?
-    // If yes, we STOP here. We do not check the trial.
-    const subscriptionKey = `subscription_expiry_${currentGrade}`;
-    const subscriptionExpiry = localStorage.getItem(subscriptionKey);
-    
-    if (subscriptionExpiry) {
-        const expiryDate = new Date(subscriptionExpiry);
-        const now = new Date();
-        
-        if (now < expiryDate) {
-            // Active Subscription -> HIDDEN (No Lock)
-            setViewState('hidden');
-            return;
-        } else {
-            // Expired Subscription -> LOCK
-            setLockReason('subscription_ended');
-            setViewState('locked');
-            return;
-        }
-    }
+  // Bundle plans cover every grade, so no grade has to be picked
+  const isRequestReady = !!selectedGrade || !!chosenPlan.allGrades;
 
-    // 2. SECONDARY CHECK: Trial Period
-    // This code only runs if the user is NOT subscribed.
-    let trialStartStr = localStorage.getItem('trial_start_date');
-    if (!trialStartStr) {
-        trialStartStr = new Date().toISOString();
-        localStorage.setItem('trial_start_date', trialStartStr);
+  const handleCheckout = async (method: PaymentMethod) => {
+    if (!isRequestReady) {
+        alert("من فضلك اختر الصف الدراسي أولاً");
+        return;
     }
+    setError('');
+    setIsCheckingOut(true);
+    try {
+      const order = await startCheckout({
+        deviceId,
+        plan: selectedPlan,
+        grade: chosenPlan.allGrades ? 'ALL' : gradeToKey(selectedGrade as GradeLevel),
+        method,
+      });
+      setPaymentOrder(order);
+      const pageUrl = getPaymentPageUrl(order);
+      if (pageUrl) window.open(pageUrl, '_blank');
+    } catch (err) {
+      console.error("Checkout failed:", err);
+      setError("تعذر بدء الدفع أونلاين. جرب مرة أخرى أو اشترك عن طريق واتساب.");
+    } finally {
+      setIsCheckingOut(false);
+    }
+  };
 
-    const trialStartDate = new Date(trialStartStr);
-    const now = new Date();
-    const diffTime = Math.abs(now.getTime() - trialStartDate.getTime());
-    const diffDays = diffTime / (1000 * 60 * 60 * 24);
+  // Moving to a new phone: this device gives up its codes and shows a receipt for the admin
+  const handleTransfer = async () => {
+    if (!confirm("سيتم إيقاف الاشتراك على هذا الجهاز نهائياً وإنشاء إيصال نقل ترسله للمسؤول مع رقم جهازك الجديد. هل تريد المتابعة؟")) return;
 
-    if (diffDays >= 7) {
-        // Trial Over AND Not Subscribed -> LOCK
-        setLockReason('trial_ended');
-        setViewState('locked');
-    } else {
-        // Still in trial -> HIDDEN
-        setDaysLeft(Math.ceil(7 - diffDays));
-        setViewState('hidden');
+    const receipt = await createTransferReceipt();
+    if (!receipt) {
+      alert("لا يوجد اشتراك فعال على هذا الجهاز لنقله.");
+      return;
     }
+    setTransferReceipt(receipt);
+    entitlement.refresh();
   };
 
-  const handleActivate = () => {
-    // 1. Validation Logic
-    const code = inputCode.trim().toUpperCase();
-    
-    // Hash Logic: Match exactly with AdminGenerator
-    // We use the ID + SALT to ensure the code is unique to this device.
-    const expectedCode = btoa(deviceId + SALT).substring(0, 12).toUpperCase();
-
-    if (code === expectedCode) {
-      if (!selectedGrade) {
-          setError("يرجى اختيار الصف الدراسي أولاً");
-          return;
-      }
-
-      // 2. Success Logic
-      const now = new Date();
-      now.setDate(now.getDate() + 30); // Add 30 Days
-      
-      const subscriptionKey = `subscription_expiry_${selectedGrade}`;
-      localStorage.setItem(subscriptionKey, now.toISOString());
-      
-      alert(`مبروك! 🥳\nتم تفعيل اشتراك ${selectedGrade} بنجاح.\nالتطبيق يعمل معك الآن لمدة 30 يوم.`);
-      window.location.reload(); 
-    } else {
-      setError("كود التفعيل خاطئ! هذا الكود لا يعمل مع هذا الجهاز.");
-    }
+  const handleSendReceipt = () => {
+    const message = encodeURIComponent(`مرحباً مستر، أريد نقل اشتراكي إلى جهاز جديد.\nرقم الجهاز الجديد: \nإيصال النقل:\n${transferReceipt}`);
+    window.open(`https://wa.me/${ADMIN_PHONE_NUMBER}?text=${message}`, '_blank');
   };
 
   const handleWhatsAppClick = () => {
-    if (!selectedGrade) {
+    if (!isRequestReady) {
         alert("من فضلك اختر الصف الدراسي أولاً");
         return;
     }
-    const message = `مرحباً مستر، أريد الاشتراك في تطبيق 'المعلم الذكي' لمدة شهر.%0aالصف: ${selectedGrade}%0aالسعر: 300ج%0aرقم جهازي (Device ID): ${deviceId}`;
+    const plan = chosenPlan;
+    const gradeLine = plan.allGrades ? 'كل الصفوف' : selectedGrade;
+    const message = encodeURIComponent(`مرحباً مستر، أريد الاشتراك في تطبيق 'المعلم الذكي' - ${plan.label} (${plan.days} يوم).\nالصف: ${gradeLine}\nالسعر: ${plan.price}ج\nرقم جهازي (Device ID): ${deviceId}`);
     window.open(`https://wa.me/${ADMIN_PHONE_NUMBER}?text=${message}`, '_blank');
   };
 
-  if (viewState === 'hidden') return null;
+  // Nothing to show until the entitlement record has loaded (avoids flashing the lock screen)
+  if (viewState === 'hidden' || viewState === 'loading') return null;
 
   const isManual = viewState === 'manual';
 
@@ -172,23 +197,27 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ forceOpen,
 
         <div className={`p-6 text-center border-b ${
             lockReason === 'trial_ended' ? 'bg-amber-50 border-amber-100' : 
-            lockReason === 'subscription_ended' ? 'bg-red-50 border-red-100' :
+            isAccessLost ? 'bg-red-50 border-red-100' :
             'bg-indigo-50 border-indigo-100'
         }`}>
            <div className={`mx-auto w-16 h-16 rounded-full flex items-center justify-center mb-4 shadow-sm ${
                lockReason === 'trial_ended' ? 'bg-amber-100 text-amber-600' : 
-               lockReason === 'subscription_ended' ? 'bg-red-100 text-red-600' :
+               isAccessLost ? 'bg-red-100 text-red-600' :
                'bg-indigo-100 text-indigo-600'
            }`}>
              {lockReason === 'trial_ended' ? <Clock size={32} /> : 
-              lockReason === 'subscription_ended' ? <Lock size={32} /> :
+              isAccessLost ? <Lock size={32} /> :
               <Star size={32} />
              }
            </div>
            
            <h2 className="text-2xl font-black text-slate-800">
                {lockReason === 'trial_ended' ? 'انتهت الفترة التجريبية' : 
-                lockReason === 'subscription_ended' ? 'انتهى الاشتراك الشهري' :
+                lockReason === 'subscription_ended' ? 'انتهى الاشتراك' :
+                lockReason === 'clock_rollback' ? 'تاريخ الجهاز غير صحيح' :
+                lockReason === 'tampered' ? 'تعذر التحقق من بيانات التطبيق' :
+                lockReason === 'revoked' ? 'تم إلغاء كود التفعيل' :
+                lockReason === 'transferred' ? 'تم نقل الاشتراك' :
                 'ترقية الحساب'
                }
            </h2>
@@ -196,7 +225,15 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ forceOpen,
                {lockReason === 'trial_ended' 
                 ? `انتهت الـ 7 أيام المجانية. لمتابعة التفوق في ${currentGrade || 'هذا الصف'}، يرجى الاشتراك.` 
                 : lockReason === 'subscription_ended'
-                ? 'انتهت فترة الـ 30 يوم. جدد اشتراكك الآن لتفتح التطبيق فوراً.'
+                ? 'انتهت مدة اشتراكك. جدد اشتراكك الآن لتفتح التطبيق فوراً.'
+                : lockReason === 'clock_rollback'
+                ? 'تم إرجاع ساعة الجهاز للخلف. اضبط التاريخ والوقت تلقائياً من إعدادات الجهاز ثم أعد فتح التطبيق.'
+                : lockReason === 'tampered'
+                ? 'تم تعديل أو مسح بيانات التطبيق المحفوظة على هذا الجهاز (مثل مسح بيانات المتصفح أو التصفح الخفي)، لذلك توقفت الفترة التجريبية. اشترك للمتابعة، أو أدخل كود التفعيل إذا كان معك كود.'
+                : lockReason === 'revoked'
+                ? 'تم إلغاء كود التفعيل الخاص بهذا الجهاز. تواصل مع المسؤول إذا كنت تعتقد أن هذا خطأ.'
+                : lockReason === 'transferred'
+                ? 'تم نقل اشتراكك إلى جهاز آخر. لاستخدام التطبيق هنا، اشترك لهذا الجهاز.'
                 : 'استمتع بكافة مميزات المعلم الذكي بلا حدود.'
                }
            </p>
@@ -206,16 +243,32 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ forceOpen,
            
            {/* Step 1 */}
            <div>
-               <label className="block text-sm font-bold text-slate-700 mb-2">1. اختر الصف الدراسي:</label>
+               <label className="block text-sm font-bold text-slate-700 mb-2">1. اختر الباقة والصف الدراسي:</label>
+               <div className="grid grid-cols-2 gap-2 mb-2">
+                   {plans.map((plan) => (
+                       <button
+                          key={plan.id}
+                          onClick={() => setSelectedPlan(plan.id)}
+                          className={`p-2.5 rounded-xl border-2 text-right transition-all ${
+                              selectedPlan === plan.id
+                              ? 'border-indigo-500 bg-indigo-50'
+                              : 'border-slate-200 bg-slate-50 hover:border-indigo-200'
+                          }`}
+                       >
+                           <span className="block text-xs font-bold text-slate-700">{plan.label}</span>
+                           <span className="block text-sm font-black text-indigo-600">{plan.price}ج</span>
+                       </button>
+                   ))}
+               </div>
                <select 
                   value={selectedGrade} 
                   onChange={(e) => setSelectedGrade(e.target.value)}
                   className="w-full p-3 bg-slate-50 border border-slate-300 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none font-bold text-slate-700"
                >
                    <option value="">-- اضغط للاختيار --</option>
-                   <option value="الصف الأول الثانوي">الصف الأول الثانوي (300ج / شهر)</option>
-                   <option value="الصف الثاني الثانوي">الصف الثاني الثانوي (300ج / شهر)</option>
-                   <option value="الصف الثالث الثانوي">الصف الثالث الثانوي (300ج / شهر)</option>
+                   {Object.values(GradeLevel).map((grade) => (
+                       <option key={grade} value={grade}>{grade}</option>
+                   ))}
                </select>
            </div>
 
@@ -236,28 +289,80 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ forceOpen,
 
                <button 
                 onClick={handleWhatsAppClick}
-                disabled={!selectedGrade}
+                disabled={!isRequestReady}
                 className={`w-full font-bold py-3 rounded-xl shadow-lg transition-all flex items-center justify-center gap-2 ${
-                    !selectedGrade 
+                    !isRequestReady 
                     ? 'bg-slate-300 text-slate-500 cursor-not-allowed' 
                     : 'bg-[#25D366] hover:bg-[#128C7E] text-white shadow-green-100 hover:scale-105'
                 }`}
               >
                 <Send size={20} />
-                <span>{selectedGrade ? 'إرسال طلب الاشتراك (واتساب)' : 'اختر الصف أولاً'}</span>
+                <span>{isRequestReady ? 'إرسال طلب الاشتراك (واتساب)' : 'اختر الصف أولاً'}</span>
               </button>
+
+              {/* Online payment: the code is issued and activated automatically once paid */}
+              {paymentConfig?.enabled && (
+                <div className="mt-4 bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-3">
+                  <p className="text-xs font-bold text-slate-600 flex items-center gap-1">
+                    <CreditCard size={14} />
+                    أو ادفع أونلاين ({chosenPlan.price}ج) ويتفعل اشتراكك تلقائياً:
+                  </p>
+
+                  {paymentOrder?.status === 'pending' ? (
+                    <div className="space-y-2 text-sm">
+                      {paymentOrder.instructions.referenceNumber && (
+                        <div className="bg-white border border-slate-200 rounded-lg p-3 text-center">
+                          <span className="block text-xs text-slate-500 mb-1">ادفع {paymentOrder.amount}ج في أي منفذ فوري بالرقم المرجعي:</span>
+                          <code className="text-lg font-mono font-black text-indigo-600 tracking-wider" dir="ltr">{paymentOrder.instructions.referenceNumber}</code>
+                        </div>
+                      )}
+                      {getPaymentPageUrl(paymentOrder) && (
+                        <button onClick={() => window.open(getPaymentPageUrl(paymentOrder)!, '_blank')} className="w-full bg-white border border-slate-200 hover:border-indigo-300 text-slate-700 font-bold py-2 rounded-lg flex items-center justify-center gap-2 text-xs">
+                          <ExternalLink size={14} />
+                          فتح صفحة الدفع
+                        </button>
+                      )}
+                      <p className="text-xs text-slate-500 flex items-center justify-center gap-2">
+                        <Loader2 size={14} className="animate-spin" />
+                        في انتظار تأكيد الدفع...
+                      </p>
+                    </div>
+                  ) : paymentOrder?.status === 'paid' && !paymentOrder.license ? (
+                    <p className="text-xs font-bold text-emerald-700 text-center">تم استلام الدفع ✅ سيرسل لك المسؤول كود التفعيل قريباً.</p>
+                  ) : (
+                    <>
+                      {paymentOrder?.status === 'failed' && (
+                        <p className="text-xs font-bold text-red-600 text-center">لم تتم عملية الدفع. يمكنك المحاولة مرة أخرى.</p>
+                      )}
+                      <div className="grid grid-cols-3 gap-2">
+                        {paymentConfig.methods.map((method) => (
+                          <button
+                            key={method}
+                            onClick={() => handleCheckout(method)}
+                            disabled={!isRequestReady || isCheckingOut}
+                            className="py-2 bg-white border border-slate-200 hover:border-indigo-400 hover:text-indigo-600 rounded-lg text-xs font-bold text-slate-700 transition-colors disabled:opacity-50"
+                          >
+                            {PAYMENT_METHOD_LABELS[method]}
+                          </button>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
            </div>
            
            {/* Step 3 */}
            <div className="border-t border-slate-100 pt-5">
               <label className="block text-sm font-bold text-slate-700 mb-2">3. أدخل كود التفعيل:</label>
               <div className="space-y-3">
-                 <input 
-                   type="text" 
+                 <textarea 
                    value={inputCode}
-                   onChange={(e) => setInputCode(e.target.value)}
-                   className="block w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-center font-mono text-lg placeholder:text-slate-300 uppercase tracking-widest"
-                   placeholder="XXXX-XXXX-XXXX"
+                   onChange={(e) => setInputCode(e.target.value.replace(/\s+/g, ''))}
+                   rows={3}
+                   dir="ltr"
+                   className="block w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-center font-mono text-xs placeholder:text-slate-300 break-all resize-none"
+                   placeholder="الصق كود التفعيل كاملاً هنا"
                  />
                  
                  <button 
@@ -276,6 +381,30 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ forceOpen,
                     </div>
                )}
            </div>
+
+           {/* Device Transfer */}
+           {isManual && (entitlement.isSubscribed || transferReceipt) && (
+             <div className="border-t border-slate-100 pt-5">
+                {transferReceipt ? (
+                  <div className="space-y-3">
+                    <p className="text-sm font-bold text-slate-700">إيصال النقل (أرسله للمسؤول مع رقم جهازك الجديد):</p>
+                    <div className="bg-slate-100 p-3 rounded-xl border border-slate-200 flex items-start gap-2">
+                      <code className="text-[10px] font-mono text-slate-600 break-all flex-1 max-h-20 overflow-y-auto" dir="ltr">{transferReceipt}</code>
+                      <button onClick={() => navigator.clipboard.writeText(transferReceipt)} className="p-2 bg-white hover:bg-slate-50 rounded-lg text-slate-600 shrink-0" title="نسخ"><Copy size={16}/></button>
+                    </div>
+                    <button onClick={handleSendReceipt} className="w-full bg-[#25D366] hover:bg-[#128C7E] text-white font-bold py-2.5 rounded-xl flex items-center justify-center gap-2 text-sm">
+                      <Send size={16} />
+                      إرسال الإيصال (واتساب)
+                    </button>
+                  </div>
+                ) : (
+                  <button onClick={handleTransfer} className="w-full text-slate-500 hover:text-indigo-600 text-xs font-bold flex items-center justify-center gap-2 py-2">
+                    <ArrowRightLeft size={14} />
+                    غيرت موبايلك؟ انقل اشتراكك لجهاز جديد
+                  </button>
+                )}
+             </div>
+           )}
         </div>
       </div>
     </div>
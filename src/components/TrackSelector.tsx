@@ -0,0 +1,52 @@
+import React from 'react';
+import { Route, Check } from 'lucide-react';
+import { GradeLevel } from '../types';
+import { TrackId, getGradeTracks } from '../data/subjects';
+
+interface TrackSelectorProps {
+  grade: GradeLevel;
+  selected: TrackId | null;
+  onSelect: (track: TrackId) => void;
+  // Only offered when changing an existing choice
+  onCancel?: () => void;
+}
+
+export const TrackSelector: React.FC<TrackSelectorProps> = ({ grade, selected, onSelect, onCancel }) => {
+  const tracks = getGradeTracks(grade);
+  // Subjects every track shares are left out, so the cards show what differs
+  const shared = tracks[0]?.subjects.filter((subject) => tracks.every((track) => track.subjects.includes(subject))) || [];
+
+  return (
+    <div className="max-w-2xl w-full mx-auto p-4 animate-in fade-in duration-300">
+      <div className="text-center mb-6">
+        <div className="mx-auto w-14 h-14 bg-indigo-50 text-indigo-600 rounded-full flex items-center justify-center mb-3">
+          <Route size={28} />
+        </div>
+        <h3 className="text-xl font-black text-slate-800">اختر شعبتك</h3>
+        <p className="text-sm text-slate-500 mt-1">نعرض لك مواد شعبتك فقط، ويجيبك المعلم الذكي على طريقة امتحانها.</p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        {tracks.map((track) => (
+          <button
+            key={track.id}
+            onClick={() => onSelect(track.id)}
+            className={`relative p-5 rounded-2xl border-2 text-right transition-all ${selected === track.id ? 'border-indigo-500 bg-indigo-50' : 'border-slate-100 bg-white hover:border-indigo-300'}`}
+          >
+            {selected === track.id && <Check size={18} className="absolute top-3 left-3 text-indigo-600" />}
+            <span className="block font-bold text-lg text-slate-900 mb-2">{track.label}</span>
+            <span className="block text-xs text-slate-500 leading-relaxed">
+              {track.subjects.filter((subject) => !shared.includes(subject)).join('، ')}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {onCancel && (
+        <button onClick={onCancel} className="block mx-auto mt-4 text-sm text-slate-500 hover:text-indigo-600">
+          إلغاء
+        </button>
+      )}
+    </div>
+  );
+};
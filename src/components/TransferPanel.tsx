@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ArrowRightLeft, Smartphone, CheckCircle, AlertCircle } from 'lucide-react';
+import { TransferReceipt, TransferItem, parseTransferReceipt, planTransfer } from '../services/transferService';
+import { getGradeLabel } from '../services/ledgerService';
+import { getPlan } from '../data/plans';
+
+interface TransferPanelProps {
+  isBusy: boolean;
+  // Ids among `licenseIds` that were already revoked or transferred; null if that cannot be checked
+  onCheck: (licenseIds: string[]) => Promise<string[] | null>;
+  // Resolves null once the new codes were issued, otherwise the reason they were not
+  onTransfer: (receipt: TransferReceipt, items: TransferItem[], newDeviceId: string) => Promise<string | null>;
+}
+
+export const TransferPanel: React.FC<TransferPanelProps> = ({ isBusy, onCheck, onTransfer }) => {
+  const [receiptText, setReceiptText] = useState('');
+  const [newDeviceId, setNewDeviceId] = useState('');
+  const [receipt, setReceipt] = useState<TransferReceipt | null>(null);
+  const [items, setItems] = useState<TransferItem[]>([]);
+  const [spentCount, setSpentCount] = useState(0);
+  const [error, setError] = useState('');
+
+  const handleReceiptChange = async (value: string) => {
+    setReceiptText(value);
+    setError('');
+    setReceipt(null);
+    setItems([]);
+    setSpentCount(0);
+    if (!value.trim()) return;
+
+    const parsed = await parseTransferReceipt(value);
+    if (!parsed) {
+      setError('إيصال غير صالح. تأكد من نسخه كاملاً (يبدأ بـ TR1-).');
+      return;
+    }
+    // Codes revoked or transferred before (a reused or hand-made receipt) are left out
+    const spent = await onCheck(parsed.licenses.map((license) => license.id));
+    if (!spent) {
+      setError('تعذر التحقق من قائمة الإلغاء على الخادم. حاول مرة أخرى.');
+      return;
+    }
+    const fresh = { ...parsed, licenses: parsed.licenses.filter((license) => !spent.includes(license.id)) };
+    const planned = planTransfer(fresh.licenses);
+    if (planned.length === 0) {
+      setError(spent.length > 0
+        ? 'أكواد هذا الإيصال ملغاة أو نُقلت من قبل.'
+        : 'لا توجد مدة متبقية في الأكواد الموجودة في هذا الإيصال.');
+    }
+    setReceipt(fresh);
+    setItems(planned);
+    setSpentCount(spent.length);
+  };
+
+  const handleTransfer = async () => {
+    if (!receipt || items.length === 0 || !newDeviceId.trim()) return;
+    if (newDeviceId.trim() === receipt.deviceId) {
+      setError('رقم الجهاز الجديد هو نفس رقم الجهاز القديم.');
+      return;
+    }
+    const transferError = await onTransfer(receipt, items, newDeviceId.trim());
+    if (transferError) {
+      setError(transferError);
+      return;
+    }
+    setReceiptText('');
+    setNewDeviceId('');
+    setReceipt(null);
+    setItems([]);
+    setSpentCount(0);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-2xl shadow-2xl border border-slate-700 p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <ArrowRightLeft size={20} className="text-indigo-400" />
+        <span className="font-bold text-white">نقل اشتراك لجهاز جديد</span>
+      </div>
+
+      <textarea
+        value={receiptText}
+        onChange={(e) => handleReceiptChange(e.target.value)}
+        rows={2}
+        placeholder="الصق إيصال النقل الذي أرسله الطالب (TR1-...)"
+        className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white text-xs font-mono outline-none focus:border-indigo-500 placeholder:text-slate-600 resize-none break-all"
+        dir="ltr"
+      />
+
+      {receipt && (
+        <div className="bg-slate-900 border border-slate-700 rounded-xl p-3 text-xs space-y-1">
+          <p className="text-slate-400">الجهاز القديم: <span className="text-white font-mono" dir="ltr">{receipt.deviceId}</span></p>
+          <p className="text-slate-400">أكواد صحيحة في الإيصال: <span className="text-white">{receipt.licenses.length}</span></p>
+          {spentCount > 0 && (
+            <p className="text-amber-400 flex items-center gap-1">
+              <AlertCircle size={12} />
+              {spentCount} كود ملغي أو منقول من قبل، لن يُحتسب
+            </p>
+          )}
+          {items.map((item) => (
+            <p key={item.grade} className="text-emerald-400 flex items-center gap-1">
+              <CheckCircle size={12} />
+              {getGradeLabel(item.grade)} - {getPlan(item.plan).label} - متبقي {item.days} يوم
+            </p>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="text-red-400 text-xs font-bold bg-red-500/10 p-2 rounded-lg border border-red-500/20 flex items-center gap-2">
+          <AlertCircle size={14} />
+          {error}
+        </div>
+      )}
+
+      <div className="relative">
+        <input
+          type="text"
+          value={newDeviceId}
+          onChange={(e) => setNewDeviceId(e.target.value)}
+          placeholder="رقم الجهاز الجديد (APP-XXXX...)"
+          className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white outline-none focus:border-indigo-500 font-mono text-center placeholder:text-slate-600"
+          dir="ltr"
+        />
+        <Smartphone className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600" size={20} />
+      </div>
+
+      <button
+        onClick={handleTransfer}
+        disabled={!receipt || items.length === 0 || !newDeviceId.trim() || isBusy}
+        className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-bold py-3 rounded-xl transition-all"
+      >
+        إلغاء الأكواد القديمة وإصدار أكواد الجهاز الجديد
+      </button>
+      <p className="text-[11px] text-slate-500">الأكواد الجديدة تظهر في خانة الكود بالأعلى، والقديمة تُضاف لقائمة الإلغاء على الخادم.</p>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CurriculumDocument } from '../types';
+import { applyCurriculumDocument, findLesson, resolveLegacyLessonId } from './curriculum';
+import BUNDLED_CURRICULUM from './curriculum.json';
+
+const bundled = BUNDLED_CURRICULUM as CurriculumDocument;
+const { grade, subject, terms } = bundled.subjects[0];
+const lesson = terms.term1.units[0].lessons[0];
+
+describe('lesson ids for title-keyed data', () => {
+  it('finds the id of a lesson by its title', () => {
+    expect(resolveLegacyLessonId(grade, subject, lesson.title)).toBe(lesson.id);
+    expect(findLesson(grade, subject, lesson.id)?.title).toBe(lesson.title);
+  });
+
+  it('keeps the title when no curriculum has the lesson', () => {
+    expect(resolveLegacyLessonId(grade, subject, 'درس غير موجود')).toBe('درس غير موجود');
+  });
+
+  it('still finds a lesson renamed in a newer curriculum', () => {
+    const renamed: CurriculumDocument = {
+      ...bundled,
+      version: bundled.version + 1,
+      subjects: bundled.subjects.map((entry, index) => index !== 0 ? entry : {
+        ...entry,
+        terms: {
+          ...entry.terms,
+          term1: {
+            ...entry.terms.term1,
+            units: entry.terms.term1.units.map((unit, unitIndex) => unitIndex !== 0 ? unit : {
+              ...unit,
+              lessons: unit.lessons.map((item) => item.id === lesson.id ? { ...item, title: 'عنوان جديد' } : item),
+            }),
+          },
+        },
+      }),
+    };
+    applyCurriculumDocument(renamed);
+
+    expect(findLesson(grade, subject, lesson.id)?.title).toBe('عنوان جديد');
+    expect(resolveLegacyLessonId(grade, subject, lesson.title)).toBe(lesson.id);
+    expect(resolveLegacyLessonId(grade, subject, 'عنوان جديد')).toBe(lesson.id);
+  });
+});
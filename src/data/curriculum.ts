@@ -1,651 +1,90 @@
+import { CurriculumDocument, CurriculumLesson, CurriculumTermKey, GradeLevel, Subject, SubjectCurriculum } from '../types';
+import { migrateSubjectCurriculum } from './curriculumMigration';
+import BUNDLED_CURRICULUM from './curriculum.json';
 
-import { GradeLevel, Subject } from '../types';
+// The curriculum the app reads from. It starts as the copy bundled with the build (curriculum.json,
+// Egyptian Ministry Curriculum 2025/2026) and is replaced when a newer version is published from the
+// admin panel (see services/curriculumService.ts), so lesson changes do not need a redeploy.
 
-export interface CurriculumSplit {
-  term1: string[];
-  term2: string[];
-}
+let activeDocument = BUNDLED_CURRICULUM as CurriculumDocument;
+let subjectIndex = new Map<string, SubjectCurriculum>();
+const listeners = new Set<() => void>();
 
-// Data Population - Updated based on Egyptian Ministry Curriculum (2025/2026)
-const CURRICULUM_DATA: Record<string, Record<string, CurriculumSplit>> = {
-  [GradeLevel.GRADE_10]: {
-    [Subject.ARABIC]: {
-      term1: [
-        "الوحدة الأولى: قيم عربية (مكارم الأخلاق - حاتم الطائي)",
-        "النحو: الأفعال الناقصة والتامة (كان وأخواتها)",
-        "النحو: أفعال المقاربة والرجاء والشروع (كاد وأخواتها)",
-        "البلاغة: التعبير الحقيقي والمجازي - التشبيه وأنواعه",
-        "الأدب: العصر الجاهلي (سماته - المعلقات)",
-        "الوحدة الثانية: قيم إنسانية (العفو مأمول - كعب بن زهير)",
-        "النحو: إعمال اسم الفاعل وصيغ المبالغة",
-        "الأدب: عصر صدر الإسلام (الشعر والنثر)",
-        "البلاغة: الاستعارة المكنية والتصريحية",
-        "الوحدة الثالثة: هويتنا (من أجل حياة كريمة - نثر)"
-      ],
-      term2: [
-        "الوحدة الأولى: العمل والاجتهاد (العمل حياة)",
-        "النصوص: البيت وطن (ابن الرومي)",
-        "النحو: أسلوب الاستثناء (إلا - غير - سوى - خلا - عدا - حاشا)",
-        "الأدب: العصر العباسي (سماته وخصائصه)",
-        "البلاغة: الكناية (أنواعها وسر جمالها)",
-        "الوحدة الثانية: تراثنا (مصر مطلع البدور)",
-        "النحو: الاسم المقصور والمنقوص والممدود (تثنيته وجمعه)",
-        "الأدب: نهضة الشعر في العصر الحديث",
-        "البلاغة: المجاز المرسل (علاقاته)",
-        "النحو: الملحقات (بالمثنى - بجمع المذكر - بجمع المؤنث)"
-      ]
-    },
-    [Subject.INTEGRATED_SCIENCES]: {
-      term1: [
-        "الفصل الأول: النظام البيئي المائي",
-        "الدرس 1: خصائص الماء الفيزيائية والكيميائية وتأثيرها على الحياة",
-        "الدرس 2: دورة الماء والتوازن البيئي المائي",
-        "الفصل الثاني: الغلاف الجوي",
-        "الدرس 1: طبقات الغلاف الجوي وأهمية كل طبقة",
-        "الدرس 2: ملوثات الهواء وتغير المناخ (الاحتباس الحراري)",
-        "الفصل الثالث: التربة والثروة الزراعية",
-        "الدرس 1: مكونات التربة وخواصها الفيزيائية والكيميائية",
-        "الدرس 2: استصلاح الأراضي والأسمدة وتأثيرها"
-      ],
-      term2: [
-        "الفصل الرابع: الطاقة ومصادرها",
-        "الدرس 1: صور الطاقة وتحولاتها (الحركية، الوضع، الحرارية)",
-        "الدرس 2: مصادر الطاقة المتجددة (الشمسية - الرياح - الهيدروجين الأخضر)",
-        "الدرس 3: الوقود الحفري والطاقة النووية (المميزات والعيوب)",
-        "الفصل الخامس: الموارد الطبيعية والتنمية المستدامة",
-        "الدرس 1: المعادن والصخور الاقتصادية في مصر",
-        "الدرس 2: التنوع البيولوجي وسبل حمايته",
-        "الفصل السادس: التكنولوجيا الحيوية وتطبيقاتها في الحياة"
-      ]
-    },
-    [Subject.MATH]: {
-      term1: [
-        "الجبر: حل معادلات الدرجة الثانية في متغير واحد",
-        "الجبر: مقدمة عن الأعداد المركبة",
-        "الجبر: تحديد نوع جذري المعادلة التربيعية",
-        "الجبر: العلاقة بين جذري المعادلة ومعاملاتها",
-        "الجبر: إشارة الدالة (الثابتة - الخطية - التربيعية)",
-        "الجبر: متباينة الدرجة الثانية في مجهول واحد",
-        "حساب المثلثات: الزاوية الموجهة والقياس الستيني والدائري",
-        "حساب المثلثات: الدوال المثلثية ومقلوباتها وإشاراتها",
-        "حساب المثلثات: الزوايا المنتسبة",
-        "الهندسة: تشابه المضلعات والمثلثات (الحالات الثلاث)",
-        "الهندسة: نظريات التناسب في المثلث (تاليس - المنصفات - قوة النقطة)"
-      ],
-      term2: [
-        "الجبر: تنظيم البيانات في مصفوفات",
-        "الجبر: العمليات على المصفوفات (جمع - طرح - ضرب)",
-        "الجبر: المحددات والمعكوس الضربي للمصفوفة",
-        "الجبر: حل المعادلات الخطية (كِرامر - المعكوس)",
-        "الجبر: البرمجة الخطية والحل الأمثل",
-        "حساب المثلثات: المتطابقات المثلثية",
-        "حساب المثلثات: حل المعادلات المثلثية",
-        "حساب المثلثات: حل المثلث (قاعدة الجيب وجيب التمام)",
-        "حساب المثلثات: زوايا الارتفاع والانخفاض",
-        "الهندسة: الكميات القياسية والمتجهة والقطعة المستقيمة الموجهة",
-        "الهندسة: المتجهات والعمليات عليها وتقسيم قطعة مستقيمة",
-        "الهندسة: معادلة الخط المستقيم (الصور المختلفة)",
-        "الهندسة: قياس الزاوية بين مستقيمين وبُعد نقطة عن مستقيم"
-      ]
-    },
-    [Subject.HISTORY]: {
-      term1: [
-        "الوحدة الأولى: مدخل لدراسة الحضارة",
-        "الدرس 1: الحضارة والتاريخ (مفاهيم أساسية)",
-        "الدرس 2: مصادر دراسة الحضارات (الأولية والثانوية)",
-        "الدرس 3: عوامل قيام الحضارات العالمية",
-        "الوحدة الثانية: حضارة مصر القديمة (الفرعونية)",
-        "الدرس 1: ملامح من تاريخ مصر القديمة (عصور القوة والضعف)",
-        "الدرس 2: الحياة الاقتصادية (زراعة - صناعة - تجارة)",
-        "الدرس 3: الحياة السياسية والإدارية",
-        "الدرس 4: الحياة الاجتماعية وطبقات المجتمع",
-        "الدرس 5: الحياة الدينية والمعتقدات",
-        "الدرس 6: الحياة الثقافية والفكرية (الكتابة - العلوم - الفنون)"
-      ],
-      term2: [
-        "الوحدة الثالثة: حضارات الشرق الأدنى القديم",
-        "الدرس 1: حضارة بلاد العراق القديم (السومرية - البابلية - الآشورية)",
-        "الدرس 2: حضارة فينيقيا (مدنها ومظاهرها)",
-        "الوحدة الرابعة: حضارة اليونان وحضارة الرومان",
-        "الدرس 1: الحضارة الإغريقية (اليونانية) - أثينا واسبرطة",
-        "الدرس 2: مصر تحت حكم البطالمة (دولة البطالمة)",
-        "الدرس 3: الحضارة الرومانية (الملكي - الجمهوري - الامبراطوري)",
-        "الدرس 4: مصر تحت حكم الرومان (الأوضاع السياسية والاقتصادية)"
-      ]
-    },
-    [Subject.PHILOSOPHY]: {
-      term1: [
-        "الوحدة الأولى: مبادئ التفكير الفلسفي",
-        "الموضوع الأول: التفكير الإنساني (مفهومه - خصائصه - أهميته - أساليبه)",
-        "الموضوع الثاني: نشأة الفلسفة وتعريفها وأهميتها للفرد والمجتمع",
-        "الموضوع الثالث: خصائص التفكير الفلسفي ومهاراته (الشك - النقد - الحوار - التسامح - التحليل والتركيب)"
-      ],
-      term2: [
-        "الوحدة الثانية: مبادئ التفكير العلمي",
-        "الموضوع الأول: معنى العلم وأخلاقيات العالم",
-        "الموضوع الثاني: خصائص التفكير العلمي وخطواته (الشعور بالمشكلة - الفروض - الاختبار)",
-        "الموضوع الثالث: التفكير الناقد (مهاراته ومكوناته)",
-        "الموضوع الرابع: التفكير الإبداعي (مراحله ومهاراته)"
-      ]
-    },
-    [Subject.ENGLISH]: {
-        term1: [
-            "Unit 1: Getting away (Ecotourism & Past Simple/Continuous)",
-            "Unit 2: Supporting the community (Volunteering & Present Perfect)",
-            "Unit 3: Improving lives (Future forms)",
-            "Revision 1 (Units 1-3)",
-            "Unit 4: Making new friends (Advice & Suggestions)",
-            "Unit 5: Communication (Technology & Future continuous)",
-            "Unit 6: Learning from literature (Verbs followed by -ing/to)",
-            "Reader: Treasure Island (Chapters 1-6)"
-        ],
-        term2: [
-            "Unit 7: Health and Safety (CPR & Hygiene - Modals of necessity)",
-            "Unit 8: Robots and AI (Future Perfect)",
-            "Unit 9: A good education (Past Perfect)",
-            "Revision 2 (Units 7-9)",
-            "Unit 10: What's your job? (Reported Speech - Statements)",
-            "Unit 11: The amazing world of transport (Reported Speech - Questions)",
-            "Unit 12: Achievements (Reported Speech - Orders)",
-            "Reader: Treasure Island (Chapters 7-12)"
-        ]
-    },
-    [Subject.FRENCH]: {
-        term1: [
-            "Unité 1 / Leçon 1: Se présenter (تقديم النفس والألوان والأعداد)",
-            "Unité 1 / Leçon 2: Présenter ses copains (تأنيث وجمع الصفات)",
-            "Unité 1 / Leçon 3: Parler du caractère (السمات الشخصية)",
-            "Unité 2 / Leçon 1: Identifier des objets (أدوات النكرة والمعرفة)",
-            "Unité 2 / Leçon 2: Dire l'âge et la date (الأعداد الكبيرة والشهور)",
-            "Unité 2 / Leçon 3: Exprimer ses goûts (أفعال الميول)"
-        ],
-        term2: [
-            "Unité 3 / Leçon 1: Décrire mon lycée (مكونات المدرسة والاستفهام)",
-            "Unité 3 / Leçon 2: Identifier les objets de la classe (النفي)",
-            "Unité 3 / Leçon 3: Demander et dire l'heure (الساعة والجدول الدراسي)",
-            "Unité 4 / Leçon 1: Décrire des personnes (الوصف الجسدي)",
-            "Unité 4 / Leçon 2: Présenter sa famille (صفات الملكية)",
-            "Unité 4 / Leçon 3: Parler des activités (الأنشطة ووقت الفراغ)"
-        ]
-    },
-    [Subject.GERMAN]: {
-        term1: [
-            "Lektion 1: Guten Tag! (التحيات - الحروف الهجائية - الضمائر)",
-            "Lektion 2: Meine Familie (أفراد العائلة - الأرقام 0-20 - أدوات المعرفة)",
-            "Grammatik: Konjugation der Verben (تصريف الأفعال الضعيفة والقوية)",
-            "Grammatik: W-Fragen und Ja/Nein Fragen (تكوين السؤال)"
-        ],
-        term2: [
-            "Lektion 3: Essen und Trinken (المأكولات والمشروبات - الأسعار)",
-            "Lektion 4: Meine Wohnung (السكن - الغرف - الأثاث)",
-            "Grammatik: Der Akkusativ (حالة النصب)",
-            "Grammatik: Verben haben/sein (أفعال الملكية والكينونة في المضارع)",
-            "Grammatik: Die Negation (nicht / kein) (النفي)"
-        ]
-    },
-    [Subject.RELIGION]: {
-        term1: ["الوحدة الأولى: الإيمان والعقيدة", "الوحدة الثانية: القيم والآداب الاجتماعية", "شخصيات إسلامية: أبو بكر الصديق"],
-        term2: ["الوحدة الثالثة: الإسلام وقبول الآخر", "الوحدة الرابعة: المعاملات المالية في الإسلام", "شخصيات: السيدة عائشة"]
-    },
-    [Subject.NATIONAL_EDUCATION]: {
-       term1: ["الفصل الأول: شخصية مصر تراث وتاريخ", "الفصل الثاني: المواطنة حقوق وواجبات"],
-       term2: ["الفصل الثالث: الشباب وتحقيق التنمية", "الفصل الرابع: قضايا وتحديات المجتمع المصري"]
-    }
-  },
-  [GradeLevel.GRADE_11]: {
-     [Subject.ARABIC]: {
-         term1: [
-            "النحو: إعراب الفعل المضارع (الرفع - النصب)",
-            "النحو: جزم المضارع (أدوات تجزم فعلاً واحداً - أدوات الشرط الجازمة)",
-            "النحو: اقتران جواب الشرط بالفاء",
-            "النحو: جزم المضارع في جواب الطلب",
-            "النحو: المصادر (السماعية - القياسية: الرباعي والخماسي والسداسي)",
-            "البلاغة: المحسنات البديعية (الطباق، المقابلة، السجع، الجناس، التصريع، حسن التقسيم)",
-            "الأدب: الشعر في العصر العباسي (سماته)",
-            "الأدب: النثر في العصر العباسي",
-            "النصوص: إعمال العقل (نثر) - سبيل الرشاد (شعر)"
-         ],
-         term2: [
-            "النحو: أسلوب التعجب (صيغتاه وشروطه)",
-            "النحو: أسلوب الاختصاص",
-            "النحو: أسماء الأفعال (الماضي - المضارع - الأمر)",
-            "النحو: لا النافية للجنس (أنواع اسمها وشروطه)",
-            "البلاغة: الأساليب (الخبرية والإنشائية)",
-            "البلاغة: الإيجاز والإطناب",
-            "الأدب: المدرسة الكلاسيكية الجديدة (شوقي وحافظ)",
-            "الأدب: فن المقال",
-            "النصوص: مصر تتحدث عن نفسها (شعر) - الحقوق والواجبات (نثر)"
-         ]
-     },
-     [Subject.MATH]: {
-         term1: [
-            "الجبر: الدوال الحقيقية (المجال والمدى والاطراد والنوع)",
-            "الجبر: حل متباينات القيمة المطلقة",
-            "الجبر: الأسس الكسرية والمعادلات الأسية",
-            "الجبر: الدالة العكسية والدالة اللوغاريتمية",
-            "التفاضل: النهايات (مقدمة - عددياً - بيانياً - جبرياً)",
-            "التفاضل: نظرية 4 ونهاية الدالة عند اللانهاية",
-            "حساب المثلثات: قانون الجيب",
-            "حساب المثلثات: قانون جيب التمام"
-         ],
-         term2: [
-            "الجبر: المتتابعات (تعريفها والحد النوني)",
-            "الجبر: المتتابعة الحسابية والمتسلسلة الحسابية",
-            "الجبر: المتتابعة الهندسية والمتسلسلة الهندسية",
-            "الجبر: التباديل والتوافيق ومبدأ العد",
-            "التفاضل: معدل التغير والاشتقاق",
-            "التفاضل: قواعد الاشتقاق ومشتقة الدوال المثلثية",
-            "التكامل: طرق التكامل غير المحدود",
-            "حساب المثلثات: زوايا الارتفاع والانخفاض",
-            "حساب المثلثات: الدول المثلثية لمجموع وفرق زاويتين"
-         ]
-     },
-     [Subject.PHYSICS]: {
-         term1: [
-            "الوحدة الأولى: الموجات",
-            "الفصل 1: الحركة الموجية (الموجات الميكانيكية والكهرومغناطيسية)",
-            "الفصل 2: الضوء (الانعكاس - الانكسار - التداخل - الحيود)",
-            "الفصل 2 تابع: الانعكاس الكلي والمنشور الثلاثي",
-            "الوحدة الثانية: خواص الموائع",
-            "الفصل 3: خواص الموائع الساكنة (الكثافة - الضغط عند نقطة)"
-         ],
-         term2: [
-            "تابع الوحدة الثانية: خواص الموائع الساكنة",
-            "الفصل 3: الأواني المستطرقة - البارومتر - المانومتر",
-            "الفصل 3: قاعدة باسكال ومبدأ أرشميدس",
-            "الفصل 4: خواص الموائع المتحركة (السريان الهادئ والمضطرب - اللزوجة)",
-            "الوحدة الثالثة: الحرارة",
-            "الفصل 5: قوانين الغازات (بويل - شارل - جولي - القانون العام)"
-         ]
-     },
-     [Subject.CHEMISTRY]: {
-         term1: [
-            "الباب الأول: بنية الذرة (دالتون - طومسون - رذرفورد - بور)",
-            "النظرية الذرية الحديثة وأعداد الكم",
-            "قواعد توزيع الإلكترونات (باولي - هوند - البناء التصاعدي)",
-            "الباب الثاني: الجدول الدوري وتدرج الخواص",
-            "تدرج خواص العناصر (نصف القطر - جهد التأين - الميل الإلكتروني - السالبية)",
-            "أعداد التأكسد"
-         ],
-         term2: [
-            "الباب الثالث: الروابط الكيميائية",
-            "الرابطة الأيونية والتساهمية",
-            "نظريات تفسير الرابطة التساهمية (الثمانيات - رابطة التكافؤ - الأوربتالات الجزيئية)",
-            "الرابطة التناسقية",
-            "الروابط الفيزيائية (الهيدروجينية والفلزية)",
-            "الباب الرابع: العناصر الممثلة",
-            "عناصر الفئة s (الأقلاء - الخواص والتفاعلات)",
-            "عناصر الفئة p (المجموعة 5A - النيتروجين ومركباته)"
-         ]
-     },
-     [Subject.BIOLOGY]: {
-         term1: [
-            "الباب الأول: التركيب والوظيفة في الكائنات الحية",
-            "الفصل 1: التغذية (التغذية الذاتية في النبات - آلية البناء الضوئي)",
-            "الفصل 1 تابع: التغذية غير الذاتية (الهضم في الإنسان)",
-            "الفصل 2: النقل (النقل في النبات)",
-            "الفصل 2 تابع: النقل في الإنسان (القلب والدورة الدموية)",
-            "الفصل 3: التنفس (التنفس الخلوي الهوائي واللاهوائي)"
-         ],
-         term2: [
-            "الباب الثاني: الوظائف الحيوية واستمرار الحياة",
-            "الفصل 4: الإخراج (الإخراج في الحيوان: الجلد والكلية والكبد)",
-            "الفصل 4 تابع: الإخراج في النبات",
-            "الفصل 5: الإحساس (الإحساس في النبات: الانتحاء)",
-            "الفصل 5 تابع: الجهاز العصبي في الإنسان (السيال العصبي - التشابك العصبي)"
-         ]
-     },
-    [Subject.HISTORY]: {
-      term1: [
-        "الوحدة الأولى: الحضارة الإسلامية",
-        "الدرس 1: ملامح من تاريخ الإسلام (عصر النبوة - الخلفاء الراشدين)",
-        "الدرس 2: الدولة الأموية والعباسية (أبرز الخلفاء والفتوحات)",
-        "الوحدة الثانية: حضارة مصر الإسلامية",
-        "الدرس 1: مصر منذ الفتح الإسلامي حتى قيام الدول المستقلة",
-        "الدرس 2: مصر في عهد الطولونيين والإخشيديين"
-      ],
-      term2: [
-        "تابع الوحدة الثانية: مصر الإسلامية",
-        "الدرس 3: مصر في عهد الفاطميين والأيوبيين والمماليك",
-        "الدرس 4: الحياة السياسية والاقتصادية والعلمية في مصر الإسلامية",
-        "الوحدة الثالثة: الحضارة الأوروبية في العصور الوسطى والحروب الصليبية",
-        "الوحدة الرابعة: مصر تحت الحكم العثماني ومجيء الحملة الفرنسية"
-      ]
-    },
-    [Subject.GEOGRAPHY]: {
-      term1: [
-        "الوحدة الأولى: جغرافية التنمية وموارد البيئة",
-        "الدرس 1: جغرافية التنمية (مفهومها - مبادئها - متطلباتها)",
-        "الدرس 2: التقنيات الحديثة ودورها في جغرافية التنمية",
-        "الدرس 3: البيئة (نظامها - مواردها - التوازن البيئي)",
-        "الدرس 4: الموارد المائية (أزمة المياه - إدارة الموارد المائية)"
-      ],
-      term2: [
-        "الوحدة الثانية: جغرافية التنمية الاقتصادية",
-        "الدرس 1: ماهية التنمية الاقتصادية ومقوماتها",
-        "الدرس 2: التنمية الزراعية والحيوانية في الوطن العربي",
-        "الدرس 3: التنمية الصناعية (أسس تصنيف الصناعة - الصناعة في الوطن العربي)",
-        "الدرس 4: التنمية السياحية (أنماط السياحة - التحديات)",
-        "الوحدة الثالثة: التنمية البشرية (مؤشراتها - نماذج تنموية)"
-      ]
-    },
-    [Subject.PHILOSOPHY]: {
-      term1: [
-        "الموضوع الأول: طبيعة الموقف الفلسفي (مفهومه - خصائصه)",
-        "الموضوع الثاني: الفلسفة والدين والعلم (العلاقة بينهم)",
-        "المنطق: مبادئ علم المنطق (التعريف - الأهمية)",
-        "المنطق: الحدود والقضايا المنطقية"
-      ],
-      term2: [
-        "الموضوع الثالث: فلسفة الأخلاق (ماهيتها - المذاهب الأخلاقية)",
-        "المنطق: الاستدلال المباشر (مربع أرسطو: التقابل)",
-        "المنطق: الاستدلال غير المباشر (القياس شروطه وأشكاله)",
-        "المنطق: الحجج المنطقية والمغالطات الصورية"
-      ]
-    },
-    [Subject.PSYCHOLOGY]: {
-      term1: [
-        "الوحدة الأولى: أساسيات علم النفس",
-        "الدرس 1: نشأة علم النفس وتطوره",
-        "الدرس 2: فروع علم النفس ومجالاته",
-        "الدرس 3: مناهج البحث في علم النفس",
-        "الوحدة الثانية: الدوافع والانفعالات",
-        "علم الاجتماع: تعريف علم الاجتماع ورواده (ابن خلدون - كونت - دوركايم)",
-        "علم الاجتماع: البناء الاجتماعي والجماعات الاجتماعية"
-      ],
-      term2: [
-        "الوحدة الثالثة: العمليات المعرفية",
-        "العمليات: الإحساس (تعريفه - خطواته)",
-        "العمليات: الانتباه (أنواعه - عوامله)",
-        "العمليات: الإدراك (قوانينه)",
-        "العمليات: الذاكرة (مراحلها - أنواعها - النسيان)",
-        "العمليات: التفكير (خصائصه - مستوياته)",
-        "علم الاجتماع: النظم الاجتماعية (الأسري - التربوي - الاقتصادي)",
-        "علم الاجتماع: التغير الاجتماعي والتنشئة الاجتماعية"
-      ]
-    },
-    [Subject.FRENCH]: {
-        term1: [
-            "Unité 1: Le club des sportifs (الرياضات - الاقتراح - الملكية)",
-            "Grammaire: Jouer à / Faire de / Pratiquer",
-            "Unité 2: Le club des gourmands (الأغذية والمشروبات)",
-            "Grammaire: Les articles partitifs (أدوات التجزئة)",
-            "Grammaire: Le pronom personnel 'en'"
-        ],
-        term2: [
-            "Unité 3: Le club des explorateurs (حيوانات المزرعة - الريف)",
-            "Grammaire: La négation absolue (ne...rien / ne...personne)",
-            "Grammaire: Le passé composé (الماضي المركب)",
-            "Unité 4: Le club des voyageurs (وسائل النقل - أجزاء الجسم)",
-            "Grammaire: Les prépositions de lieu et de transport"
-        ]
-    },
-    [Subject.GERMAN]: {
-        term1: [
-            "Lektion 5: Mein Tag (الروتين اليومي - الساعة - المواعيد)",
-            "Lektion 6: Freizeit (أوقات الفراغ - الهوايات - الطقس)",
-            "Grammatik: Modalverben (müssen - können - wollen)",
-            "Grammatik: Trennbare Verben (الأفعال المنفصلة)"
-        ],
-        term2: [
-            "Lektion 7: Kannst du das? (القدرات - المهارات - الطلب المهذب)",
-            "Lektion 8: Wohin fährst du? (السفر - الاتجاهات - حروف الجر)",
-            "Lektion 9: Alles Gute! (أعياد الميلاد - الهدايا - الدعوات)",
-            "Grammatik: Präteritum von sein und haben (الماضي البسيط)",
-            "Grammatik: Präpositionen mit Akkusativ/Dativ"
-        ]
-    },
-    [Subject.ENGLISH]: {
-        term1: [
-            "Unit 1: Health and Safety (First Aid)",
-            "Unit 2: Technology and future",
-            "Unit 3: Agriculture and Earth",
-            "Reader: King Lear (Act 1, 2)"
-        ],
-        term2: [
-            "Unit 4: Literature and stories",
-            "Unit 5: Work and Life balance",
-            "Unit 6: Careers",
-            "Reader: King Lear (Act 3, 4, 5)"
-        ]
-    }
-  },
-  [GradeLevel.GRADE_12]: {
-     [Subject.ARABIC]: {
-         term1: [
-            "النحو: الوحدة 1 (الإملاء والهمزات)", 
-            "النحو: الوحدة 2 (الأبنية والمشتقات والمصادر)", 
-            "النحو: الوحدة 3 (النواسخ: كان وكاد وإن ولا النافية للجنس)", 
-            "النحو: الوحدة 4 (إعراب الاسم: المفاعيل - الحال - التمييز - الاستثناء)",
-            "الأدب: مدرسة الإحياء والبعث وجيل التطوير",
-            "الأدب: الاتجاه الوجداني (خليل مطران)",
-            "الأدب: مدرسة الديوان",
-            "الأدب: مدرسة أبوللو",
-            "النصوص: غربة وحنين (شعر) - المساء (شعر) - في رثاء مي (شعر)"
-         ],
-         term2: [
-            "النحو: الوحدة 5 (إعراب الفعل: بناءه ورفعه ونصبه وجزمه)",
-            "النحو: الوحدة 6 (الأدوات: كم - حروف الجر الزائدة)",
-            "النحو: الوحدة 7 (الممنوع من الصرف)",
-            "الأدب: مدرسة المهاجر",
-            "الأدب: الواقعية والشعر الجديد",
-            "الأدب النثري: المقال - الرواية - القصة القصيرة - المسرحية",
-            "النصوص: أهواك يا وطني (شعر) - النسور (شعر) - الكنيسة نورت (قصة) - إرادة التغيير (مقال)"
-         ]
-     },
-     [Subject.PHYSICS]: {
-         term1: [
-            "الوحدة الأولى: الكهربية التيارية",
-            "الفصل 1: التيار الكهربي وقانون أوم وقانونا كيرشوف",
-            "الفصل 2: التأثير المغناطيسي للتيار الكهربي وأجهزة القياس",
-            "الفصل 3: الحث الكهرومغناطيسي (فاراداي - الدينامو - المحول)",
-            "الفصل 4: دوائر التيار المتردد (RLC - الرنين)"
-         ],
-         term2: [
-            "الوحدة الثانية: مقدمة في الفيزياء الحديثة",
-            "الفصل 5: ازدواجية الموجة والجسيم (إشعاع الجسم الأسود - كومبتون)",
-            "الفصل 6: الأطياف الذرية (نموذج بور - طيف الهيدروجين - الأشعة السينية)",
-            "الفصل 7: الليزر (الأساس العلمي - الهيليوم نيون - التطبيقات)",
-            "الفصل 8: الإلكترونيات الحديثة (أشباه الموصلات - الترانزستور - البوابات)"
-         ]
-     },
-     [Subject.CHEMISTRY]: {
-         term1: [
-            "الباب الأول: العناصر الانتقالية (السلسلة الأولى - الحديد واستخلاصه)",
-            "الباب الثاني: التحليل الكيميائي (التحليل الوصفي للكاتيونات والأنيونات)",
-            "الباب الثاني تابع: التحليل الكمي (المعايرة - التطاير - الترسيب)",
-            "الباب الثالث: الاتزان الكيميائي (الاتزان الأيوني - حاصل الإذابة)",
-            "الباب الرابع: الكيمياء الكهربية (الخلايا الجلفانية - التحليلية - التطبيقات)"
-         ],
-         term2: [
-            "الباب الخامس: الكيمياء العضوية",
-            "جزء 1: الهيدروكربونات (الأليفاتية: الألكانات - الألكينات - الألكاينات)",
-            "جزء 2: الهيدروكربونات الحلقية والبنزين العطري",
-            "جزء 3: مشتقات الهيدروكربونات (الكحولات - الفينولات)",
-            "جزء 4: الأحماض الكربوكسيلية والإسترات"
-         ]
-     },
-     [Subject.BIOLOGY]: {
-         term1: [
-            "الباب الأول: التركيب والوظيفة في الكائنات الحية",
-            "الفصل 1: الدعامة والحركة (في النبات - الجهاز الهيكلي والعضلي في الإنسان)",
-            "الفصل 2: التنسيق الهرموني (الغدد الصماء في الإنسان وهرموناتها)",
-            "الفصل 3: التكاثر (التكاثر اللاجنسي والجنسي - تعاقب الأجيال)",
-            "الفصل 3 تابع: التكاثر في النباتات الزهرية - التكاثر في الإنسان"
-         ],
-         term2: [
-            "الفصل 4: المناعة (المناعة في النبات - الجهاز المناعي في الإنسان)",
-            "الباب الثاني: البيولوجيا الجزيئية",
-            "الفصل 1: الحمض النووي DNA والمعلومات الوراثية (تركيبه - تضاعفه)",
-            "الفصل 2: الأحماض النووية RNA وتخليق البروتين والهندسة الوراثية"
-         ]
-     },
-     [Subject.GEOLOGY]: {
-         term1: [
-            "الباب الأول: علم الجيولوجيا ومادة الأرض (أفرع الجيولوجيا - التراكيب - السجل الجيولوجي)",
-            "الباب الثاني: المعادن (خواصها الفيزيائية والكيميائية - الأنظمة البلورية)",
-            "الباب الثالث: الصخور (دورة الصخور - الصخور النارية - الرسوبية - المتحولة)",
-            "الباب الرابع: الحركات الأرضية والانجراف القاري والزلازل"
-         ],
-         term2: [
-            "الباب الخامس: التوازن في الحركة بين الماء والهواء واليابس (عوامل التعرية والترسيب)",
-            "علوم البيئة - الباب الأول: مفاهيم بيئية (النظام البيئي - السلاسل الغذائية)",
-            "علوم البيئة - الباب الثاني: استنزاف الموارد البيئية وحمايتها"
-         ]
-     },
-     [Subject.MATH]: {
-         term1: [
-             "الجبر: التباديل والتوافيق ونظرية ذات الحدين",
-             "الجبر: الأعداد المركبة (الصورة المثلثية والأسية - الجذور التكعيبية)",
-             "الهندسة الفراغية: النظام الاحداثي - المتجهات في الفراغ",
-             "الهندسة الفراغية: معادلة المستقيم والمستوى في الفراغ",
-             "التفاضل: اشتقاق الدوال المثلثية والضمنية والبارامترية",
-             "التفاضل: تطبيقات المشتقة (المماس والعمودي - المعدلات الزمنية)",
-             "الاستاتيكا: الاحتكاك - العزوم - القوى المتوازية - الاتزان العام"
-         ],
-         term2: [
-             "التفاضل: سلوك الدالة ورسم المنحنيات",
-             "التكامل: تكامل الدوال المثلثية والأُسية واللوغاريتمية",
-             "التكامل: التكامل المحدد وتطبيقاته (المساحات والحجوم)",
-             "الديناميكا: تفاضل وتكامل الدوال المتجهة",
-             "الديناميكا: قوانين نيوتن للحركة (الأول - الثاني - الثالث)",
-             "الديناميكا: الدفع والتصادم",
-             "الديناميكا: الشغل والطاقة (الحركة والوضع) والقدرة"
-         ]
-     },
-    [Subject.HISTORY]: {
-      term1: [
-        "الفصل 1: الحملة الفرنسية على مصر والشام",
-        "الفصل 2: بناء الدولة الحديثة في مصر (عهد محمد علي وخلفائه)",
-        "الفصل 3: مصر منذ الثورة العرابية حتى الحرب العالمية الأولى",
-        "الفصل 4: مصر بعد الحرب العالمية الأولى (ثورة 1919 - ثورة 23 يوليو 1952)"
-      ],
-      term2: [
-        "الفصل 5: التوسع الاستعماري في البلاد العربية (الخليج - الجزائر - تونس - المغرب - ليبيا)",
-        "الفصل 6: التوسع الاستعماري والحرب العالمية الأولى (مصير الدولة العثمانية)",
-        "الفصل 7: مصر وقضايا العالم العربي (قضية فلسطين - الحروب العربية الإسرائيلية)",
-        "الفصل 8: ثورتا 25 يناير 2011 و 30 يونيو 2013"
-      ]
-    },
-    [Subject.GEOGRAPHY]: {
-      term1: [
-        "الوحدة التمهيدية: مدخل لدراسة الجغرافيا السياسية",
-        "الوحدة الأولى: الدولة في الجغرافيا السياسية",
-        "الدرس 1: الدولة (تعريفها وأنواعها)",
-        "الدرس 2: المقومات الطبيعية لقوة الدولة",
-        "الدرس 3: المقومات البشرية لقوة الدولة",
-        "الدرس 4: النظام السياسي والانتخابي",
-        "الوحدة الثانية: المشكلات السياسية",
-        "الدرس 1: الحدود السياسية (مفهومها ووظائفها)",
-        "الدرس 2: أنواع الحدود السياسية"
-      ],
-      term2: [
-        "تابع الوحدة الثانية: المشكلات السياسية",
-        "الدرس 3: تطور خريطة العالم السياسية والمشكلات المرتبطة بها",
-        "الدرس 4: مشكلات اقتصادية ذات بعد سياسي",
-        "الدرس 5: مشكلات اجتماعية ذات بعد سياسي",
-        "الوحدة الثالثة: التكتلات الاقتصادية والأحلاف العسكرية",
-        "الوحدة الرابعة: العلاقات الدولية والنظام العالمي الجديد"
-      ]
-    },
-    [Subject.PHILOSOPHY]: {
-      term1: [
-        "الفلسفة - الباب 1: الفلسفة وقضايا البيئة (مراحل العلاقة - ميثاق حقوق الأجيال)",
-        "الفلسفة - الباب 2: رؤية الفلسفة للأخلاق البيولوجية والطبية (البيوطيقا)",
-        "المنطق - الباب 1: الاستدلال الاستقرائي وتطبيقه في العلوم الطبيعية"
-      ],
-      term2: [
-        "الفلسفة - الباب 3: الفلسفة وأخلاقيات المهنة",
-        "الفلسفة - الباب 4: التفلسف وعلاقته بالقيم",
-        "المنطق - الباب 2: معنى الاستنباط وتطبيقه في العلوم الصورية (الرياضيات)",
-        "المنطق - الباب 3: التكامل بين الاستنباط والاستقراء (المنهج العلمي المعاصر)",
-        "المنطق - الباب 4: المنطق وتكنولوجيا الاتصال (السيبرنطيقا والذكاء الاصطناعي)"
-      ]
-    },
-    [Subject.PSYCHOLOGY]: {
-      term1: [
-        "علم النفس - الباب 1: الذكاء والتعلم (الذكاءات المتعددة - نظريات التعلم)",
-        "علم النفس - الباب 2: النمو والارتقاء (مبادئه - مرحلة الطفولة والمراهقة)",
-        "علم الاجتماع - الباب 1: النظرية الاجتماعية - التفاعل والعلاقات والعمليات الاجتماعية"
-      ],
-      term2: [
-        "علم النفس - الباب 3: الشخصية (نظرياتها - أنواعها)",
-        "علم النفس - الباب 3 تابع: الاتجاهات والقيم - أساليب التوافق النفسي",
-        "علم الاجتماع - الباب 2: علم الاجتماع وقضايا التنمية (العمل الحر - العمل التطوعي)",
-        "علم الاجتماع - الباب 3: علم الاجتماع والقضايا المجتمعية (توظيف البحوث - العولمة - التطرف)"
-      ]
-    },
-    [Subject.ENGLISH]: {
-        term1: [
-            "Unit 1: Read all about it (Journalism & Past Simple)", 
-            "Unit 2: Her story (Women achievers & Present Perfect)", 
-            "Unit 3: Beyond imagination (Future Forms)",
-            "Revision 1", 
-            "Unit 4: Taking care of ourselves (Suggestions)", 
-            "Unit 5: The future of work (Phrasal Verbs)", 
-            "Unit 6: Finding your culture (Gerunds & Infinitives)",
-            "Novel: Great Expectations (Chapters 1-6)"
-        ],
-        term2: [
-            "Unit 7: The meaning of success",
-            "Unit 8: Civil engineering",
-            "Unit 9: Conservation",
-            "Revision 2",
-            "Unit 10: Places of cultural interest",
-            "Unit 11: Finding your own path",
-            "Unit 12: My lifelong ambition",
-            "Novel: Great Expectations (Chapters 7-12)"
-        ]
-    },
-    [Subject.FRENCH]: {
-        term1: [
-            "Unité 1: Le club des sportifs", 
-            "Unité 2: Le club des gourmands"
-        ],
-        term2: [
-            "Unité 3: Le club des explorateurs", 
-            "Unité 4: Le club des voyageurs"
-        ]
-    },
-    [Subject.GERMAN]: {
-        term1: [
-            "Lektion 10: Gesund leben (الصحة والمرض - أعضاء الجسم)",
-            "Lektion 11: Unterwegs (وسائل المواصلات - حروف الجر)",
-            "Lektion 12: Kundenservice (خدمة العملاء - تصليح الأشياء - الجزء الأول)"
-        ],
-        term2: [
-            "Lektion 12: Kundenservice (تابع خدمة العملاء)",
-            "Lektion 13: Mode (الملابس - الألوان - التسوق)",
-            "Lektion 14: Feste und Einladungen (الأعياد - الدعوات - الاحتفالات)",
-            "مراجعة عامة وحل امتحانات شاملة"
-        ]
-    }
-  }
+const getSubjectKey = (grade: GradeLevel, subject: Subject) => `${grade}|${subject}`;
+
+// The bundled document is checked against the subject registry by data/subjects.test.ts,
+// and published ones by the curriculum editor before they go out
+const indexDocument = (document: CurriculumDocument) => {
+  subjectIndex = new Map(document.subjects.map((curriculum) => [getSubjectKey(curriculum.grade, curriculum.subject), curriculum]));
+};
+indexDocument(activeDocument);
+
+export const getCurriculumDocument = (): CurriculumDocument => activeDocument;
+
+// Expects a validated document; older versions than the active one are ignored
+export const applyCurriculumDocument = (document: CurriculumDocument): boolean => {
+  if (document.version <= activeDocument.version) return false;
+  activeDocument = document;
+  indexDocument(document);
+  listeners.forEach((listener) => listener());
+  return true;
+};
+
+export const subscribeToCurriculum = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getCurriculumFor = (grade: GradeLevel, subject: Subject): SubjectCurriculum => {
+  const curriculum = subjectIndex.get(getSubjectKey(grade, subject));
+  // Missing subjects are reported when the document is indexed; they show as empty terms
+  return curriculum || migrateSubjectCurriculum(grade, subject, { term1: [], term2: [] });
 };
 
-export const getCurriculumFor = (grade: GradeLevel, subject: Subject): CurriculumSplit => {
-  const gradeData = CURRICULUM_DATA[grade];
-  if (!gradeData || !gradeData[subject]) {
-      // Return empty if not found, but logs for debug
-      console.warn(`Missing curriculum for ${grade} - ${subject}`);
-      return { term1: [], term2: [] };
-  }
-  return gradeData[subject];
+// Every lesson of a term in order, units flattened
+export const getTermLessons = (grade: GradeLevel, subject: Subject, term: CurriculumTermKey): CurriculumLesson[] => {
+  return getCurriculumFor(grade, subject).terms[term].units.flatMap((unit) => unit.lessons);
+};
+
+const findSubjectLesson = (curriculum: SubjectCurriculum | undefined, match: (lesson: CurriculumLesson) => boolean) =>
+  curriculum && [curriculum.terms.term1, curriculum.terms.term2].flatMap((term) => term.units.flatMap((unit) => unit.lessons)).find(match);
+
+export const findLesson = (grade: GradeLevel, subject: Subject, lessonId: string): CurriculumLesson | undefined =>
+  findSubjectLesson(subjectIndex.get(getSubjectKey(grade, subject)), (lesson) => lesson.id === lessonId);
+
+// Lesson data saved before lessons had ids is keyed by title. The active curriculum is searched first,
+// then the bundled one in case the lesson was renamed since; titles found in neither are kept as the key.
+export const resolveLegacyLessonId = (grade: GradeLevel, subject: Subject, title: string): string => {
+  const bundled = (BUNDLED_CURRICULUM as CurriculumDocument).subjects.find((entry) => entry.grade === grade && entry.subject === subject);
+  const lesson = findSubjectLesson(subjectIndex.get(getSubjectKey(grade, subject)), (item) => item.title === title)
+    || findSubjectLesson(bundled, (item) => item.title === title);
+  return lesson?.id ?? title;
+};
+
+const TERM_TITLES: Record<CurriculumTermKey, string> = {
+  term1: 'الترم الأول (First Term)',
+  term2: 'الترم الثاني (Second Term)',
 };
 
 export const getCurriculumStringForAI = (grade: GradeLevel, subject: Subject): string => {
-    const data = getCurriculumFor(grade, subject);
-    let output = "";
-    
-    if (data.term1.length > 0) {
-        output += "الترم الأول (First Term):\n- " + data.term1.join('\n- ') + "\n";
-    }
-    
-    if (data.term2.length > 0) {
-        output += "\nالترم الثاني (Second Term):\n- " + data.term2.join('\n- ');
-    } else {
-        output += "\nالترم الثاني: لم تعلن الوزارة تفاصيله بعد.";
-    }
-    
-    return output;
+    const { terms } = getCurriculumFor(grade, subject);
+
+    return (Object.keys(TERM_TITLES) as CurriculumTermKey[]).map((term) => {
+        const { units } = terms[term];
+        if (units.length === 0) {
+            return term === 'term2' ? "الترم الثاني: لم تعلن الوزارة تفاصيله بعد." : "";
+        }
+
+        const lines = [`${TERM_TITLES[term]}:`];
+        units.forEach((unit) => {
+            // A unit that is its own single lesson is listed once
+            const isSingleLesson = unit.lessons.length === 1 && unit.lessons[0].title === unit.title;
+            if (!isSingleLesson) lines.push(`* ${unit.title}`);
+            unit.lessons.forEach((lesson) => {
+                lines.push(`${isSingleLesson ? '*' : '  -'} ${lesson.title}`);
+                if (lesson.objectives.length > 0) lines.push(`    الأهداف: ${lesson.objectives.join('؛ ')}`);
+            });
+        });
+        return lines.join('\n');
+    }).filter(Boolean).join('\n\n');
 };
@@ -0,0 +1,116 @@
+import { CurriculumLesson, CurriculumTermKey, CurriculumUnit, GradeLevel, Subject, SubjectCurriculum } from '../types';
+
+// Converts the original flat lesson lists into the term → unit → lesson tree.
+//
+// The flat lists mix unit headings in with the lessons ("الوحدة الأولى: ...", "الفصل 1: ...").
+// A heading starts a unit and the items after it are its lessons; a heading with nothing under it
+// (the next item is a heading of the same level) is a unit with itself as its only lesson.
+// Items before any heading are grouped by their branch prefix ("الجبر: ...", "Grammatik: ...").
+// Lesson titles are kept exactly as they were, since saved progress and quiz results refer to them.
+
+export interface CurriculumSplit {
+  term1: string[];
+  term2: string[];
+}
+
+// Lower is a bigger division; only the first two levels open a unit
+const HEADING_LEVELS: [RegExp, number][] = [
+  [/^(تابع )?(الوحدة|الباب)\s/, 1],
+  [/^الفصل\s/, 2],
+  [/^(الدرس|الموضوع)\s/, 3],
+];
+const PLAIN_LEVEL = 4;
+// Untitled group for lessons with no branch, e.g. "Unit 1: ..." in the language subjects
+const GENERAL_UNIT_TITLE = 'دروس الترم';
+
+const getLevel = (item: string): number => HEADING_LEVELS.find(([pattern]) => pattern.test(item))?.[1] ?? PLAIN_LEVEL;
+
+// "الجبر: حل المعادلات" -> "الجبر"; numbered prefixes ("Unit 1", "الدرس 2") are not branches
+const getBranch = (item: string): string | null => {
+  const index = item.indexOf(':');
+  if (index <= 0) return null;
+  const prefix = item.slice(0, index).trim();
+  if (/\d/.test(prefix) || getLevel(item) !== PLAIN_LEVEL || prefix.split(/\s+/).length > 3) return null;
+  return prefix;
+};
+
+// Branch and the topics listed in brackets, e.g. "النحو: الاستثناء (إلا - غير)" -> ["النحو", "إلا", "غير"]
+const getKeywords = (title: string): string[] => {
+  const branch = getBranch(title);
+  const bracketed = Array.from(title.matchAll(/\(([^)]*)\)/g)).flatMap((match) => match[1].split(/\s+-\s+|،|,|:/));
+  const keywords = [...(branch ? [branch] : []), ...bracketed].map((keyword) => keyword.trim()).filter(Boolean);
+  return Array.from(new Set(keywords));
+};
+
+const toKey = (value: string) => value.toLowerCase();
+const getEnumKey = <T extends Record<string, string>>(values: T, value: string) =>
+  toKey(Object.keys(values).find((key) => values[key] === value) || 'unknown');
+
+interface DraftUnit {
+  title: string;
+  level: number;
+  lessons: string[];
+}
+
+const groupTerm = (items: string[]): DraftUnit[] => {
+  const units: DraftUnit[] = [];
+  let current: DraftUnit | null = null;
+
+  items.forEach((item, index) => {
+    const level = getLevel(item);
+    const opensUnit = level <= 2 && (!current || current.level === PLAIN_LEVEL || level <= current.level);
+
+    if (opensUnit) {
+      const hasChildren = index + 1 < items.length && getLevel(items[index + 1]) > level;
+      current = { title: item, level, lessons: hasChildren ? [] : [item] };
+      units.push(current);
+      return;
+    }
+
+    if (current && current.level !== PLAIN_LEVEL) {
+      current.lessons.push(item);
+      return;
+    }
+
+    // Before any heading: consecutive items of one branch share a unit
+    const title = getBranch(item) || GENERAL_UNIT_TITLE;
+    if (!current || current.title !== title) {
+      current = { title, level: PLAIN_LEVEL, lessons: [] };
+      units.push(current);
+    }
+    current.lessons.push(item);
+  });
+
+  return units;
+};
+
+export const migrateSubjectCurriculum = (
+  grade: GradeLevel,
+  subject: Subject,
+  split: CurriculumSplit,
+  videoIds: Record<string, string> = {}
+): SubjectCurriculum => {
+  const subjectId = `${getEnumKey(GradeLevel, grade)}.${getEnumKey(Subject, subject)}`;
+
+  const migrateTerm = (term: CurriculumTermKey) => {
+    const termId = `${subjectId}.${term}`;
+    const units: CurriculumUnit[] = groupTerm(split[term] || []).map((unit, unitIndex) => {
+      const unitId = `${termId}.u${unitIndex + 1}`;
+      const lessons: CurriculumLesson[] = unit.lessons.map((title, lessonIndex) => ({
+        id: `${unitId}.l${lessonIndex + 1}`,
+        title,
+        objectives: [],
+        keywords: getKeywords(title),
+        ...(videoIds[title] ? { videoId: videoIds[title] } : {}),
+      }));
+      return { id: unitId, title: unit.title, lessons };
+    });
+    return { id: termId, units };
+  };
+
+  return {
+    grade,
+    subject,
+    terms: { term1: migrateTerm('term1'), term2: migrateTerm('term2') },
+  };
+};
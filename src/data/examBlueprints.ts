@@ -0,0 +1,80 @@
+import { GradeLevel, QuizQuestionKind, Subject } from '../types';
+
+// Mock-exam layout per subject: how long it takes and which sections it has, with the marks each
+// question carries. Modelled on the ministry's current papers (mostly multiple choice plus a few
+// written questions); totals follow the published mark distribution for each subject group.
+
+export interface ExamSectionBlueprint {
+  title: string;
+  kind: QuizQuestionKind;
+  count: number;
+  marksEach: number;
+}
+
+export interface ExamBlueprint {
+  durationMinutes: number;
+  sections: ExamSectionBlueprint[];
+}
+
+const SCIENCE_BLUEPRINT: ExamBlueprint = {
+  durationMinutes: 180,
+  sections: [
+    { title: 'أولاً: أسئلة الاختيار من متعدد', kind: 'mcq', count: 25, marksEach: 2 },
+    { title: 'ثانياً: الأسئلة المقالية', kind: 'essay', count: 5, marksEach: 2 },
+  ],
+};
+
+const LANGUAGE_BLUEPRINT: ExamBlueprint = {
+  durationMinutes: 180,
+  sections: [
+    { title: 'أولاً: أسئلة الاختيار من متعدد', kind: 'mcq', count: 20, marksEach: 2 },
+    { title: 'ثانياً: الأسئلة المقالية', kind: 'essay', count: 4, marksEach: 5 },
+  ],
+};
+
+const HUMANITIES_BLUEPRINT: ExamBlueprint = {
+  durationMinutes: 120,
+  sections: [
+    { title: 'أولاً: أسئلة الاختيار من متعدد', kind: 'mcq', count: 20, marksEach: 2 },
+    { title: 'ثانياً: الأسئلة المقالية', kind: 'essay', count: 5, marksEach: 4 },
+  ],
+};
+
+// Pass/fail subjects: shorter paper, not added to the total
+const NON_SCORING_BLUEPRINT: ExamBlueprint = {
+  durationMinutes: 60,
+  sections: [
+    { title: 'أولاً: أسئلة الاختيار من متعدد', kind: 'mcq', count: 10, marksEach: 1 },
+    { title: 'ثانياً: ضع علامة (✓) أو (✗)', kind: 'true_false', count: 5, marksEach: 1 },
+    { title: 'ثالثاً: سؤال مقالي', kind: 'essay', count: 1, marksEach: 5 },
+  ],
+};
+
+const BLUEPRINTS: Record<Subject, ExamBlueprint> = {
+  [Subject.ARABIC]: LANGUAGE_BLUEPRINT,
+  [Subject.ENGLISH]: LANGUAGE_BLUEPRINT,
+  [Subject.FRENCH]: LANGUAGE_BLUEPRINT,
+  [Subject.GERMAN]: LANGUAGE_BLUEPRINT,
+  [Subject.INTEGRATED_SCIENCES]: SCIENCE_BLUEPRINT,
+  [Subject.PHYSICS]: SCIENCE_BLUEPRINT,
+  [Subject.CHEMISTRY]: SCIENCE_BLUEPRINT,
+  [Subject.BIOLOGY]: SCIENCE_BLUEPRINT,
+  [Subject.GEOLOGY]: SCIENCE_BLUEPRINT,
+  [Subject.MATH]: SCIENCE_BLUEPRINT,
+  [Subject.HISTORY]: HUMANITIES_BLUEPRINT,
+  [Subject.GEOGRAPHY]: HUMANITIES_BLUEPRINT,
+  [Subject.PHILOSOPHY]: HUMANITIES_BLUEPRINT,
+  [Subject.PSYCHOLOGY]: HUMANITIES_BLUEPRINT,
+  [Subject.RELIGION]: NON_SCORING_BLUEPRINT,
+  [Subject.NATIONAL_EDUCATION]: NON_SCORING_BLUEPRINT,
+};
+
+// Grade 10 papers are school-level exams: same sections, half the time
+export const getExamBlueprint = (grade: GradeLevel, subject: Subject): ExamBlueprint => {
+  const blueprint = BLUEPRINTS[subject];
+  if (grade !== GradeLevel.GRADE_10) return blueprint;
+  return { ...blueprint, durationMinutes: Math.max(60, blueprint.durationMinutes / 2) };
+};
+
+export const getBlueprintTotal = (blueprint: ExamBlueprint): number =>
+  blueprint.sections.reduce((sum, section) => sum + section.count * section.marksEach, 0);
@@ -0,0 +1,29 @@
+// Subscription plans sold to students. Prices are in EGP; edit here, not in the components.
+
+export type PlanTier = 'monthly' | 'term' | 'annual' | 'bundle';
+
+export interface Plan {
+  id: PlanTier;
+  label: string;
+  days: number;
+  price: number;
+  // Bundle plans unlock every grade instead of a single one
+  allGrades?: boolean;
+}
+
+export const PLANS: Plan[] = [
+  { id: 'monthly', label: 'اشتراك شهري', days: 30, price: 300 },
+  { id: 'term', label: 'اشتراك ترم كامل', days: 120, price: 1000 },
+  { id: 'annual', label: 'اشتراك سنوي', days: 365, price: 2500 },
+  { id: 'bundle', label: 'باقة كل الصفوف (سنوي)', days: 365, price: 4000, allGrades: true },
+];
+
+export const DEFAULT_PLAN: PlanTier = 'monthly';
+
+export const getPlan = (id: PlanTier): Plan => {
+  return PLANS.find((plan) => plan.id === id) || PLANS[0];
+};
+
+export const isPlanTier = (value: unknown): value is PlanTier => {
+  return PLANS.some((plan) => plan.id === value);
+};
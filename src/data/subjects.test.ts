@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { CurriculumDocument, GradeLevel } from '../types';
+import { findSubjectRegistryIssues, getGradeTracks } from './subjects';
+import BUNDLED_CURRICULUM from './curriculum.json';
+
+describe('subject registry', () => {
+  it('matches the bundled curriculum', () => {
+    expect(findSubjectRegistryIssues(BUNDLED_CURRICULUM as CurriculumDocument)).toEqual([]);
+  });
+
+  it('reports a subject missing from the curriculum', () => {
+    const document = BUNDLED_CURRICULUM as CurriculumDocument;
+    const withoutFirst = { ...document, subjects: document.subjects.slice(1) };
+    const { grade, subject } = document.subjects[0];
+    expect(findSubjectRegistryIssues(withoutFirst)).toEqual([`${grade}: لا يوجد منهج لمادة ${subject}`]);
+  });
+
+  it('only splits grades 11 and 12 into tracks', () => {
+    expect(getGradeTracks(GradeLevel.GRADE_10)).toEqual([]);
+    expect(getGradeTracks(GradeLevel.GRADE_11).map((track) => track.id)).toEqual(['science', 'literary']);
+    expect(getGradeTracks(GradeLevel.GRADE_12).map((track) => track.id)).toEqual(['science', 'math', 'literary']);
+  });
+});
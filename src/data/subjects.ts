@@ -0,0 +1,147 @@
+import { Activity, Atom, BookOpen, BookType, BrainCircuit, Calculator, Dna, FlaskConical, Flag, Globe, Languages, LucideIcon, Microscope, Scale, ScrollText } from 'lucide-react';
+import { CurriculumDocument, GradeLevel, Subject } from '../types';
+
+// Which subjects each grade studies, split into tracks where the ministry splits students, and how
+// each subject is shown. The subject grid, the curriculum, videos and prompts all read from here;
+// edit here, not in the components. `findSubjectRegistryIssues` checks a curriculum against it.
+
+export type TrackId = 'science' | 'math' | 'literary';
+
+export interface Track {
+  id: TrackId;
+  label: string;
+  subjects: Subject[];
+}
+
+export interface GradeSubjects {
+  subjects: Subject[];
+  // Empty when every student of the grade studies the same subjects
+  tracks: Track[];
+}
+
+export interface SubjectInfo {
+  // A lucide icon, or a short text mark for the languages
+  icon: LucideIcon | string;
+  color: string;
+  // Added to YouTube searches for the lesson video
+  teacher?: string;
+}
+
+// Studied by every track
+const CORE_SUBJECTS = [Subject.ARABIC, Subject.ENGLISH, Subject.FRENCH, Subject.GERMAN];
+
+export const GRADE_SUBJECTS: Record<GradeLevel, GradeSubjects> = {
+  [GradeLevel.GRADE_10]: {
+    subjects: [
+      Subject.ARABIC,
+      Subject.ENGLISH,
+      Subject.MATH,
+      Subject.INTEGRATED_SCIENCES,
+      Subject.HISTORY,
+      Subject.PHILOSOPHY,
+      Subject.FRENCH,
+      Subject.GERMAN,
+      Subject.RELIGION,
+      Subject.NATIONAL_EDUCATION,
+    ],
+    tracks: [],
+  },
+  [GradeLevel.GRADE_11]: {
+    subjects: [
+      Subject.ARABIC,
+      Subject.ENGLISH,
+      Subject.MATH,
+      Subject.PHYSICS,
+      Subject.CHEMISTRY,
+      Subject.BIOLOGY,
+      Subject.HISTORY,
+      Subject.GEOGRAPHY,
+      Subject.PHILOSOPHY,
+      Subject.PSYCHOLOGY,
+      Subject.FRENCH,
+      Subject.GERMAN,
+    ],
+    tracks: [
+      { id: 'science', label: 'علمي', subjects: [...CORE_SUBJECTS, Subject.MATH, Subject.PHYSICS, Subject.CHEMISTRY, Subject.BIOLOGY] },
+      { id: 'literary', label: 'أدبي', subjects: [...CORE_SUBJECTS, Subject.MATH, Subject.HISTORY, Subject.GEOGRAPHY, Subject.PHILOSOPHY, Subject.PSYCHOLOGY] },
+    ],
+  },
+  [GradeLevel.GRADE_12]: {
+    subjects: [
+      Subject.ARABIC,
+      Subject.ENGLISH,
+      Subject.MATH,
+      Subject.PHYSICS,
+      Subject.CHEMISTRY,
+      Subject.BIOLOGY,
+      Subject.GEOLOGY,
+      Subject.HISTORY,
+      Subject.GEOGRAPHY,
+      Subject.PHILOSOPHY,
+      Subject.PSYCHOLOGY,
+      Subject.FRENCH,
+      Subject.GERMAN,
+    ],
+    tracks: [
+      { id: 'science', label: 'علمي علوم', subjects: [...CORE_SUBJECTS, Subject.PHYSICS, Subject.CHEMISTRY, Subject.BIOLOGY, Subject.GEOLOGY] },
+      { id: 'math', label: 'علمي رياضة', subjects: [...CORE_SUBJECTS, Subject.MATH, Subject.PHYSICS, Subject.CHEMISTRY] },
+      { id: 'literary', label: 'أدبي', subjects: [...CORE_SUBJECTS, Subject.HISTORY, Subject.GEOGRAPHY, Subject.PHILOSOPHY, Subject.PSYCHOLOGY] },
+    ],
+  },
+};
+
+export const SUBJECT_INFO: Record<Subject, SubjectInfo> = {
+  [Subject.ARABIC]: { icon: BookType, color: 'text-emerald-600', teacher: 'رضا الفاروق' },
+  [Subject.ENGLISH]: { icon: Languages, color: 'text-blue-600', teacher: 'مستر انجليزي' },
+  [Subject.FRENCH]: { icon: 'Fr', color: 'text-indigo-600', teacher: 'مسيو فرنسي' },
+  [Subject.GERMAN]: { icon: 'De', color: 'text-amber-600', teacher: 'هير ألماني' },
+  [Subject.INTEGRATED_SCIENCES]: { icon: Dna, color: 'text-teal-600' },
+  [Subject.PHYSICS]: { icon: Atom, color: 'text-violet-600', teacher: 'محمود مجدي' },
+  [Subject.CHEMISTRY]: { icon: FlaskConical, color: 'text-pink-600', teacher: 'خالد صقر' },
+  [Subject.BIOLOGY]: { icon: Microscope, color: 'text-green-600', teacher: 'محمد صالح' },
+  [Subject.MATH]: { icon: Calculator, color: 'text-red-600', teacher: 'أحمد عصام' },
+  [Subject.HISTORY]: { icon: BookOpen, color: 'text-amber-700', teacher: 'بسطتهالك' },
+  [Subject.GEOGRAPHY]: { icon: Globe, color: 'text-cyan-600', teacher: 'القيصر' },
+  [Subject.PHILOSOPHY]: { icon: Scale, color: 'text-teal-700', teacher: 'الخطة' },
+  [Subject.PSYCHOLOGY]: { icon: BrainCircuit, color: 'text-fuchsia-600', teacher: 'الخطة' },
+  [Subject.GEOLOGY]: { icon: Activity, color: 'text-orange-600', teacher: 'ماجد إمام' },
+  [Subject.RELIGION]: { icon: ScrollText, color: 'text-emerald-800' },
+  [Subject.NATIONAL_EDUCATION]: { icon: Flag, color: 'text-red-800' },
+};
+
+export const getGradeSubjects = (grade: GradeLevel): Subject[] => GRADE_SUBJECTS[grade]?.subjects || [];
+
+export const getGradeTracks = (grade: GradeLevel): Track[] => GRADE_SUBJECTS[grade]?.tracks || [];
+
+export const getTrack = (grade: GradeLevel, id: TrackId | null | undefined): Track | null =>
+  getGradeTracks(grade).find((track) => track.id === id) || null;
+
+// The grade's subjects a track studies, in the grade's order; all of them when no track is chosen
+export const getTrackSubjects = (grade: GradeLevel, id: TrackId | null | undefined): Subject[] => {
+  const track = getTrack(grade, id);
+  return track ? getGradeSubjects(grade).filter((subject) => track.subjects.includes(subject)) : getGradeSubjects(grade);
+};
+
+export const getSubjectInfo = (subject: Subject): SubjectInfo => SUBJECT_INFO[subject];
+
+// Mismatches between the registry and a curriculum document; empty when they agree
+export const findSubjectRegistryIssues = (document: CurriculumDocument): string[] => {
+  const issues: string[] = [];
+  const inDocument = new Set(document.subjects.map(({ grade, subject }) => `${grade}|${subject}`));
+
+  (Object.keys(GRADE_SUBJECTS) as GradeLevel[]).forEach((grade) => {
+    const { subjects, tracks } = GRADE_SUBJECTS[grade];
+    subjects
+      .filter((subject) => !inDocument.has(`${grade}|${subject}`))
+      .forEach((subject) => issues.push(`${grade}: لا يوجد منهج لمادة ${subject}`));
+    tracks.forEach((track) => track.subjects
+      .filter((subject) => !subjects.includes(subject))
+      .forEach((subject) => issues.push(`${grade}: مادة ${subject} في شعبة ${track.label} وليست من مواد الصف`)));
+  });
+
+  document.subjects
+    .filter(({ grade, subject }) => !getGradeSubjects(grade).includes(subject))
+    .forEach(({ grade, subject }) => issues.push(`${grade}: منهج ${subject} لمادة غير مقررة على هذا الصف`));
+
+  return issues;
+};
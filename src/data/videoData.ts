@@ -1,29 +1,6 @@
 
-import { Subject, GradeLevel } from '../types';
-
-// 1. Default Teachers Mapping (One per subject)
-export const DEFAULT_TEACHERS: Partial<Record<Subject, string>> = {
-  [Subject.ARABIC]: "رضا الفاروق",
-  [Subject.ENGLISH]: "مستر انجليزي",
-  [Subject.FRENCH]: "مسيو فرنسي",
-  [Subject.GERMAN]: "هير ألماني",
-  [Subject.PHYSICS]: "محمود مجدي",
-  [Subject.CHEMISTRY]: "خالد صقر",
-  [Subject.BIOLOGY]: "محمد صالح",
-  [Subject.MATH]: "أحمد عصام",
-  [Subject.HISTORY]: "بسطتهالك",
-  [Subject.GEOGRAPHY]: "القيصر",
-  [Subject.PHILOSOPHY]: "الخطة",
-  [Subject.PSYCHOLOGY]: "الخطة",
-  [Subject.GEOLOGY]: "ماجد إمام",
-  // Add others as needed
-};
-
-// 2. Specific Video IDs (Optional - for direct embedding)
-// Format: "Lesson Title": "YouTubeVideoID"
-export const DIRECT_VIDEO_IDS: Record<string, string> = {
-  // Example: "مقدمة في الفيزياء": "dQw4w9WgXcQ", 
-};
+import { Subject, GradeLevel, CurriculumLesson } from '../types';
+import { getSubjectInfo } from './subjects';
 
 export interface VideoResult {
   type: 'embed' | 'search';
@@ -32,15 +9,17 @@ export interface VideoResult {
   query: string;
 }
 
-// 3. Helper to generate the video action
-export const getVideoForLesson = (grade: GradeLevel, subject: Subject, lessonTitle: string): VideoResult => {
-  const teacher = DEFAULT_TEACHERS[subject] || "أفضل مدرس";
+// Helper to generate the video action
+// Lessons with a videoId (set in the curriculum editor) embed it; the rest open a YouTube search
+export const getVideoForLesson = (grade: GradeLevel, subject: Subject, lesson: CurriculumLesson): VideoResult => {
+  const teacher = getSubjectInfo(subject).teacher || "أفضل مدرس";
+  const lessonTitle = lesson.title;
   
   // Check for direct ID first
-  if (DIRECT_VIDEO_IDS[lessonTitle]) {
+  if (lesson.videoId) {
     return {
       type: 'embed',
-      url: `https://www.youtube.com/embed/${DIRECT_VIDEO_IDS[lessonTitle]}`,
+      url: `https://www.youtube.com/embed/${lesson.videoId}`,
       teacher,
       query: lessonTitle
     };
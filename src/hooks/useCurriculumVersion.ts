@@ -0,0 +1,11 @@
+import { useState, useEffect } from 'react';
+import { getCurriculumDocument, subscribeToCurriculum } from '../data/curriculum';
+
+// Version of the curriculum in use; components reading the curriculum re-render when it changes.
+export const useCurriculumVersion = () => {
+  const [version, setVersion] = useState(() => getCurriculumDocument().version);
+
+  useEffect(() => subscribeToCurriculum(() => setVersion(getCurriculumDocument().version)), []);
+
+  return version;
+};
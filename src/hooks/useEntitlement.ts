@@ -0,0 +1,25 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GradeLevel } from '../types';
+import { EntitlementEvent, EntitlementService, entitlementService } from '../services/entitlementService';
+
+// Live trial / subscription state for a grade. Re-renders on every clock tick while mounted.
+export const useEntitlement = (
+  grade: GradeLevel | null,
+  onEvent?: (event: EntitlementEvent) => void,
+  service: EntitlementService = entitlementService
+) => {
+  const [snapshot, setSnapshot] = useState(() => service.getSnapshot(grade));
+
+  useEffect(() => {
+    setSnapshot(service.getSnapshot(grade));
+    return service.subscribe((event) => {
+      setSnapshot(service.getSnapshot(grade));
+      onEvent?.(event);
+    });
+  }, [service, grade, onEvent]);
+
+  const activate = useCallback((token: string) => service.activate(token), [service]);
+  const refresh = useCallback(() => service.refresh(), [service]);
+
+  return { ...snapshot, activate, refresh };
+};
@@ -0,0 +1,77 @@
+import { apiUrl, postJson } from '../utils/api';
+
+// Admin sign-in against the backend (/api/admin/*). The session token lives in sessionStorage,
+// so closing the tab signs out; the server also expires it on its own.
+
+const SESSION_STORAGE = 'admin_session';
+
+export type AdminRole = 'owner' | 'staff' | 'viewer';
+
+export interface AdminSession {
+  token: string;
+  username: string;
+  role: AdminRole;
+  expiresAt: string;
+}
+
+export type AdminLoginResult =
+  | { ok: true; session: AdminSession }
+  | { ok: false; reason: 'invalid' | 'locked' | 'network' };
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'مالك',
+  staff: 'مسؤول',
+  viewer: 'مشاهد',
+};
+
+const isExpired = (session: AdminSession) => Date.parse(session.expiresAt) <= Date.now();
+
+export const getStoredAdminSession = (): AdminSession | null => {
+  try {
+    const session: AdminSession | null = JSON.parse(sessionStorage.getItem(SESSION_STORAGE) || 'null');
+    if (!session || isExpired(session)) {
+      sessionStorage.removeItem(SESSION_STORAGE);
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+export const getAdminAuthHeaders = (session: AdminSession | null): Record<string, string> => {
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+};
+
+export const loginAdmin = async (username: string, password: string): Promise<AdminLoginResult> => {
+  try {
+    const response = await postJson('/api/admin/login', { username, password });
+    if (response.status === 429) return { ok: false, reason: 'locked' };
+    if (!response.ok) return { ok: false, reason: response.status === 401 || response.status === 400 ? 'invalid' : 'network' };
+
+    const session: AdminSession = await response.json();
+    sessionStorage.setItem(SESSION_STORAGE, JSON.stringify(session));
+    return { ok: true, session };
+  } catch (error) {
+    console.error("Admin login failed:", error);
+    return { ok: false, reason: 'network' };
+  }
+};
+
+// Confirms a stored session is still known to the server (it forgets sessions on restart)
+export const verifyAdminSession = async (session: AdminSession): Promise<boolean> => {
+  try {
+    const response = await fetch(apiUrl('/api/admin/me'), { headers: getAdminAuthHeaders(session) });
+    if (response.status === 401) sessionStorage.removeItem(SESSION_STORAGE);
+    return response.ok;
+  } catch {
+    // Offline: keep the session until it expires rather than locking the admin out
+    return true;
+  }
+};
+
+export const logoutAdmin = async (session: AdminSession | null) => {
+  sessionStorage.removeItem(SESSION_STORAGE);
+  if (!session) return;
+  await postJson('/api/admin/logout', {}, { headers: getAdminAuthHeaders(session) }).catch(() => undefined);
+};
@@ -0,0 +1,39 @@
+import { AnalyticsEvent, GradeLevel, Subject } from "../types";
+import { STORES, idbGetAll, idbPut } from "../utils/db";
+
+// Activity log kept on this device; the dashboard computes everything from it (see utils/analytics.ts).
+
+// Omit applied to each event shape separately so the union stays intact
+type WithoutMeta<E> = E extends unknown ? Omit<E, 'id' | 'at'> : never;
+export type NewAnalyticsEvent = WithoutMeta<AnalyticsEvent>;
+
+// Shorter stretches are page flicks, longer ones a chat left open on screen
+const MIN_STUDY_MS = 10 * 1000;
+const MAX_STUDY_MS = 45 * 60 * 1000;
+
+export const logEvent = async (event: NewAnalyticsEvent): Promise<void> => {
+  try {
+    const now = new Date();
+    await idbPut(STORES.ANALYTICS, {
+      ...event,
+      id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      at: now,
+    });
+  } catch (error) {
+    console.error("Failed to log analytics event:", error);
+  }
+};
+
+export const recordStudyTime = async (grade: GradeLevel, subject: Subject, durationMs: number): Promise<void> => {
+  if (durationMs < MIN_STUDY_MS) return;
+  await logEvent({ type: 'study_time', grade, subject, durationMs: Math.min(durationMs, MAX_STUDY_MS) });
+};
+
+export const listAnalyticsEvents = async (grade: GradeLevel): Promise<AnalyticsEvent[]> => {
+  try {
+    return await idbGetAll<AnalyticsEvent>(STORES.ANALYTICS, 'grade', grade);
+  } catch (error) {
+    console.error("Failed to load analytics events:", error);
+    return [];
+  }
+};
@@ -0,0 +1,85 @@
+import { ChatSession, Conversation, Message, Sender } from "../types";
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from "../utils/db";
+
+// Stored shape: the conversation plus a flat key for the grade/subject index
+interface StoredConversation extends Conversation {
+  sessionKey: string;
+}
+
+const DEFAULT_TITLE = 'محادثة جديدة';
+
+export const getSessionKey = (session: ChatSession): string => `${session.grade}|${session.subject}`;
+
+// Build a title from the first question the student asked
+export const deriveTitle = (messages: Message[]): string => {
+  const firstQuestion = messages.find((msg) => msg.sender === Sender.USER);
+  if (!firstQuestion) return DEFAULT_TITLE;
+  const text = firstQuestion.text.replace(/\s+/g, ' ').trim();
+  return text.length > 40 ? text.substring(0, 40) + '...' : text;
+};
+
+export const createConversation = (session: ChatSession, messages: Message[]): Conversation => {
+  const now = new Date();
+  return {
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    grade: session.grade,
+    subject: session.subject,
+    title: DEFAULT_TITLE,
+    messages,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Newest first
+export const listConversations = async (session: ChatSession): Promise<Conversation[]> => {
+  try {
+    const stored = await idbGetAll<StoredConversation>(STORES.CONVERSATIONS, 'sessionKey', getSessionKey(session));
+    return stored
+      .map(({ sessionKey, ...conversation }) => conversation)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  } catch (error) {
+    console.error("Failed to load conversations:", error);
+    return [];
+  }
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<Conversation> => {
+  const saved: Conversation = {
+    ...conversation,
+    // Never persist a half-streamed flag, the stream does not survive a reload
+    messages: conversation.messages.map(({ isStreaming, ...msg }) => msg),
+    title: conversation.title === DEFAULT_TITLE ? deriveTitle(conversation.messages) : conversation.title,
+    updatedAt: new Date(),
+  };
+
+  try {
+    await idbPut<StoredConversation>(STORES.CONVERSATIONS, { ...saved, sessionKey: getSessionKey(saved) });
+  } catch (error) {
+    console.error("Failed to save conversation:", error);
+  }
+  return saved;
+};
+
+// False when the change could not be stored
+export const renameConversation = async (id: string, title: string): Promise<boolean> => {
+  try {
+    const stored = await idbGet<StoredConversation>(STORES.CONVERSATIONS, id);
+    if (!stored || !title.trim()) return true;
+    await idbPut<StoredConversation>(STORES.CONVERSATIONS, { ...stored, title: title.trim() });
+    return true;
+  } catch (error) {
+    console.error("Failed to rename conversation:", error);
+    return false;
+  }
+};
+
+export const deleteConversation = async (id: string): Promise<boolean> => {
+  try {
+    await idbDelete(STORES.CONVERSATIONS, id);
+    return true;
+  } catch (error) {
+    console.error("Failed to delete conversation:", error);
+    return false;
+  }
+};
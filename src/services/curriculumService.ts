@@ -0,0 +1,107 @@
+import { CurriculumDocument } from '../types';
+import { apiUrl, postJson } from '../utils/api';
+import { STORES, idbGet, idbSet } from '../utils/db';
+import { validateCurriculumDocument } from '../utils/curriculumSchema';
+import { applyCurriculumDocument, getCurriculumDocument } from '../data/curriculum';
+import { AdminSession, getAdminAuthHeaders } from './adminAuthService';
+
+// Keeps the device on the latest published curriculum. The last one downloaded is cached so it
+// applies offline from the next start; anything that fails validation is ignored.
+
+const CACHE_KEY = 'curriculum_document';
+
+export interface CurriculumRelease {
+  version: number;
+  publishedAt: string;
+  publishedBy: string;
+  note: string;
+}
+
+export type PublishCurriculumResult =
+  | { ok: true; version: number }
+  | { ok: false; reason: 'conflict' | 'invalid' | 'network'; details?: string[] };
+
+const loadCachedCurriculum = async () => {
+  try {
+    const cached = await idbGet<unknown>(STORES.KEYVAL, CACHE_KEY);
+    if (!cached) return;
+    const result = validateCurriculumDocument(cached);
+    if (result.ok) applyCurriculumDocument(result.document);
+  } catch (error) {
+    console.error("Failed to load cached curriculum:", error);
+  }
+};
+
+// Resolves true when a newer version was applied
+export const syncCurriculum = async (): Promise<boolean> => {
+  await loadCachedCurriculum();
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return false;
+
+  try {
+    const response = await fetch(apiUrl('/api/curriculum'), {
+      headers: { 'If-None-Match': `"v${getCurriculumDocument().version}"` },
+    });
+    // 304: up to date, 404: nothing published yet
+    if (response.status !== 200) return false;
+
+    const { document } = await response.json();
+    const result = validateCurriculumDocument(document);
+    if (!result.ok) {
+      console.error("Published curriculum failed validation:", result.errors);
+      return false;
+    }
+    if (!applyCurriculumDocument(result.document)) return false;
+    await idbSet(STORES.KEYVAL, CACHE_KEY, result.document);
+    return true;
+  } catch (error) {
+    console.error("Failed to sync curriculum:", error);
+    return false;
+  }
+};
+
+// --- Admin editor ---
+
+// Latest published document, or the one this build carries when nothing was published yet
+export const fetchLatestCurriculum = async (): Promise<CurriculumDocument> => {
+  try {
+    const response = await fetch(apiUrl('/api/curriculum'));
+    if (response.ok) {
+      const result = validateCurriculumDocument((await response.json()).document);
+      if (result.ok && result.document.version >= getCurriculumDocument().version) return result.document;
+    }
+  } catch (error) {
+    console.error("Failed to fetch curriculum:", error);
+  }
+  return getCurriculumDocument();
+};
+
+export const listCurriculumReleases = async (session: AdminSession | null): Promise<CurriculumRelease[]> => {
+  try {
+    const response = await fetch(apiUrl('/api/curriculum/releases'), { headers: getAdminAuthHeaders(session) });
+    if (!response.ok) return [];
+    return (await response.json()).releases || [];
+  } catch (error) {
+    console.error("Failed to list curriculum releases:", error);
+    return [];
+  }
+};
+
+export const publishCurriculum = async (
+  session: AdminSession | null,
+  document: CurriculumDocument,
+  note: string
+): Promise<PublishCurriculumResult> => {
+  try {
+    const response = await postJson('/api/curriculum', { document, baseVersion: document.version, note }, { headers: getAdminAuthHeaders(session) });
+    if (response.status === 409) return { ok: false, reason: 'conflict' };
+    if (response.status === 400) {
+      const body = await response.json().catch(() => ({}));
+      return { ok: false, reason: 'invalid', details: body.error?.details };
+    }
+    if (!response.ok) return { ok: false, reason: 'network' };
+    return { ok: true, version: (await response.json()).version };
+  } catch (error) {
+    console.error("Failed to publish curriculum:", error);
+    return { ok: false, reason: 'network' };
+  }
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { GradeLevel } from '../types';
+import { LicensePayload, LicenseVerification } from '../utils/license';
+import { EntitlementState, TRIAL_DAYS } from '../utils/entitlementStore';
+import { EntitlementEvent, createEntitlementService } from './entitlementService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2026-01-10T08:00:00Z').getTime();
+
+const makeState = (overrides: Partial<EntitlementState> = {}): EntitlementState => ({
+  deviceId: 'APP-TEST-0001',
+  trialStartedAt: new Date(START),
+  licenses: [],
+  revokedLicenses: [],
+  transferredLicenses: [],
+  legacyGrants: {},
+  tampered: false,
+  clockRollback: false,
+  ...overrides,
+});
+
+const makeLicense = (overrides: Partial<LicensePayload> = {}): LicensePayload => ({
+  id: 'license-0001',
+  deviceId: 'APP-TEST-0001',
+  grade: 'GRADE_12',
+  days: 30,
+  plan: 'monthly',
+  issuedAt: new Date(START + 2 * DAY_MS),
+  ...overrides,
+});
+
+// A service on a fake clock: `setTime` moves it, `state` is what the next load returns
+const setup = (initial: EntitlementState = makeState()) => {
+  let time = START;
+  let state = initial;
+  let activation: LicenseVerification = { valid: false, reason: 'signature' };
+  const events: EntitlementEvent[] = [];
+
+  const service = createEntitlementService({
+    now: () => new Date(time),
+    load: async () => state,
+    activate: async () => activation,
+    syncRevocations: async () => false,
+    tickMs: 0,
+  });
+  service.subscribe((event) => events.push(event));
+
+  return {
+    service,
+    events,
+    setTime: (ms: number) => { time = ms; },
+    setState: (next: EntitlementState) => { state = next; },
+    setActivation: (result: LicenseVerification) => { activation = result; },
+  };
+};
+
+describe('entitlementService', () => {
+  it('starts the trial on first load', async () => {
+    const { service } = setup();
+    await service.refresh();
+
+    const snapshot = service.getSnapshot(GradeLevel.GRADE_12);
+    expect(snapshot.status).toBe('trial');
+    expect(snapshot.isTrialActive).toBe(true);
+    expect(snapshot.isLocked).toBe(false);
+    expect(snapshot.trialDaysLeft).toBe(TRIAL_DAYS);
+    expect(snapshot.trialEndsAt).toEqual(new Date(START + TRIAL_DAYS * DAY_MS));
+  });
+
+  it('ends the trial exactly at the boundary and reports it once', async () => {
+    const { service, events, setTime } = setup();
+    await service.refresh();
+    const trialEnd = START + TRIAL_DAYS * DAY_MS;
+
+    setTime(trialEnd - 1000);
+    service.tick();
+    let snapshot = service.getSnapshot(GradeLevel.GRADE_12);
+    expect(snapshot.status).toBe('trial');
+    expect(snapshot.trialDaysLeft).toBe(1);
+    expect(snapshot.trialTimeLeft).toEqual({ days: 0, hours: 0, minutes: 0, seconds: 1 });
+
+    setTime(trialEnd);
+    service.tick();
+    snapshot = service.getSnapshot(GradeLevel.GRADE_12);
+    expect(snapshot.status).toBe('trial_ended');
+    expect(snapshot.isLocked).toBe(true);
+    expect(snapshot.isTrialActive).toBe(false);
+    expect(snapshot.trialDaysLeft).toBe(0);
+
+    setTime(trialEnd + 1000);
+    service.tick();
+    expect(events.filter((event) => event.type === 'trial_expired')).toHaveLength(1);
+  });
+
+  it('locks the app when the clock was set back, even inside the trial', async () => {
+    const { service, events, setTime, setState } = setup();
+    await service.refresh();
+
+    setTime(START + DAY_MS);
+    setState(makeState({ clockRollback: true }));
+    await service.refresh();
+
+    const snapshot = service.getSnapshot(GradeLevel.GRADE_12);
+    expect(snapshot.status).toBe('clock_rollback');
+    expect(snapshot.isLocked).toBe(true);
+    expect(snapshot.isTrialActive).toBe(false);
+    expect(events.some((event) => event.type === 'trial_expired')).toBe(true);
+  });
+
+  it('unlocks the licensed grade after activation, until the code runs out', async () => {
+    const { service, events, setTime, setState, setActivation } = setup();
+    await service.refresh();
+    const license = makeLicense();
+
+    setTime(START + TRIAL_DAYS * DAY_MS + DAY_MS);
+    service.tick();
+    expect(service.getSnapshot(GradeLevel.GRADE_12).isLocked).toBe(true);
+
+    setActivation({ valid: true, license });
+    setState(makeState({ licenses: [license] }));
+    const result = await service.activate('signed-token');
+
+    expect(result.valid).toBe(true);
+    expect(events.some((event) => event.type === 'activated' && event.license.id === license.id)).toBe(true);
+
+    const subscriptionEnd = new Date(license.issuedAt.getTime() + license.days * DAY_MS);
+    const snapshot = service.getSnapshot(GradeLevel.GRADE_12);
+    expect(snapshot.status).toBe('subscribed');
+    expect(snapshot.isLocked).toBe(false);
+    expect(snapshot.subscriptionEndsAt).toEqual(subscriptionEnd);
+    // Other grades are not covered by a single-grade code
+    expect(service.getSnapshot(GradeLevel.GRADE_10).status).toBe('trial_ended');
+
+    setTime(subscriptionEnd.getTime());
+    expect(service.getSnapshot(GradeLevel.GRADE_12).status).toBe('subscription_ended');
+  });
+
+  it('keeps the state unchanged when a code is refused', async () => {
+    const { service, events } = setup();
+    await service.refresh();
+
+    const result = await service.activate('forged-token');
+
+    expect(result).toEqual({ valid: false, reason: 'signature' });
+    expect(events.some((event) => event.type === 'activated')).toBe(false);
+    expect(service.getSnapshot(GradeLevel.GRADE_12).status).toBe('trial');
+  });
+});
@@ -0,0 +1,205 @@
+import { GradeLevel } from '../types';
+import { LicensePayload, LicenseVerification } from '../utils/license';
+import { EntitlementState, EntitlementStatus, loadEntitlement, activateLicense, evaluateEntitlement } from '../utils/entitlementStore';
+import { syncRevocations } from './revocationService';
+
+// One place that answers "can this student use this grade right now, and for how long?".
+// The rules live in the entitlement store; this service keeps the loaded state, ticks a
+// clock while someone is listening and tells listeners when anything changes. Revocations are
+// pulled from the server on start and whenever the device comes back online.
+// The clock and loader are injectable so the rules can be exercised with a fake clock.
+
+const TICK_MS = 1000;
+
+export interface TimeLeft {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+export interface EntitlementSnapshot {
+  ready: boolean;
+  deviceId: string;
+  status: EntitlementStatus | null;
+  isLocked: boolean;
+  isSubscribed: boolean;
+  isTrialActive: boolean;
+  trialEndsAt: Date | null;
+  subscriptionEndsAt: Date | null;
+  trialTimeLeft: TimeLeft;
+  // Whole days, rounded up, as shown to students ("متبقي 3 أيام")
+  trialDaysLeft: number;
+}
+
+export type EntitlementEvent =
+  | { type: 'loaded'; state: EntitlementState }
+  | { type: 'tick'; now: Date }
+  | { type: 'activated'; license: LicensePayload }
+  | { type: 'trial_expired' };
+
+export type EntitlementListener = (event: EntitlementEvent) => void;
+
+export interface EntitlementServiceOptions {
+  now?: () => Date;
+  load?: (now: Date) => Promise<EntitlementState>;
+  activate?: (token: string, now: Date) => Promise<LicenseVerification>;
+  // Resolves true when a stored code was revoked
+  syncRevocations?: () => Promise<boolean>;
+  // Pass 0 to drive ticks manually (tests)
+  tickMs?: number;
+}
+
+export const splitDuration = (ms: number): TimeLeft => {
+  const clamped = Math.max(0, ms);
+  return {
+    days: Math.floor(clamped / (1000 * 60 * 60 * 24)),
+    hours: Math.floor((clamped % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60)),
+    minutes: Math.floor((clamped % (1000 * 60 * 60)) / (1000 * 60)),
+    seconds: Math.floor((clamped % (1000 * 60)) / 1000),
+  };
+};
+
+// A tampered record or a rewound clock never counts as an active trial, even if the dates say so
+const isTrialRunning = (state: EntitlementState, trialEndsAt: Date, now: Date) => {
+  return !state.tampered && !state.clockRollback && now < trialEndsAt;
+};
+
+export const getEntitlementSnapshot = (state: EntitlementState | null, grade: GradeLevel | null, now: Date): EntitlementSnapshot => {
+  if (!state) {
+    return {
+      ready: false,
+      deviceId: '',
+      status: null,
+      isLocked: false,
+      isSubscribed: false,
+      isTrialActive: false,
+      trialEndsAt: null,
+      subscriptionEndsAt: null,
+      trialTimeLeft: splitDuration(0),
+      trialDaysLeft: 0,
+    };
+  }
+
+  const { status, isLocked, trialEndsAt, subscriptionEndsAt } = evaluateEntitlement(state, grade, now);
+  const isTrialActive = isTrialRunning(state, trialEndsAt, now);
+  const remaining = isTrialActive ? trialEndsAt.getTime() - now.getTime() : 0;
+
+  return {
+    ready: true,
+    deviceId: state.deviceId,
+    status,
+    // Without a grade (home screen) there is nothing to lock yet
+    isLocked: grade ? isLocked : false,
+    isSubscribed: status === 'subscribed',
+    isTrialActive,
+    trialEndsAt,
+    subscriptionEndsAt,
+    trialTimeLeft: splitDuration(remaining),
+    trialDaysLeft: Math.ceil(remaining / (1000 * 60 * 60 * 24)),
+  };
+};
+
+export const createEntitlementService = (options: EntitlementServiceOptions = {}) => {
+  const now = options.now || (() => new Date());
+  const load = options.load || loadEntitlement;
+  const activate = options.activate || activateLicense;
+  const sync = options.syncRevocations || syncRevocations;
+  const tickMs = options.tickMs ?? TICK_MS;
+
+  const listeners = new Set<EntitlementListener>();
+  let state: EntitlementState | null = null;
+  let loading: Promise<EntitlementState> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let wasTrialActive = false;
+
+  const emit = (event: EntitlementEvent) => {
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const trackTrial = (current: Date) => {
+    if (!state) return;
+    const isActive = isTrialRunning(state, evaluateEntitlement(state, null, current).trialEndsAt, current);
+    if (wasTrialActive && !isActive) emit({ type: 'trial_expired' });
+    wasTrialActive = isActive;
+  };
+
+  const tick = () => {
+    const current = now();
+    trackTrial(current);
+    emit({ type: 'tick', now: current });
+  };
+
+  const refresh = (): Promise<EntitlementState> => {
+    if (loading) return loading;
+    loading = load(now())
+      .then((loaded) => {
+        state = loaded;
+        trackTrial(now());
+        emit({ type: 'loaded', state: loaded });
+        return loaded;
+      })
+      .finally(() => {
+        loading = null;
+      });
+    return loading;
+  };
+
+  const checkRevocations = async () => {
+    if (await sync()) await refresh();
+  };
+
+  const handleOnline = () => {
+    checkRevocations().catch((error) => console.error("Revocation check failed:", error));
+  };
+
+  const startTicking = () => {
+    if (timer || tickMs <= 0) return;
+    timer = setInterval(tick, tickMs);
+    window.addEventListener('online', handleOnline);
+  };
+
+  const stopTicking = () => {
+    if (!timer) return;
+    clearInterval(timer);
+    timer = null;
+    window.removeEventListener('online', handleOnline);
+  };
+
+  return {
+    getState: () => state,
+    getSnapshot: (grade: GradeLevel | null) => getEntitlementSnapshot(state, grade, now()),
+
+    // The first listener loads the record (which also starts the trial) and starts the clock
+    subscribe: (listener: EntitlementListener) => {
+      listeners.add(listener);
+      if (!state && !loading) {
+        refresh()
+          .then(checkRevocations)
+          .catch((error) => console.error("Failed to load entitlement:", error));
+      }
+      startTicking();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) stopTicking();
+      };
+    },
+
+    refresh,
+    tick,
+    checkRevocations,
+
+    activate: async (token: string): Promise<LicenseVerification> => {
+      const result = await activate(token, now());
+      if (result.valid) {
+        await refresh();
+        emit({ type: 'activated', license: result.license });
+      }
+      return result;
+    },
+  };
+};
+
+export type EntitlementService = ReturnType<typeof createEntitlementService>;
+
+export const entitlementService = createEntitlementService();
@@ -0,0 +1,97 @@
+import { Flashcard, FlashcardSource, GradeLevel, Subject } from "../types";
+import { STORES, idbDelete, idbGetAll, idbPut } from "../utils/db";
+import { resolveLegacyLessonId } from "../data/curriculum";
+import { createSm2State, isDue, scheduleReview, RATING_QUALITY, ReviewRating } from "../utils/sm2";
+
+// Flashcards stored on this device, scheduled with SM-2.
+
+export interface NewFlashcard {
+  grade: GradeLevel;
+  subject: Subject;
+  front: string;
+  back: string;
+  source: FlashcardSource;
+  lessonId?: string;
+  lesson?: string;
+}
+
+const normalizeFront = (front: string) => front.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Lesson cards saved before lessons had ids only name the lesson; they are given its id once
+const migrateLessonCards = async (cards: Flashcard[]): Promise<Flashcard[]> => {
+  const migrated: Flashcard[] = [];
+  for (const card of cards) {
+    if (!card.lesson || card.lessonId) {
+      migrated.push(card);
+      continue;
+    }
+    const updated = { ...card, lessonId: resolveLegacyLessonId(card.grade, card.subject, card.lesson) };
+    await idbPut(STORES.FLASHCARDS, updated);
+    migrated.push(updated);
+  }
+  return migrated;
+};
+
+export const listFlashcards = async (grade: GradeLevel): Promise<Flashcard[]> => {
+  try {
+    return await migrateLessonCards(await idbGetAll<Flashcard>(STORES.FLASHCARDS, 'grade', grade));
+  } catch (error) {
+    console.error("Failed to load flashcards:", error);
+    return [];
+  }
+};
+
+// Oldest due first, so a backlog is cleared in the order it built up
+export const getDueFlashcards = async (grade: GradeLevel, subject?: Subject, now: Date = new Date()): Promise<Flashcard[]> => {
+  return (await listFlashcards(grade))
+    .filter((card) => (!subject || card.subject === subject) && isDue(card, now))
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+};
+
+export const countDueBySubject = async (grade: GradeLevel, now: Date = new Date()): Promise<Partial<Record<Subject, number>>> => {
+  const counts: Partial<Record<Subject, number>> = {};
+  (await getDueFlashcards(grade, undefined, now)).forEach((card) => {
+    counts[card.subject] = (counts[card.subject] || 0) + 1;
+  });
+  return counts;
+};
+
+// Skips cards whose front already exists for the same subject; returns the ones actually added
+export const addFlashcards = async (cards: NewFlashcard[], now: Date = new Date()): Promise<Flashcard[]> => {
+  if (cards.length === 0) return [];
+  const existing = await listFlashcards(cards[0].grade);
+  const seen = new Set(existing.map((card) => `${card.subject}|${normalizeFront(card.front)}`));
+  const added: Flashcard[] = [];
+
+  for (const input of cards) {
+    const key = `${input.subject}|${normalizeFront(input.front)}`;
+    if (!input.front.trim() || !input.back.trim() || seen.has(key)) continue;
+    seen.add(key);
+
+    const card: Flashcard = {
+      ...input,
+      front: input.front.trim(),
+      back: input.back.trim(),
+      id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: now,
+      ...createSm2State(now),
+    };
+    await idbPut(STORES.FLASHCARDS, card);
+    added.push(card);
+  }
+  return added;
+};
+
+export const reviewFlashcard = async (card: Flashcard, rating: ReviewRating, now: Date = new Date()): Promise<Flashcard> => {
+  const updated: Flashcard = {
+    ...card,
+    ...scheduleReview(card, RATING_QUALITY[rating], now),
+    lastReviewedAt: now,
+  };
+  await idbPut(STORES.FLASHCARDS, updated);
+  return updated;
+};
+
+export const deleteFlashcard = async (id: string): Promise<void> => {
+  await idbDelete(STORES.FLASHCARDS, id);
+};
@@ -1,8 +1,11 @@
 
-import { GoogleGenAI, Content, Modality } from "@google/genai";
-import { Message, Sender, GradeLevel, Subject, Attachment } from "../types";
+import type { Content, Part } from "@google/genai";
+import { Message, Sender, GradeLevel, Subject, Attachment, ChatErrorKind, QuizQuestion, QuizQuestionKind, EssayQuestion, WrittenAnswerGrade, FlashcardSource } from "../types";
 import { getCurriculumStringForAI } from "../data/curriculum";
-import { getApiKey, rotateApiKey } from "../utils/apiKeyManager";
+import { getSelectedTrack } from "./trackService";
+import { postJson, readNdjson } from "../utils/api";
+import { RawQuizQuestion, normalizeQuiz } from "../utils/quiz";
+import { describeAttachment, getInlineAttachmentIds } from "../utils/contextWindow";
 
 const SYSTEM_INSTRUCTION = `
 أنت نظام تعليم ذكي متخصص لطلاب الثانوية العامة المصرية (الصفوف: الأول، الثاني، والثالث).
@@ -16,13 +19,24 @@ const SYSTEM_INSTRUCTION = `
 3. **المباشرة**: أجب عن السؤال فوراً دون مقدمات طويلة.
 
 **عرض البيانات والمقارنات (هام جداً)**:
-- **يمنع منعاً باتاً** توليد أكواد JSON أو رسوم بيانية (Charts).
-- استخدم **الجداول (Markdown Tables)** حصراً لعرض أي بيانات رقمية، إحصائيات، أو مقارنات. الجداول هي الوسيلة الوحيدة المعتمدة.
-- في العلاقات (مثل الطردية والعكسية)، اشرح العلاقة نصياً باختصار (مثال: "كلما زاد الجهد زاد التيار").
+- استخدم **الجداول (Markdown Tables)** للمقارنات والبيانات الرقمية القصيرة.
+- للرسم البياني (مثل علاقة الجهد بالتيار) استخدم كتلة \`\`\`chart فيها JSON فقط بهذا الشكل:
+  {"type": "line", "title": "العنوان", "xLabel": "V (فولت)", "yLabel": "I (أمبير)", "series": [{"name": "مقاومة 2Ω", "data": [[0, 0], [2, 1], [4, 2]]}]}
+  النوع line أو bar أو scatter، وكل نقطة [x, y] و y رقم. حتى 6 سلاسل و200 نقطة.
+- للمخططات الانسيابية (مثل مراحل عملية حيوية) استخدم كتلة \`\`\`flow بصيغة Mermaid المبسطة:
+  flowchart TD ثم سطر لكل سهم مثل: A[الجلوكوز] -->|التحلل| B(البيروفيك) ؛ و C{سؤال؟} للقرار. حتى 30 عقدة.
+- لا تستخدم أي صيغة رسم أخرى، ولا تضع JSON في غير كتلة chart.
+- في العلاقات (مثل الطردية والعكسية)، اشرح العلاقة نصياً باختصار مع الرسم أو بدونه (مثال: "كلما زاد الجهد زاد التيار").
+
+**المعادلات والقوانين (LaTeX)**:
+- اكتب أي قانون أو معادلة أو رمز رياضي بصيغة LaTeX: داخل السطر بين علامتي $ مثل $V = IR$، والمعادلة المستقلة بين سطرين في كل منهما $$ وحدها (مثل: سطر $$ ثم F = \\frac{m v^2}{r} ثم سطر $$).
+- المعادلات الكيميائية بصيغة mhchem داخل LaTeX، مثل $\\ce{2H2 + O2 -> 2H2O}$ و $\\ce{Fe^{3+}}$.
+- الرموز والوحدات داخل المعادلة بالحروف اللاتينية، والشرح حولها بالعربية. لا تضع المعادلات داخل كتل الكود، ولا تستخدم الرمز | داخل معادلة في جدول.
 
 **سياق الطالب**:
 - الصف: [GRADE_LEVEL]
 - المادة: [SUBJECT]
+[TRACK]
 
 [CURRICULUM_LIST]
 `;
@@ -30,13 +44,55 @@ const SYSTEM_INSTRUCTION = `
 export interface GenerationOptions {
   useThinking?: boolean;
   useSearch?: boolean;
+  // Stops the stream; the text received so far is returned
+  signal?: AbortSignal;
+  // Running summary of the messages left out of `history` (see utils/contextWindow.ts)
+  summary?: string;
+}
+
+// Lines streamed back by POST /api/chat (see server/routes/gemini.ts)
+interface ChatStreamLine {
+  text?: string;
+  sources?: { title: string; uri: string }[];
+  done?: boolean;
+  error?: { message: string; code?: ChatErrorKind };
+}
+
+// Thrown instead of returning a reply; `kind` decides what the student is told
+export class GeminiError extends Error {
+  kind: ChatErrorKind;
+
+  constructor(kind: ChatErrorKind, message: string) {
+    super(message);
+    this.name = 'GeminiError';
+    this.kind = kind;
+  }
+
+  get retryable(): boolean {
+    return isRetryableError(this.kind);
+  }
 }
 
-// Helper to get a fresh AI instance with the current active key
-const getAIClient = () => {
-  return new GoogleGenAI({ apiKey: getApiKey() });
+// Worth asking again as it is; safety blocks and bad attachments need a different question
+export const isRetryableError = (kind: ChatErrorKind): boolean => kind !== 'safety' && kind !== 'invalid_attachment';
+
+// Older servers send no code; fall back to the status
+const STATUS_ERROR_KINDS: Record<number, ChatErrorKind> = { 413: 'invalid_attachment', 429: 'quota', 504: 'timeout' };
+
+const readErrorResponse = async (response: Response): Promise<GeminiError> => {
+  const body = await response.json().catch(() => null) as { error?: ChatStreamLine['error'] } | null;
+  const kind = body?.error?.code || STATUS_ERROR_KINDS[response.status] || 'unknown';
+  return new GeminiError(kind, body?.error?.message || `Request failed with status ${response.status}`);
+};
+
+const toGeminiError = (error: unknown): GeminiError => {
+  if (error instanceof GeminiError) return error;
+  // fetch rejects with a TypeError when the server cannot be reached
+  if (error instanceof TypeError) return new GeminiError('network', error.message);
+  return new GeminiError('unknown', (error as Error)?.message || String(error));
 };
 
+// Resolves with the whole reply (or what arrived before `signal` stopped it); throws a GeminiError on failure
 export const generateStreamResponse = async (
   userMessage: string,
   grade: GradeLevel,
@@ -44,98 +100,95 @@ export const generateStreamResponse = async (
   history: Message[],
   onChunk: (text: string) => void,
   attachment?: Attachment,
-  options?: GenerationOptions,
-  retryCount = 0
+  options?: GenerationOptions
 ): Promise<string> => {
   
-  // Filter history
-  const chatHistory: Content[] = history.map((msg) => {
+  // Filter history (failed answers, and one stopped before any text arrived, are left out).
+  // The newest attachments go again with their message; older ones are only named.
+  const inlineAttachmentIds = getInlineAttachmentIds(history);
+  const chatHistory: Content[] = history.filter((msg) => msg.text.trim() && !msg.error).map((msg) => {
+    const parts: Part[] = [{ text: msg.text }];
+    if (msg.attachment && inlineAttachmentIds.has(msg.id)) {
+        parts.unshift({ inlineData: { mimeType: msg.attachment.mimeType, data: msg.attachment.data } });
+    } else if (msg.attachment) {
+        parts.unshift({ text: describeAttachment(msg.attachment) });
+    }
     return {
         role: msg.sender === Sender.USER ? 'user' : 'model',
-        parts: [{ text: msg.text }],
+        parts,
     };
   });
 
   // Get Curriculum List (Formatted String)
   const curriculumString = getCurriculumStringForAI(grade, subject);
 
+  // The student's track decides which exam the answers should prepare for
+  const track = getSelectedTrack(grade);
+  const trackLine = track
+    ? `- الشعبة: ${track.label} (مواد امتحانها: ${track.subjects.join('، ')}). اربط الإجابات بامتحان هذه الشعبة وطريقة أسئلته، ولا تتوسع فيما لا يخص الشعبة.`
+    : '';
+
   // Inject dynamic context
   const dynamicInstruction = SYSTEM_INSTRUCTION
     .replace('[GRADE_LEVEL]', grade)
     .replace('[SUBJECT]', subject)
-    .replace('[CURRICULUM_LIST]', curriculumString);
+    .replace('[TRACK]', trackLine)
+    .replace('[CURRICULUM_LIST]', curriculumString)
+    + (options?.summary ? `\n**ملخص ما سبق في هذه المحادثة** (الرسائل الأقدم غير مرسلة):\n${options.summary}\n` : '');
 
+  const messageParts: Part[] = [];
+    
+  if (attachment) {
+      messageParts.push({
+          inlineData: {
+              mimeType: attachment.mimeType,
+              data: attachment.data
+          }
+      });
+  }
+
+  let promptText = userMessage;
+  if (!promptText.trim() && attachment) {
+      if (attachment.type === 'audio') promptText = "لخص ما في هذا التسجيل.";
+      else if (attachment.type === 'image') promptText = "لخص ما في الصورة.";
+      else promptText = "لخص هذا الملف.";
+  }
+  
+  messageParts.push({ text: promptText });
+
+  let fullText = '';
   try {
-    const ai = getAIClient(); // Use dynamic key
-    let model = 'gemini-2.5-flash';
-    let config: any = {
+    // The server picks the model and rotates keys; we only describe the request
+    const response = await postJson('/api/chat', {
         systemInstruction: dynamicInstruction,
-        temperature: 0.7,
-    };
-
-    // Configure Thinking Mode
-    if (options?.useThinking) {
-        model = 'gemini-3-pro-preview';
-        config.thinkingConfig = { thinkingBudget: 32768 };
-    } else {
-        config.maxOutputTokens = 2000;
-        config.thinkingConfig = { thinkingBudget: 0 };
-    }
+        history: chatHistory,
+        message: messageParts,
+        options: {
+            useThinking: options?.useThinking,
+            useSearch: options?.useSearch,
+        },
+    }, { signal: options?.signal });
 
-    // Configure Search Grounding
-    if (options?.useSearch && !options?.useThinking) {
-        config.tools = [{ googleSearch: {} }];
+    if (!response.ok) {
+        throw await readErrorResponse(response);
     }
 
-    const chat = ai.chats.create({
-      model: model,
-      config: config,
-      history: chatHistory,
-    });
+    const groundingSources: Set<string> = new Set();
 
-    let messageParts: any[] = [];
-    
-    if (attachment) {
-        messageParts.push({
-            inlineData: {
-                mimeType: attachment.mimeType,
-                data: attachment.data
-            }
-        });
-    }
+    await readNdjson<ChatStreamLine>(response, (line) => {
+        if (line.error) throw new GeminiError(line.error.code || 'unknown', line.error.message);
 
-    let promptText = userMessage;
-    if (!promptText.trim() && attachment) {
-        if (attachment.type === 'audio') promptText = "لخص ما في هذا التسجيل.";
-        else if (attachment.type === 'image') promptText = "لخص ما في الصورة.";
-        else promptText = "لخص هذا الملف.";
-    }
-    
-    messageParts.push({ text: promptText });
+        if (line.text) {
+            fullText += line.text;
+            onChunk(fullText);
+        }
 
-    const resultStream = await chat.sendMessageStream({ 
-        message: messageParts 
+        // Grounding Metadata (Search URLs)
+        line.sources?.forEach((source) => {
+            groundingSources.add(`[${source.title}](${source.uri})`);
+        });
     });
 
-    let fullText = '';
-    const groundingSources: Set<string> = new Set();
-
-    for await (const chunk of resultStream) {
-      const chunkText = chunk.text || '';
-      fullText += chunkText;
-
-      // Extract Grounding Metadata (Search URLs)
-      if (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-          chunk.candidates[0].groundingMetadata.groundingChunks.forEach((c: any) => {
-              if (c.web?.uri) {
-                  groundingSources.add(`[${c.web.title || 'مصدر'}](${c.web.uri})`);
-              }
-          });
-      }
-
-      onChunk(fullText);
-    }
-
     // Append sources if any found
     if (groundingSources.size > 0) {
         const sourcesText = "\n\n**المصادر:**\n" + Array.from(groundingSources).map(s => `- ${s}`).join('\n');
@@ -144,79 +197,331 @@ export const generateStreamResponse = async (
     }
 
     return fullText;
-  } catch (error: any) {
+  } catch (error) {
+    if (options?.signal?.aborted) return fullText;
     console.error("Gemini API Error:", error);
-    
-    // Failover Logic: If error is quota related or generic 4xx/5xx
-    // We try to rotate the key and retry up to 3 times (or however many keys we have)
-    if (retryCount < 4) {
-        const rotated = rotateApiKey();
-        if (rotated) {
-            console.log(`Retrying request with new key (Attempt ${retryCount + 1})...`);
-            return generateStreamResponse(userMessage, grade, subject, history, onChunk, attachment, options, retryCount + 1);
-        }
-    }
-    
-    // Better error message for the user
-    return "عذراً، الخدمة مشغولة جداً حالياً (نفذ رصيد المفاتيح). يرجى المحاولة لاحقاً أو التواصل مع الدعم.";
+    // The text streamed so far stays on screen; the caller shows the error under it
+    throw toGeminiError(error);
   }
 };
 
-export const generateSpeech = async (text: string): Promise<string | null> => {
-  try {
-    const ai = getAIClient();
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' }, 
-          },
+// --- Structured output ---
+
+const QUIZ_INSTRUCTION = `
+أنت معلم خبير في إعداد أسئلة امتحانات الثانوية العامة المصرية.
+اكتب أسئلة تدريبية بنفس أسلوب بنك المعرفة وامتحانات الوزارة، باللغة العربية (أو بلغة المادة إذا كانت لغة أجنبية).
+
+**القواعد**:
+- نوّع بين الاختيار من متعدد (mcq) بأربعة اختيارات، وصح أو خطأ (true_false)، والمقالي (essay).
+- في mcq: ضع رقم الاختيار الصحيح في correctIndex (يبدأ من 0).
+- في true_false: ضع الإجابة في correctAnswer.
+- في essay: اكتب إجابة نموذجية مختصرة في modelAnswer، وعناصر الإجابة التي تستحق الدرجة في rubric.
+- اكتب في explanation سبب صحة الإجابة في سطر أو سطرين.
+
+**سياق الطالب**:
+- الصف: [GRADE_LEVEL]
+- المادة: [SUBJECT]
+`;
+
+const GRADING_INSTRUCTION = `
+أنت مصحح امتحانات الثانوية العامة المصرية، تلتزم بنموذج الإجابة وعناصر التصحيح.
+
+**القواعد**:
+- أعط كل إجابة درجة من 0 حتى الدرجة العظمى للسؤال، بمضاعفات نصف درجة.
+- امنح الدرجة لكل عنصر صحيح من عناصر التصحيح حتى لو اختلفت صياغة الطالب.
+- اكتب في feedback ملاحظة قصيرة للطالب بما نقص من إجابته.
+
+**سياق الطالب**:
+- الصف: [GRADE_LEVEL]
+- المادة: [SUBJECT]
+`;
+
+const FLASHCARD_INSTRUCTION = `
+أنت معلم يحول المحتوى الدراسي إلى بطاقات مراجعة (Flashcards) لطلاب الثانوية العامة المصرية.
+
+**القواعد**:
+- الوجه الأمامي (front): سؤال قصير أو مصطلح واحد.
+- الوجه الخلفي (back): إجابة دقيقة في جملة أو جملتين، بدون مقدمات.
+- بطاقة واحدة لكل معلومة، وتجنب التكرار.
+- اكتب بلغة المادة (العربية، أو اللغة الأجنبية في مواد اللغات).
+
+**سياق الطالب**:
+- الصف: [GRADE_LEVEL]
+- المادة: [SUBJECT]
+`;
+
+// Schema types are spelled out (instead of the SDK's Type enum) to keep the SDK out of the bundle
+const buildQuestionSchema = (kinds: QuizQuestionKind[]) => ({
+  type: 'OBJECT',
+  properties: {
+    questions: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          type: { type: 'STRING', enum: kinds },
+          question: { type: 'STRING' },
+          options: { type: 'ARRAY', items: { type: 'STRING' } },
+          correctIndex: { type: 'INTEGER' },
+          correctAnswer: { type: 'BOOLEAN' },
+          modelAnswer: { type: 'STRING' },
+          rubric: { type: 'ARRAY', items: { type: 'STRING' } },
+          explanation: { type: 'STRING' },
         },
+        required: ['type', 'question', 'explanation'],
       },
-    });
+    },
+  },
+  required: ['questions'],
+});
+
+const FLASHCARD_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    cards: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          front: { type: 'STRING' },
+          back: { type: 'STRING' },
+        },
+        required: ['front', 'back'],
+      },
+    },
+  },
+  required: ['cards'],
+};
 
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+const GRADING_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    results: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          index: { type: 'INTEGER' },
+          awarded: { type: 'NUMBER' },
+          feedback: { type: 'STRING' },
+        },
+        required: ['index', 'awarded', 'feedback'],
+      },
+    },
+  },
+  required: ['results'],
+};
+
+const withContext = (instruction: string, grade: GradeLevel, subject: Subject) => instruction
+  .replace('[GRADE_LEVEL]', grade)
+  .replace('[SUBJECT]', subject);
+
+const SUMMARY_INSTRUCTION = `
+أنت تلخص محادثة بين طالب ثانوية عامة ومعلمه الذكي، ليكمل المعلم المحادثة دون الرجوع لنصها.
+
+**القواعد**:
+- ادمج الملخص السابق (إن وجد) مع الرسائل الجديدة في ملخص واحد لا يتجاوز 200 كلمة.
+- احتفظ بما سأل عنه الطالب، وما شُرح له، والأرقام والقوانين المهمة، وما لم يفهمه بعد.
+- اذكر الصور أو الملفات التي أرسلها الطالب وما كان فيها.
+- اكتب نقاطاً قصيرة بالعربية.
+
+**سياق الطالب**:
+- الصف: [GRADE_LEVEL]
+- المادة: [SUBJECT]
+`;
+
+const SUMMARY_SCHEMA = {
+  type: 'OBJECT',
+  properties: { summary: { type: 'STRING' } },
+  required: ['summary'],
+};
+
+// One-shot request whose reply is JSON matching `responseSchema`
+const generateStructured = async <T>(systemInstruction: string, prompt: string, responseSchema: object, signal?: AbortSignal): Promise<T> => {
+  const response = await postJson('/api/chat', {
+    systemInstruction,
+    history: [],
+    message: [{ text: prompt }],
+    options: { responseSchema, maxOutputTokens: 8000 },
+  }, { signal });
+  if (!response.ok) throw await readErrorResponse(response);
+
+  let fullText = '';
+  await readNdjson<ChatStreamLine>(response, (line) => {
+    if (line.error) throw new GeminiError(line.error.code || 'unknown', line.error.message);
+    if (line.text) fullText += line.text;
+  });
+  return JSON.parse(fullText) as T;
+};
+
+// Null when the request failed or nothing usable came back
+export const generateQuiz = async (grade: GradeLevel, subject: Subject, lesson: string, count = 6): Promise<QuizQuestion[] | null> => {
+  try {
+    const raw = await generateStructured<{ questions?: RawQuizQuestion[] }>(
+      withContext(QUIZ_INSTRUCTION, grade, subject),
+      `اكتب ${count} أسئلة تدريبية متنوعة على درس: "${lesson}".`,
+      buildQuestionSchema(['mcq', 'true_false', 'essay'])
+    );
+    const questions = normalizeQuiz(raw);
+    return questions.length > 0 ? questions : null;
   } catch (error) {
-    console.error("TTS Error:", error);
-    // Simple retry for speech
-    if (rotateApiKey()) {
-        return generateSpeech(text);
-    }
+    console.error("Quiz generation error:", error);
     return null;
   }
 };
 
-export const streamSpeech = async (text: string, onAudioChunk: (base64: string) => void, retryCount = 0): Promise<void> => {
+// One exam section: `count` questions of a single kind spread over the given lessons.
+// Null on failure; may return fewer questions than asked if some came back unusable.
+export const generateExamQuestions = async (
+  grade: GradeLevel,
+  subject: Subject,
+  lessons: string[],
+  kind: QuizQuestionKind,
+  count: number
+): Promise<QuizQuestion[] | null> => {
   try {
-    const ai = getAIClient();
-    const responseStream = await ai.models.generateContentStream({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
+    const raw = await generateStructured<{ questions?: RawQuizQuestion[] }>(
+      withContext(QUIZ_INSTRUCTION, grade, subject),
+      `اكتب ${count} سؤالاً من نوع ${kind} بمستوى امتحان الثانوية العامة، موزعة على هذه الدروس:\n${lessons.map((lesson) => `- ${lesson}`).join('\n')}`,
+      buildQuestionSchema([kind])
+    );
+    const questions = normalizeQuiz(raw).slice(0, count);
+    return questions.length > 0 ? questions : null;
+  } catch (error) {
+    console.error("Exam generation error:", error);
+    return null;
+  }
+};
+
+export interface WrittenAnswer {
+  question: EssayQuestion;
+  answer: string;
+  maxMarks: number;
+}
+
+// Grades essay answers against their rubric in one request; results keep the input order.
+// Blank answers get zero without asking the model. Null when the grading request failed.
+export const gradeWrittenAnswers = async (grade: GradeLevel, subject: Subject, answers: WrittenAnswer[]): Promise<WrittenAnswerGrade[] | null> => {
+  const grades: WrittenAnswerGrade[] = answers.map(() => ({ awarded: 0, feedback: 'لم تتم الإجابة.' }));
+  const toGrade = answers
+    .map((item, index) => ({ ...item, index }))
+    .filter((item) => item.answer.trim());
+  if (toGrade.length === 0) return grades;
+
+  const prompt = toGrade.map((item) => [
+    `### إجابة رقم ${item.index}`,
+    `السؤال: ${item.question.question}`,
+    `الدرجة العظمى: ${item.maxMarks}`,
+    `نموذج الإجابة: ${item.question.modelAnswer}`,
+    `عناصر التصحيح:\n${item.question.rubric.map((point) => `- ${point}`).join('\n') || '- حسب نموذج الإجابة'}`,
+    `إجابة الطالب: ${item.answer}`,
+  ].join('\n')).join('\n\n');
+
+  try {
+    const raw = await generateStructured<{ results?: { index?: number; awarded?: number; feedback?: string }[] }>(
+      withContext(GRADING_INSTRUCTION, grade, subject),
+      `صحح الإجابات التالية:\n\n${prompt}`,
+      GRADING_SCHEMA
+    );
+
+    (raw.results || []).forEach((result) => {
+      const item = toGrade.find((candidate) => candidate.index === result.index);
+      if (!item) return;
+      // Never trust the model with the mark range
+      const awarded = Math.min(item.maxMarks, Math.max(0, Math.round(Number(result.awarded) * 2) / 2 || 0));
+      grades[item.index] = { awarded, feedback: (result.feedback || '').trim() };
     });
 
-    for await (const chunk of responseStream) {
-      const audioData = chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (audioData) {
-        onAudioChunk(audioData);
+    // Anything the model skipped is flagged rather than silently zeroed
+    toGrade.forEach((item) => {
+      if (!raw.results?.some((result) => result.index === item.index)) {
+        grades[item.index] = { awarded: 0, feedback: 'تعذر تصحيح هذه الإجابة آلياً.' };
       }
-    }
+    });
+    return grades;
+  } catch (error) {
+    console.error("Grading error:", error);
+    return null;
+  }
+};
+
+const FLASHCARD_PROMPTS: Record<FlashcardSource, (content: string) => string> = {
+  lesson: (lesson) => `اكتب 8 بطاقات مراجعة تغطي أهم نقاط درس: "${lesson}".`,
+  chat: (text) => `حوّل أهم المعلومات في هذا الشرح إلى 6 بطاقات مراجعة على الأكثر:\n\n${text.substring(0, 6000)}`,
+  term: (term) => `اكتب بطاقة مراجعة واحدة فقط للمصطلح: "${term}". الوجه الأمامي هو المصطلح نفسه.`,
+};
+
+// Card text only; scheduling is up to the flashcard service. Null on failure.
+export const generateFlashcards = async (
+  grade: GradeLevel,
+  subject: Subject,
+  source: FlashcardSource,
+  content: string
+): Promise<{ front: string; back: string }[] | null> => {
+  try {
+    const raw = await generateStructured<{ cards?: { front?: string; back?: string }[] }>(
+      withContext(FLASHCARD_INSTRUCTION, grade, subject),
+      FLASHCARD_PROMPTS[source](content),
+      FLASHCARD_SCHEMA
+    );
+    const cards = (raw.cards || [])
+      .map((card) => ({ front: (card.front || '').trim(), back: (card.back || '').trim() }))
+      .filter((card) => card.front && card.back);
+    return cards.length > 0 ? cards : null;
+  } catch (error) {
+    console.error("Flashcard generation error:", error);
+    return null;
+  }
+};
+
+// Null when the request failed; the caller then sends the messages as they are
+export const summarizeConversation = async (
+  grade: GradeLevel,
+  subject: Subject,
+  previousSummary: string | undefined,
+  messages: Message[],
+  signal?: AbortSignal
+): Promise<string | null> => {
+  try {
+    const transcript = messages
+      .map((msg) => `${msg.sender === Sender.USER ? 'الطالب' : 'المعلم'}: ${msg.attachment ? `${describeAttachment(msg.attachment)} ` : ''}${msg.text}`)
+      .join('\n\n');
+    const result = await generateStructured<{ summary?: string }>(
+      withContext(SUMMARY_INSTRUCTION, grade, subject),
+      `${previousSummary ? `الملخص السابق:\n${previousSummary}\n\n` : ''}الرسائل الجديدة:\n${transcript}`,
+      SUMMARY_SCHEMA,
+      signal
+    );
+    return result.summary?.trim() || null;
+  } catch (error) {
+    if (signal?.aborted) return null;
+    console.error("Failed to summarize conversation:", error);
+    return null;
+  }
+};
+
+export const generateSpeech = async (text: string): Promise<string | null> => {
+  try {
+    const response = await postJson('/api/tts', { text, stream: false });
+    if (!response.ok) throw new Error(`TTS request failed with status ${response.status}`);
+    const data: { audio: string | null } = await response.json();
+    return data.audio;
+  } catch (error) {
+    console.error("TTS Error:", error);
+    return null;
+  }
+};
+
+export const streamSpeech = async (text: string, onAudioChunk: (base64: string) => void): Promise<void> => {
+  try {
+    const response = await postJson('/api/tts', { text, stream: true });
+    if (!response.ok) throw new Error(`TTS request failed with status ${response.status}`);
+
+    await readNdjson<{ audio?: string; error?: { message: string } }>(response, (line) => {
+      if (line.error) throw new Error(line.error.message);
+      if (line.audio) onAudioChunk(line.audio);
+    });
   } catch (error) {
     console.error("TTS Stream Error:", error);
-    // FIX: Limit retries to prevent infinite loops/browser freeze when quota is exhausted
-    // We retry max 3 times (trying different keys) then stop.
-    if (retryCount < 3 && rotateApiKey()) {
-       streamSpeech(text, onAudioChunk, retryCount + 1);
-    }
   }
 };
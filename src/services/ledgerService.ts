@@ -0,0 +1,211 @@
+import { GradeLevel } from '../types';
+import { GradeKey, LicenseGrade } from '../utils/license';
+import { PlanTier, getPlan, isPlanTier } from '../data/plans';
+import { STORES, idbGetAll, idbPut } from '../utils/db';
+import { apiUrl, postJson } from '../utils/api';
+import { toCsv, parseCsv } from '../utils/csv';
+import { AdminSession, getAdminAuthHeaders } from './adminAuthService';
+
+// Record of every activation code the admin has issued: who got it, for what, and until when.
+// Storage is pluggable: this browser's IndexedDB, or the backend so several admins share one ledger.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 'transferred': revoked because the subscription moved to another device
+export type LedgerStatus = 'active' | 'revoked' | 'transferred';
+
+export interface LedgerEntry {
+  id: string;
+  code: string;
+  studentName: string;
+  phone: string;
+  deviceId: string;
+  grade: LicenseGrade;
+  plan: PlanTier;
+  days: number;
+  price: number;
+  // ISO strings so entries survive JSON and CSV unchanged
+  issuedAt: string;
+  expiresAt: string;
+  status: LedgerStatus;
+  revokedAt?: string;
+  // Set on renewals: the entry this one extends
+  renewedFrom?: string;
+  notes?: string;
+}
+
+export type NewLedgerEntry = Pick<LedgerEntry, 'code' | 'studentName' | 'phone' | 'deviceId' | 'grade' | 'plan' | 'days' | 'price' | 'renewedFrom' | 'notes'> & {
+  issuedAt: Date;
+};
+
+export interface LedgerBackend {
+  list: () => Promise<LedgerEntry[]>;
+  // Inserts or replaces by id
+  save: (entries: LedgerEntry[]) => Promise<void>;
+}
+
+export type LedgerBackendKind = 'local' | 'server';
+
+// --- Backends ---
+
+export const localLedgerBackend: LedgerBackend = {
+  list: () => idbGetAll<LedgerEntry>(STORES.LEDGER),
+  save: async (entries) => {
+    for (const entry of entries) {
+      await idbPut(STORES.LEDGER, entry);
+    }
+  },
+};
+
+export const createHttpLedgerBackend = (session: AdminSession | null): LedgerBackend => {
+  const headers = getAdminAuthHeaders(session);
+
+  const check = async (response: Response) => {
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error?.message || `Ledger request failed (${response.status})`);
+    }
+    return response;
+  };
+
+  return {
+    list: async () => {
+      const response = await check(await fetch(apiUrl('/api/ledger'), { headers }));
+      return (await response.json()).entries as LedgerEntry[];
+    },
+    save: async (entries) => {
+      await check(await postJson('/api/ledger', { entries }, { headers }));
+    },
+  };
+};
+
+export const getLedgerBackend = (kind: LedgerBackendKind, session: AdminSession | null): LedgerBackend => {
+  return kind === 'server' ? createHttpLedgerBackend(session) : localLedgerBackend;
+};
+
+// --- Entries ---
+
+const generateId = () => {
+  const array = new Uint32Array(2);
+  window.crypto.getRandomValues(array);
+  return 'L-' + Array.from(array, (n) => n.toString(36).toUpperCase()).join('');
+};
+
+const coversSameGrade = (a: LicenseGrade, b: LicenseGrade) => a === b || a === 'ALL' || b === 'ALL';
+
+// Mirrors the student app: a new code for a device that still has time left stacks on top of it
+export const computeExpiry = (entries: LedgerEntry[], deviceId: string, grade: LicenseGrade, issuedAt: Date, days: number): Date => {
+  const currentEnd = entries
+    .filter((entry) => entry.status === 'active' && entry.deviceId === deviceId && coversSameGrade(entry.grade, grade))
+    .reduce((latest, entry) => Math.max(latest, Date.parse(entry.expiresAt)), issuedAt.getTime());
+  return new Date(currentEnd + days * DAY_MS);
+};
+
+export const createLedgerEntry = (input: NewLedgerEntry, existing: LedgerEntry[]): LedgerEntry => {
+  return {
+    ...input,
+    id: generateId(),
+    studentName: input.studentName.trim(),
+    phone: input.phone.trim(),
+    deviceId: input.deviceId.trim(),
+    issuedAt: input.issuedAt.toISOString(),
+    expiresAt: computeExpiry(existing, input.deviceId.trim(), input.grade, input.issuedAt, input.days).toISOString(),
+    status: 'active',
+  };
+};
+
+// Only marks the ledger entry; the code stops working on the device once its id is published to
+// the server's revocation list (see server/routes/revocations.ts)
+export const revokeLedgerEntry = (entry: LedgerEntry, now: Date = new Date()): LedgerEntry => ({
+  ...entry,
+  status: 'revoked',
+  revokedAt: now.toISOString(),
+});
+
+export const transferLedgerEntry = (entry: LedgerEntry, newDeviceId: string, now: Date = new Date()): LedgerEntry => ({
+  ...entry,
+  status: 'transferred',
+  revokedAt: now.toISOString(),
+  notes: [entry.notes, `نقل إلى ${newDeviceId}`].filter(Boolean).join(' | '),
+});
+
+export const isEntryExpired = (entry: LedgerEntry, now: Date = new Date()) => Date.parse(entry.expiresAt) <= now.getTime();
+
+export const getGradeLabel = (grade: LicenseGrade) => grade === 'ALL' ? 'كل الصفوف' : GradeLevel[grade];
+
+export const searchLedger = (entries: LedgerEntry[], query: string): LedgerEntry[] => {
+  const needle = query.trim().toLowerCase();
+  const sorted = [...entries].sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  if (!needle) return sorted;
+
+  return sorted.filter((entry) =>
+    [entry.studentName, entry.phone, entry.deviceId, entry.code, entry.id, getGradeLabel(entry.grade), getPlan(entry.plan).label]
+      .some((value) => value.toLowerCase().includes(needle))
+  );
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS: (keyof LedgerEntry)[] = [
+  'id', 'studentName', 'phone', 'deviceId', 'grade', 'plan', 'days', 'price',
+  'issuedAt', 'expiresAt', 'status', 'revokedAt', 'renewedFrom', 'notes', 'code',
+];
+
+export const ledgerToCsv = (entries: LedgerEntry[]): string => {
+  return toCsv([
+    CSV_COLUMNS,
+    ...entries.map((entry) => CSV_COLUMNS.map((column) => String(entry[column] ?? ''))),
+  ]);
+};
+
+const isIsoDate = (value: string) => !!value && !isNaN(Date.parse(value));
+
+// Rows that fail validation are reported by line number instead of being half-imported
+export const ledgerFromCsv = (text: string): { entries: LedgerEntry[]; errors: string[] } => {
+  const [header, ...rows] = parseCsv(text);
+  const entries: LedgerEntry[] = [];
+  const errors: string[] = [];
+
+  if (!header) return { entries, errors: ['الملف فارغ'] };
+
+  const indexOf = (column: keyof LedgerEntry) => header.findIndex((name) => name.trim() === column);
+  const missing = (['id', 'deviceId', 'grade', 'plan', 'days', 'issuedAt', 'expiresAt', 'code'] as const).filter((column) => indexOf(column) === -1);
+  if (missing.length > 0) return { entries, errors: [`أعمدة ناقصة: ${missing.join(', ')}`] };
+
+  rows.forEach((row, index) => {
+    const get = (column: keyof LedgerEntry) => (row[indexOf(column)] ?? '').trim();
+    const line = index + 2;
+
+    const grade = get('grade');
+    const plan = get('plan');
+    const days = Number(get('days'));
+    const status = get('status') || 'active';
+
+    if (!get('id') || !get('deviceId') || !get('code')) return errors.push(`سطر ${line}: بيانات ناقصة`);
+    if (grade !== 'ALL' && !(grade in GradeLevel)) return errors.push(`سطر ${line}: صف غير معروف (${grade})`);
+    if (!isPlanTier(plan)) return errors.push(`سطر ${line}: باقة غير معروفة (${plan})`);
+    if (!(days > 0)) return errors.push(`سطر ${line}: مدة غير صحيحة`);
+    if (!isIsoDate(get('issuedAt')) || !isIsoDate(get('expiresAt'))) return errors.push(`سطر ${line}: تاريخ غير صحيح`);
+    if (status !== 'active' && status !== 'revoked' && status !== 'transferred') return errors.push(`سطر ${line}: حالة غير معروفة (${status})`);
+
+    entries.push({
+      id: get('id'),
+      code: get('code'),
+      studentName: get('studentName'),
+      phone: get('phone'),
+      deviceId: get('deviceId'),
+      grade: grade as GradeKey | 'ALL',
+      plan,
+      days,
+      price: Number(get('price')) || 0,
+      issuedAt: new Date(get('issuedAt')).toISOString(),
+      expiresAt: new Date(get('expiresAt')).toISOString(),
+      status,
+      revokedAt: get('revokedAt') || undefined,
+      renewedFrom: get('renewedFrom') || undefined,
+      notes: get('notes') || undefined,
+    });
+  });
+
+  return { entries, errors };
+};
@@ -0,0 +1,107 @@
+import { apiUrl, postJson } from '../utils/api';
+import { LicenseGrade } from '../utils/license';
+import { Plan, PlanTier } from '../data/plans';
+
+// Online checkout against /api/payments. The server creates the order with its provider,
+// and once the provider confirms the payment it signs the activation code into the order,
+// which we pick up by polling.
+
+export type PaymentMethod = 'fawry' | 'wallet' | 'card';
+
+export interface PaymentConfig {
+  enabled: boolean;
+  methods: PaymentMethod[];
+  // Current prices (the server may override the bundled ones)
+  plans: Plan[];
+}
+
+export interface PaymentOrder {
+  id: string;
+  status: 'pending' | 'paid' | 'failed';
+  plan: PlanTier;
+  grade: LicenseGrade;
+  method: PaymentMethod;
+  amount: number;
+  instructions: {
+    referenceNumber?: string;
+    redirectUrl?: string;
+    expiresAt?: string;
+  };
+  // Set once paid (absent if the server could not sign; the admin then sends it)
+  license?: string;
+}
+
+export interface CheckoutRequest {
+  deviceId: string;
+  plan: PlanTier;
+  grade?: LicenseGrade;
+  method: PaymentMethod;
+  phone?: string;
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  fawry: 'فوري',
+  wallet: 'محفظة إلكترونية',
+  card: 'بطاقة بنكية',
+};
+
+const PENDING_ORDER_KEY = 'pending_payment_order';
+const POLL_INTERVAL_MS = 4000;
+
+export const fetchPaymentConfig = async (): Promise<PaymentConfig | null> => {
+  try {
+    const response = await fetch(apiUrl('/api/payments/config'));
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+};
+
+export const startCheckout = async (request: CheckoutRequest): Promise<PaymentOrder> => {
+  const response = await postJson('/api/payments/checkout', request);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error?.message || `Checkout failed (${response.status})`);
+  }
+  const order: PaymentOrder = await response.json();
+  // Survives the trip to the payment page and back
+  localStorage.setItem(PENDING_ORDER_KEY, order.id);
+  return order;
+};
+
+export const getPaymentOrder = async (id: string): Promise<PaymentOrder | null> => {
+  const response = await fetch(apiUrl(`/api/payments/orders/${encodeURIComponent(id)}`));
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Order lookup failed (${response.status})`);
+  return response.json();
+};
+
+export const getPendingOrderId = (): string | null => localStorage.getItem(PENDING_ORDER_KEY);
+
+export const clearPendingOrder = () => localStorage.removeItem(PENDING_ORDER_KEY);
+
+// Provider pages may be given relative to the API server
+export const getPaymentPageUrl = (order: PaymentOrder): string | null => {
+  const url = order.instructions.redirectUrl;
+  if (!url) return null;
+  return url.startsWith('/') ? apiUrl(url) : url;
+};
+
+// Polls until the order is settled. Network errors are retried; a missing order resolves null.
+export const waitForPayment = (id: string, onUpdate: (order: PaymentOrder) => void, signal: AbortSignal): Promise<PaymentOrder | null> => {
+  return new Promise((resolve) => {
+    const poll = async () => {
+      if (signal.aborted) return resolve(null);
+      try {
+        const order = await getPaymentOrder(id);
+        if (!order) return resolve(null);
+        onUpdate(order);
+        if (order.status !== 'pending') return resolve(order);
+      } catch (error) {
+        console.error("Payment status check failed:", error);
+      }
+      setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    poll();
+  });
+};
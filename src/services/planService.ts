@@ -0,0 +1,77 @@
+import { GradeLevel, StudyPlan } from "../types";
+import { STORES, idbDelete, idbGet, idbSet } from "../utils/db";
+import { getTermLessons, resolveLegacyLessonId } from "../data/curriculum";
+import { getTrackSubjects } from "../data/subjects";
+import { getSelectedTrack } from "./trackService";
+import { PlanLesson, buildPlanItems } from "../utils/planner";
+import { toDayKey } from "../utils/analytics";
+import { getLessonStatuses } from "./progressService";
+
+// One study plan per grade, kept on this device.
+
+const getPlanKey = (grade: GradeLevel) => `study_plan_${grade}`;
+
+export interface PlanSettings {
+  grade: GradeLevel;
+  term: StudyPlan['term'];
+  examDate: string;
+  hoursPerDay: number;
+}
+
+export const loadStudyPlan = async (grade: GradeLevel): Promise<StudyPlan | null> => {
+  try {
+    const plan = (await idbGet<StudyPlan>(STORES.KEYVAL, getPlanKey(grade))) || null;
+    if (!plan || plan.items.every((item) => item.kind !== 'lesson' || item.lessonId)) return plan;
+
+    // Plans made before lessons had ids only name their lessons; they are given the ids once
+    const migrated: StudyPlan = {
+      ...plan,
+      items: plan.items.map((item) => item.kind === 'lesson' && !item.lessonId
+        ? { ...item, lessonId: resolveLegacyLessonId(grade, item.subject, item.lesson) }
+        : item),
+    };
+    await saveStudyPlan(migrated);
+    return migrated;
+  } catch (error) {
+    console.error("Failed to load study plan:", error);
+    return null;
+  }
+};
+
+export const saveStudyPlan = async (plan: StudyPlan): Promise<void> => {
+  try {
+    await idbSet(STORES.KEYVAL, getPlanKey(plan.grade), plan);
+  } catch (error) {
+    console.error("Failed to save study plan:", error);
+  }
+};
+
+export const deleteStudyPlan = async (grade: GradeLevel): Promise<void> => {
+  try {
+    await idbDelete(STORES.KEYVAL, getPlanKey(grade));
+  } catch (error) {
+    console.error("Failed to delete study plan:", error);
+  }
+};
+
+// Every lesson of the term that is not mastered yet in the student's track, starting today
+export const createStudyPlan = async ({ grade, term, examDate, hoursPerDay }: PlanSettings): Promise<StudyPlan> => {
+  const lessons: PlanLesson[] = [];
+  for (const subject of getTrackSubjects(grade, getSelectedTrack(grade)?.id)) {
+    const statuses = await getLessonStatuses(grade, subject);
+    getTermLessons(grade, subject, term)
+      .filter((lesson) => statuses[lesson.id]?.mastery !== 'mastered')
+      .forEach((lesson) => lessons.push({ subject, lessonId: lesson.id, lesson: lesson.title }));
+  }
+
+  const plan: StudyPlan = {
+    grade,
+    term,
+    examDate,
+    hoursPerDay,
+    createdAt: new Date(),
+    items: buildPlanItems(lessons, toDayKey(new Date()), examDate, hoursPerDay),
+  };
+  await saveStudyPlan(plan);
+  return plan;
+};
@@ -0,0 +1,100 @@
+import { CurriculumLesson, GradeLevel, LessonProgress, QuizResult, Subject } from "../types";
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from "../utils/db";
+import { getTermLessons, resolveLegacyLessonId } from "../data/curriculum";
+import { LessonStatus, getAverageCompletion, getLessonStatus } from "../utils/progress";
+import { listQuizResults } from "./quizService";
+
+// Per-lesson progress on this device: explanations asked for and videos opened are recorded here,
+// quiz scores come from the quiz results.
+
+const getProgressId = (grade: GradeLevel, subject: Subject, lessonId: string) => `${grade}|${subject}|${lessonId}`;
+
+const updateProgress = async (grade: GradeLevel, subject: Subject, lesson: CurriculumLesson, changes: Partial<LessonProgress>) => {
+  try {
+    const id = getProgressId(grade, subject, lesson.id);
+    const current = await idbGet<LessonProgress>(STORES.LESSON_PROGRESS, id);
+    await idbPut(STORES.LESSON_PROGRESS, { ...current, id, grade, subject, lessonId: lesson.id, lesson: lesson.title, ...changes });
+  } catch (error) {
+    console.error("Failed to save lesson progress:", error);
+  }
+};
+
+export const markLessonExplained = (grade: GradeLevel, subject: Subject, lesson: CurriculumLesson) =>
+  updateProgress(grade, subject, lesson, { explainedAt: new Date() });
+
+// Opening the video counts as watching it; we cannot see inside the player
+export const markVideoWatched = (grade: GradeLevel, subject: Subject, lesson: CurriculumLesson) =>
+  updateProgress(grade, subject, lesson, { videoWatchedAt: new Date() });
+
+// Entries saved before lessons had ids were keyed by title; they are moved to the lesson id once
+const migrateProgressEntries = async (entries: LessonProgress[]): Promise<LessonProgress[]> => {
+  const migrated: Record<string, LessonProgress> = {};
+  for (const entry of entries.filter((item) => item.lessonId)) migrated[entry.id] = entry;
+
+  for (const entry of entries.filter((item) => !item.lessonId)) {
+    const lessonId = resolveLegacyLessonId(entry.grade, entry.subject, entry.lesson);
+    const id = getProgressId(entry.grade, entry.subject, lessonId);
+    migrated[id] = { ...entry, ...migrated[id], id, lessonId };
+    await idbPut(STORES.LESSON_PROGRESS, migrated[id]);
+    if (id !== entry.id) await idbDelete(STORES.LESSON_PROGRESS, entry.id);
+  }
+  return Object.values(migrated);
+};
+
+const loadGradeProgress = async (grade: GradeLevel) => {
+  try {
+    const [progress, quizResults] = await Promise.all([
+      idbGetAll<LessonProgress>(STORES.LESSON_PROGRESS, 'grade', grade).then(migrateProgressEntries),
+      listQuizResults(),
+    ]);
+    return { progress, quizResults: quizResults.filter((result) => result.grade === grade) };
+  } catch (error) {
+    console.error("Failed to load lesson progress:", error);
+    return { progress: [], quizResults: [] };
+  }
+};
+
+type GradeProgress = Awaited<ReturnType<typeof loadGradeProgress>>;
+
+// Keyed by lesson id; the latest quiz result per lesson wins
+const buildStatuses = ({ progress, quizResults }: GradeProgress, subject: Subject): Record<string, LessonStatus> => {
+  const lessons = new Set<string>();
+  const progressByLesson: Record<string, LessonProgress> = {};
+  const quizByLesson: Record<string, QuizResult> = {};
+
+  progress.filter((entry) => entry.subject === subject).forEach((entry) => {
+    progressByLesson[entry.lessonId] = entry;
+    lessons.add(entry.lessonId);
+  });
+  quizResults.filter((result) => result.subject === subject).forEach((result) => {
+    quizByLesson[result.lessonId] = result;
+    lessons.add(result.lessonId);
+  });
+
+  const statuses: Record<string, LessonStatus> = {};
+  lessons.forEach((lesson) => {
+    statuses[lesson] = getLessonStatus(progressByLesson[lesson], quizByLesson[lesson]);
+  });
+  return statuses;
+};
+
+// Status of every lesson the student touched in one subject
+export const getLessonStatuses = async (grade: GradeLevel, subject: Subject): Promise<Record<string, LessonStatus>> => {
+  return buildStatuses(await loadGradeProgress(grade), subject);
+};
+
+// Completion (0..1) over the whole curriculum of each subject the student has started
+export const getSubjectProgress = async (grade: GradeLevel): Promise<Partial<Record<Subject, number>>> => {
+  const gradeProgress = await loadGradeProgress(grade);
+  const subjects = new Set<Subject>([
+    ...gradeProgress.progress.map((entry) => entry.subject),
+    ...gradeProgress.quizResults.map((result) => result.subject),
+  ]);
+
+  const result: Partial<Record<Subject, number>> = {};
+  subjects.forEach((subject) => {
+    const lessons = [...getTermLessons(grade, subject, 'term1'), ...getTermLessons(grade, subject, 'term2')];
+    result[subject] = getAverageCompletion(lessons.map((lesson) => lesson.id), buildStatuses(gradeProgress, subject));
+  });
+  return result;
+};
@@ -0,0 +1,35 @@
+import { QuizResult } from "../types";
+import { STORES, idbGet, idbSet } from "../utils/db";
+import { resolveLegacyLessonId } from "../data/curriculum";
+
+// Scores of finished practice quizzes, kept on this device so lessons can show how the student did.
+
+const RESULTS_KEY = 'quiz_results';
+// Oldest results are dropped past this
+const MAX_RESULTS = 500;
+
+export const listQuizResults = async (): Promise<QuizResult[]> => {
+  try {
+    const results = (await idbGet<QuizResult[]>(STORES.KEYVAL, RESULTS_KEY)) || [];
+    if (results.every((result) => result.lessonId)) return results;
+
+    // Results saved before lessons had ids only name the lesson; they are given its id once
+    const migrated = results.map((result) => result.lessonId
+      ? result
+      : { ...result, lessonId: resolveLegacyLessonId(result.grade, result.subject, result.lesson) });
+    await idbSet(STORES.KEYVAL, RESULTS_KEY, migrated);
+    return migrated;
+  } catch (error) {
+    console.error("Failed to load quiz results:", error);
+    return [];
+  }
+};
+
+export const saveQuizResult = async (result: QuizResult): Promise<void> => {
+  try {
+    const results = await listQuizResults();
+    await idbSet(STORES.KEYVAL, RESULTS_KEY, [...results, result].slice(-MAX_RESULTS));
+  } catch (error) {
+    console.error("Failed to save quiz result:", error);
+  }
+};
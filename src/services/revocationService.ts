@@ -0,0 +1,44 @@
+import { apiUrl, postJson } from '../utils/api';
+import { verifyRevocationList } from '../utils/license';
+import { applyRevocations } from '../utils/entitlementStore';
+import { AdminSession, getAdminAuthHeaders } from './adminAuthService';
+
+// Pulls the server's signed revocation list and records it on this device.
+// Offline (or with the server unreachable) nothing changes: codes keep working until the next check.
+
+// The revoked license ids, or null if the list could not be fetched or did not verify
+export const fetchRevokedLicenseIds = async (): Promise<string[] | null> => {
+  try {
+    const response = await fetch(apiUrl('/api/revocations'));
+    if (!response.ok) return null;
+
+    const { list } = await response.json();
+    const verified = typeof list === 'string' ? await verifyRevocationList(list) : null;
+    if (!verified) {
+      console.error("Revocation list failed verification");
+      return null;
+    }
+    return verified.licenseIds;
+  } catch (error) {
+    console.error("Failed to fetch revocations:", error);
+    return null;
+  }
+};
+
+export const syncRevocations = async (): Promise<boolean> => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return false;
+
+  const licenseIds = await fetchRevokedLicenseIds();
+  return licenseIds ? applyRevocations(licenseIds) : false;
+};
+
+// Admin side: adds codes to the server's list (owner/staff session required)
+export const publishRevocations = async (session: AdminSession | null, licenseIds: string[], reason: string): Promise<boolean> => {
+  try {
+    const response = await postJson('/api/revocations', { licenseIds, reason }, { headers: getAdminAuthHeaders(session) });
+    return response.ok;
+  } catch (error) {
+    console.error("Failed to publish revocations:", error);
+    return false;
+  }
+};
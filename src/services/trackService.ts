@@ -0,0 +1,15 @@
+import { GradeLevel } from '../types';
+import { Track, TrackId, getTrack } from '../data/subjects';
+
+// The track (شعبة) the student picked for each grade that has tracks. Kept on the device only; it
+// filters the subject grid and study plan, and tells the tutor which exam the student sits.
+
+const getTrackKey = (grade: GradeLevel) => `student_track_${grade}`;
+
+// Null until a track is picked, or when the grade has no tracks
+export const getSelectedTrack = (grade: GradeLevel): Track | null =>
+  getTrack(grade, localStorage.getItem(getTrackKey(grade)) as TrackId | null);
+
+export const saveSelectedTrack = (grade: GradeLevel, track: TrackId) => {
+  localStorage.setItem(getTrackKey(grade), track);
+};
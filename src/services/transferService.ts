@@ -0,0 +1,95 @@
+import { LicenseGrade, LicensePayload, getLicenseId, verifyLicense } from '../utils/license';
+import { PlanTier } from '../data/plans';
+import { deactivateForTransfer } from '../utils/entitlementStore';
+import { LedgerEntry } from './ledgerService';
+
+// Moving a subscription to a new phone:
+// 1. The old device retires its codes and shows a receipt (its device id + the retired codes).
+// 2. The admin pastes the receipt, checks the codes are genuine and not already revoked or
+//    transferred, revokes them and issues new codes for the new device id covering the time that was left.
+// A receipt is not signed, so step 2 must never trust it to be used only once.
+
+const RECEIPT_PREFIX = 'TR1-';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReceiptWire {
+  v: 1;
+  d: string; // old device id
+  t: string[]; // retired license tokens
+  at: number; // unix seconds
+}
+
+export interface TransferReceipt {
+  deviceId: string;
+  licenses: LicensePayload[];
+  createdAt: Date;
+}
+
+export interface TransferItem {
+  grade: LicenseGrade;
+  plan: PlanTier;
+  days: number;
+  // Ids of the old codes this replaces (to revoke)
+  replaces: string[];
+}
+
+// Student side. Returns null if there is nothing to transfer.
+export const createTransferReceipt = async (now: Date = new Date()): Promise<string | null> => {
+  const retired = await deactivateForTransfer(now);
+  if (!retired) return null;
+
+  const wire: ReceiptWire = { v: 1, d: retired.deviceId, t: retired.tokens, at: Math.floor(now.getTime() / 1000) };
+  // Tokens and device ids are ASCII, so plain base64 is safe here
+  return RECEIPT_PREFIX + btoa(JSON.stringify(wire));
+};
+
+// Admin side. Only codes that verify for the receipt's device are accepted.
+export const parseTransferReceipt = async (receipt: string): Promise<TransferReceipt | null> => {
+  const trimmed = receipt.trim();
+  if (!trimmed.startsWith(RECEIPT_PREFIX)) return null;
+
+  let wire: ReceiptWire;
+  try {
+    wire = JSON.parse(atob(trimmed.slice(RECEIPT_PREFIX.length)));
+  } catch {
+    return null;
+  }
+  if (wire.v !== 1 || typeof wire.d !== 'string' || !Array.isArray(wire.t)) return null;
+
+  const licenses: LicensePayload[] = [];
+  for (const token of wire.t) {
+    const result = await verifyLicense(String(token), wire.d);
+    if (result.valid) licenses.push(result.license);
+  }
+  return { deviceId: wire.d, licenses, createdAt: new Date(wire.at * 1000) };
+};
+
+// Ids that were already revoked (on the server or in the ledger) or transferred, so a receipt
+// cannot be replayed. Codes missing from the ledger only count if the server revoked them.
+export const findSpentLicenseIds = (licenseIds: string[], ledger: LedgerEntry[], revokedIds: string[]): string[] => {
+  const revoked = new Set(revokedIds);
+  const inactive = new Set(ledger.filter((entry) => entry.status !== 'active').map((entry) => getLicenseId(entry.code)));
+  return licenseIds.filter((id) => revoked.has(id) || inactive.has(id));
+};
+
+// One replacement per grade (or bundle), with the remaining time the student app would have shown
+export const planTransfer = (licenses: LicensePayload[], now: Date = new Date()): TransferItem[] => {
+  const groups = new Map<LicenseGrade, LicensePayload[]>();
+  licenses.forEach((license) => groups.set(license.grade, [...(groups.get(license.grade) || []), license]));
+
+  const items: TransferItem[] = [];
+  groups.forEach((group, grade) => {
+    const sorted = [...group].sort((a, b) => a.issuedAt.getTime() - b.issuedAt.getTime());
+    const end = sorted.reduce((currentEnd, license) => Math.max(currentEnd, license.issuedAt.getTime()) + license.days * DAY_MS, 0);
+    const days = Math.ceil((end - now.getTime()) / DAY_MS);
+    if (days <= 0) return;
+
+    items.push({
+      grade,
+      plan: sorted[sorted.length - 1].plan,
+      days,
+      replaces: sorted.map((license) => license.id),
+    });
+  });
+  return items;
+};
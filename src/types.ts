@@ -41,10 +41,204 @@ export interface Message {
   sender: Sender;
   timestamp: Date;
   isStreaming?: boolean;
+  // The student stopped the answer before it finished
+  isStopped?: boolean;
+  // The answer failed; `text` keeps whatever arrived before the failure
+  error?: ChatErrorKind;
   attachment?: Attachment;
 }
 
+// Why a request to the tutor failed (the server's `error.code`, see server/upstream.ts)
+export type ChatErrorKind = 'quota' | 'auth' | 'network' | 'safety' | 'invalid_attachment' | 'timeout' | 'unknown';
+
 export interface ChatSession {
   grade: GradeLevel;
   subject: Subject;
-}
\ No newline at end of file
+}
+
+// Older messages of a long conversation, folded into a summary sent instead of them
+export interface ConversationSummary {
+  text: string;
+  // The last message the summary covers
+  throughMessageId: string;
+  messageCount: number;
+}
+
+export interface Conversation extends ChatSession {
+  id: string;
+  title: string;
+  messages: Message[];
+  summary?: ConversationSummary;
+  createdAt: Date;
+  updatedAt: Date;
+}
+// --- Curriculum (term → unit → lesson) ---
+
+export type CurriculumTermKey = 'term1' | 'term2';
+
+export interface CurriculumLesson {
+  // Stable across releases, e.g. "grade_10.math.term1.u1.l2"
+  id: string;
+  title: string;
+  objectives: string[];
+  keywords: string[];
+  // YouTube video to embed instead of a search
+  videoId?: string;
+}
+
+export interface CurriculumUnit {
+  id: string;
+  title: string;
+  lessons: CurriculumLesson[];
+}
+
+export interface CurriculumTerm {
+  id: string;
+  units: CurriculumUnit[];
+}
+
+export interface SubjectCurriculum {
+  grade: GradeLevel;
+  subject: Subject;
+  terms: Record<CurriculumTermKey, CurriculumTerm>;
+}
+
+// A published curriculum: the bundled src/data/curriculum.json or a newer one from the server
+export interface CurriculumDocument {
+  schemaVersion: 1;
+  // Bumped on every publish; clients keep the highest they have seen
+  version: number;
+  publishedAt: string;
+  subjects: SubjectCurriculum[];
+}
+
+// --- Practice quizzes ---
+
+export type QuizQuestionKind = 'mcq' | 'true_false' | 'essay';
+
+interface QuizQuestionBase {
+  id: string;
+  question: string;
+  // Shown after the student answers
+  explanation: string;
+}
+
+export interface McqQuestion extends QuizQuestionBase {
+  kind: 'mcq';
+  options: string[];
+  correctIndex: number;
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  kind: 'true_false';
+  answer: boolean;
+}
+
+// Not auto-graded: the student compares with the model answer and marks it (exams grade it with the AI)
+export interface EssayQuestion extends QuizQuestionBase {
+  kind: 'essay';
+  modelAnswer: string;
+  // Points a full-mark answer must cover
+  rubric: string[];
+}
+
+export type QuizQuestion = McqQuestion | TrueFalseQuestion | EssayQuestion;
+
+// --- Flashcards ---
+
+export type FlashcardSource = 'chat' | 'lesson' | 'term';
+
+export interface Flashcard {
+  id: string;
+  grade: GradeLevel;
+  subject: Subject;
+  front: string;
+  back: string;
+  source: FlashcardSource;
+  // Set for cards made from a lesson; the title is kept for display
+  lessonId?: string;
+  lesson?: string;
+  createdAt: Date;
+  // SM-2 schedule (see utils/sm2.ts)
+  repetitions: number;
+  interval: number;
+  easeFactor: number;
+  dueAt: Date;
+  lastReviewedAt?: Date;
+}
+
+// --- Lesson progress ---
+
+// Quiz scores are kept with the quiz results, not here
+export interface LessonProgress {
+  id: string;
+  grade: GradeLevel;
+  subject: Subject;
+  // CurriculumLesson id; the title is kept for display
+  lessonId: string;
+  lesson: string;
+  explainedAt?: Date;
+  videoWatchedAt?: Date;
+}
+
+// AI grade for one written exam answer
+export interface WrittenAnswerGrade {
+  awarded: number;
+  feedback: string;
+}
+
+export interface QuizResult {
+  grade: GradeLevel;
+  subject: Subject;
+  lessonId: string;
+  lesson: string;
+  score: number;
+  total: number;
+  takenAt: Date;
+}
+
+// --- Analytics (on-device activity log) ---
+
+export type LessonAction = 'explain' | 'video' | 'quiz' | 'cards';
+
+interface AnalyticsEventBase {
+  id: string;
+  grade: GradeLevel;
+  subject: Subject;
+  at: Date;
+}
+
+export type AnalyticsEvent = AnalyticsEventBase & (
+  // Time with a subject's chat on screen
+  | { type: 'study_time'; durationMs: number }
+  | { type: 'message_sent' }
+  | { type: 'lesson_action'; lesson: string; action: LessonAction }
+  | { type: 'quiz_completed'; lesson: string; score: number; total: number }
+  | { type: 'exam_completed'; score: number; total: number }
+);
+
+// --- Study planner ---
+
+interface StudyPlanItemBase {
+  id: string;
+  // Local calendar day, "YYYY-MM-DD"
+  date: string;
+  subject: Subject;
+  minutes: number;
+  doneAt?: Date;
+}
+
+export type StudyPlanItem = StudyPlanItemBase & (
+  | { kind: 'lesson'; lessonId: string; lesson: string }
+  | { kind: 'review'; lessons: string[] }
+);
+
+export interface StudyPlan {
+  grade: GradeLevel;
+  term: CurriculumTermKey;
+  // "YYYY-MM-DD"; nothing is scheduled on or after it
+  examDate: string;
+  hoursPerDay: number;
+  createdAt: Date;
+  items: StudyPlanItem[];
+}
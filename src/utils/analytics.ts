@@ -0,0 +1,119 @@
+import { AnalyticsEvent, Subject } from '../types';
+
+// Dashboard figures computed from the on-device activity log.
+// Days are local calendar days, so a streak follows the student's own midnight.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Lessons scoring below this over their recent quizzes are listed as weak
+const WEAK_THRESHOLD = 0.6;
+// Only the latest attempts count, so a lesson that was revised stops showing as weak
+const RECENT_ATTEMPTS = 3;
+
+export interface SubjectStudyTime {
+  subject: Subject;
+  minutes: number;
+}
+
+export interface AccuracyPoint {
+  day: string;
+  // 0..100
+  accuracy: number;
+}
+
+export interface WeakLesson {
+  subject: Subject;
+  lesson: string;
+  // 0..1
+  accuracy: number;
+  attempts: number;
+}
+
+export interface StudyStreak {
+  current: number;
+  longest: number;
+  activeDays: number;
+}
+
+export const toDayKey = (date: Date): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const dayNumber = (dayKey: string): number => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
+export const getStudyTimeBySubject = (events: AnalyticsEvent[]): SubjectStudyTime[] => {
+  const totals: Partial<Record<Subject, number>> = {};
+  events.forEach((event) => {
+    if (event.type === 'study_time') totals[event.subject] = (totals[event.subject] || 0) + event.durationMs;
+  });
+  return (Object.entries(totals) as [Subject, number][])
+    .map(([subject, ms]) => ({ subject, minutes: Math.round(ms / 60000) }))
+    .filter((entry) => entry.minutes > 0)
+    .sort((a, b) => b.minutes - a.minutes);
+};
+
+// Daily accuracy over quizzes and mock exams, for the days that had any
+export const getAccuracyTrend = (events: AnalyticsEvent[], days = 30, now: Date = new Date()): AccuracyPoint[] => {
+  const since = now.getTime() - days * DAY_MS;
+  const byDay: Record<string, { score: number; total: number }> = {};
+
+  events.forEach((event) => {
+    if ((event.type !== 'quiz_completed' && event.type !== 'exam_completed') || event.total <= 0) return;
+    if (event.at.getTime() < since) return;
+    const key = toDayKey(event.at);
+    byDay[key] = byDay[key] || { score: 0, total: 0 };
+    byDay[key].score += event.score;
+    byDay[key].total += event.total;
+  });
+
+  return Object.keys(byDay).sort().map((day) => ({
+    day,
+    accuracy: Math.round((byDay[day].score / byDay[day].total) * 100),
+  }));
+};
+
+export const getWeakLessons = (events: AnalyticsEvent[], limit = 5): WeakLesson[] => {
+  const attempts: Record<string, { subject: Subject; lesson: string; results: { score: number; total: number; at: number }[] }> = {};
+
+  events.forEach((event) => {
+    if (event.type !== 'quiz_completed' || event.total <= 0) return;
+    const key = `${event.subject}|${event.lesson}`;
+    attempts[key] = attempts[key] || { subject: event.subject, lesson: event.lesson, results: [] };
+    attempts[key].results.push({ score: event.score, total: event.total, at: event.at.getTime() });
+  });
+
+  return Object.values(attempts)
+    .map(({ subject, lesson, results }) => {
+      const recent = results.sort((a, b) => a.at - b.at).slice(-RECENT_ATTEMPTS);
+      const score = recent.reduce((sum, result) => sum + result.score, 0);
+      const total = recent.reduce((sum, result) => sum + result.total, 0);
+      return { subject, lesson, accuracy: score / total, attempts: results.length };
+    })
+    .filter((lesson) => lesson.accuracy < WEAK_THRESHOLD)
+    .sort((a, b) => a.accuracy - b.accuracy)
+    .slice(0, limit);
+};
+
+// A streak survives until the end of the day after the last activity
+export const getStudyStreak = (events: AnalyticsEvent[], now: Date = new Date()): StudyStreak => {
+  const days = Array.from(new Set(events.map((event) => dayNumber(toDayKey(event.at))))).sort((a, b) => a - b);
+  if (days.length === 0) return { current: 0, longest: 0, activeDays: 0 };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const today = dayNumber(toDayKey(now));
+  const last = days[days.length - 1];
+  return {
+    current: today - last <= 1 ? run : 0,
+    longest,
+    activeDays: days.length,
+  };
+};
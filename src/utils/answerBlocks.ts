@@ -0,0 +1,270 @@
+// Charts and flow diagrams the tutor can put in an answer as fenced blocks:
+//
+//   ```chart                                  ```flow
+//   { "type": "line", "title": "...",         flowchart TD
+//     "xLabel": "V", "yLabel": "I",             A[الضوء] --> B(البناء الضوئي)
+//     "series": [{ "name": "...",               B -->|ينتج| C{جلوكوز؟}
+//                  "data": [[0, 0], [2, 1]] }] }  ```
+//   ```
+//
+// Everything here is parsed, never evaluated, and checked against small limits. Anything that does not
+// fit returns null and the block is shown as plain text (which is also what happens mid-stream).
+
+export type ChartType = 'line' | 'bar' | 'scatter';
+
+export interface ChartSeries {
+  name: string;
+  data: [number | string, number][];
+}
+
+export interface ChartSpec {
+  type: ChartType;
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  series: ChartSeries[];
+}
+
+export type FlowNodeShape = 'box' | 'round' | 'circle' | 'decision';
+
+export interface FlowNode {
+  id: string;
+  label: string;
+  shape: FlowNodeShape;
+}
+
+export interface FlowEdge {
+  from: string;
+  to: string;
+  label?: string;
+  dashed?: boolean;
+}
+
+export interface FlowDiagram {
+  // TD: top to bottom; LR: across, in reading order (right to left)
+  direction: 'TD' | 'LR';
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+}
+
+const CHART_TYPES: ChartType[] = ['line', 'bar', 'scatter'];
+const MAX_SERIES = 6;
+const MAX_POINTS = 200;
+const MAX_NODES = 30;
+const MAX_EDGES = 60;
+const MAX_TEXT = 80;
+
+const readText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_TEXT) : undefined;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const parseChartSpec = (source: string): ChartSpec | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    return null;
+  }
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { type, title, xLabel, yLabel, series } = raw as Record<string, unknown>;
+
+  if (!CHART_TYPES.includes(type as ChartType)) return null;
+  if (!Array.isArray(series) || series.length === 0 || series.length > MAX_SERIES) return null;
+
+  const parsedSeries: ChartSeries[] = [];
+  for (const [index, item] of series.entries()) {
+    const data = (item as { data?: unknown })?.data;
+    if (!Array.isArray(data) || data.length === 0 || data.length > MAX_POINTS) return null;
+
+    const points: [number | string, number][] = [];
+    for (const point of data) {
+      if (!Array.isArray(point) || point.length !== 2 || !isFiniteNumber(point[1])) return null;
+      const x = isFiniteNumber(point[0]) ? point[0] : readText(point[0]);
+      if (x === undefined) return null;
+      points.push([x, point[1]]);
+    }
+    parsedSeries.push({ name: readText((item as { name?: unknown }).name) || `السلسلة ${index + 1}`, data: points });
+  }
+
+  return { type: type as ChartType, title: readText(title), xLabel: readText(xLabel), yLabel: readText(yLabel), series: parsedSeries };
+};
+
+// --- Flow diagrams (a small subset of Mermaid flowchart syntax) ---
+
+const HEADER = /^(?:flowchart|graph)(?:\s+(TD|TB|BT|LR|RL))?$/i;
+// Lines Mermaid allows that only change styling or grouping; they are skipped
+const IGNORED_LINE = /^(?:%%|style\s|classDef\s|class\s|linkStyle\s|click\s|subgraph\b|end$)/;
+const NODE_ID = /^[\w؀-ۿ]+/;
+// Ordered so that the longer brackets are tried first
+const SHAPES: [string, string, FlowNodeShape][] = [
+  ['((', '))', 'circle'],
+  ['([', '])', 'round'],
+  ['[', ']', 'box'],
+  ['(', ')', 'round'],
+  ['{', '}', 'decision'],
+];
+const EDGE = /^\s*(?:(-->|---|==>|-\.->)\s*(?:\|([^|]*)\|)?|--\s+([^-|]+?)\s+-->)\s*/;
+
+const unquote = (text: string) => text.trim().replace(/^"(.*)"$/, '$1').trim();
+
+export const parseFlowDiagram = (source: string): FlowDiagram | null => {
+  const lines = source.split(/\n|;/).map((line) => line.trim()).filter(Boolean);
+  let direction: FlowDiagram['direction'] = 'TD';
+  const nodes = new Map<string, FlowNode>();
+  const edges: FlowEdge[] = [];
+
+  // Reads one node at the start of `text`; returns its id and what is left of the line
+  const readNode = (text: string): [string, string] | null => {
+    const id = NODE_ID.exec(text)?.[0];
+    if (!id) return null;
+    let rest = text.slice(id.length);
+    let label: string | undefined;
+    let shape: FlowNodeShape = 'box';
+
+    const opening = SHAPES.find(([open]) => rest.startsWith(open));
+    if (opening) {
+      const [open, close, openingShape] = opening;
+      const end = rest.indexOf(close, open.length);
+      if (end < 0) return null;
+      label = readText(unquote(rest.slice(open.length, end)));
+      shape = openingShape;
+      rest = rest.slice(end + close.length);
+    }
+
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, { id, label: label || id, shape });
+    } else if (label) {
+      // A later mention may give the label to a node first used bare
+      nodes.set(id, { id, label, shape });
+    }
+    return [id, rest];
+  };
+
+  for (const [index, line] of lines.entries()) {
+    const header = HEADER.exec(line);
+    if (header) {
+      if (index !== 0) return null;
+      direction = ['LR', 'RL'].includes((header[1] || '').toUpperCase()) ? 'LR' : 'TD';
+      continue;
+    }
+    if (IGNORED_LINE.test(line)) continue;
+
+    // A chain of nodes joined by edges: A --> B -->|label| C
+    let node = readNode(line);
+    if (!node) return null;
+    let [from, rest] = node;
+    while (rest.trim()) {
+      const edge = EDGE.exec(rest);
+      if (!edge) return null;
+      node = readNode(rest.slice(edge[0].length));
+      if (!node) return null;
+      const label = readText(unquote(edge[2] || edge[3] || ''));
+      edges.push({ from, to: node[0], ...(label ? { label } : {}), ...(edge[1] === '-.->' ? { dashed: true } : {}) });
+      [from, rest] = node;
+    }
+  }
+
+  if (nodes.size === 0 || nodes.size > MAX_NODES || edges.length > MAX_EDGES) return null;
+  return { direction, nodes: Array.from(nodes.values()), edges };
+};
+
+// --- Layout ---
+
+export const FLOW_NODE_WIDTH = 150;
+export const FLOW_NODE_HEIGHT = 56;
+const GAP_ACROSS = 24;
+const GAP_ALONG = 56;
+
+export interface PositionedFlowNode extends FlowNode {
+  x: number;
+  y: number;
+}
+
+export interface PositionedFlowEdge extends FlowEdge {
+  points: [number, number][];
+}
+
+export interface FlowLayout {
+  width: number;
+  height: number;
+  nodes: PositionedFlowNode[];
+  edges: PositionedFlowEdge[];
+}
+
+// Each node goes one rank after the furthest node pointing at it; edges that close a cycle are
+// left out of the ranking. Ranks run down the page (TD) or from right to left (LR).
+export const layoutFlowDiagram = (diagram: FlowDiagram): FlowLayout => {
+  const outgoing = new Map<string, string[]>();
+  diagram.edges.forEach(({ from, to }) => outgoing.set(from, [...(outgoing.get(from) || []), to]));
+
+  // Depth-first order; a target still on the stack is a back edge
+  const state = new Map<string, 'visiting' | 'done'>();
+  const forward = new Set<string>();
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    (outgoing.get(id) || []).forEach((to) => {
+      if (state.get(to) === 'visiting') return;
+      forward.add(`${id}>${to}`);
+      if (!state.has(to)) visit(to);
+    });
+    state.set(id, 'done');
+  };
+  diagram.nodes.forEach(({ id }) => { if (!state.has(id)) visit(id); });
+
+  const rank = new Map<string, number>(diagram.nodes.map(({ id }) => [id, 0]));
+  // Longest path; at most one pass per node is needed on an acyclic graph
+  for (let pass = 0; pass < diagram.nodes.length; pass++) {
+    let changed = false;
+    diagram.edges.forEach(({ from, to }) => {
+      if (forward.has(`${from}>${to}`) && rank.get(to)! < rank.get(from)! + 1) {
+        rank.set(to, rank.get(from)! + 1);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  const ranks: FlowNode[][] = [];
+  diagram.nodes.forEach((node) => {
+    const index = rank.get(node.id)!;
+    ranks[index] = [...(ranks[index] || []), node];
+  });
+
+  const isAcross = diagram.direction === 'LR';
+  const widest = Math.max(...ranks.map((row) => row.length));
+  const alongSize = isAcross ? FLOW_NODE_WIDTH : FLOW_NODE_HEIGHT;
+  const acrossSize = isAcross ? FLOW_NODE_HEIGHT : FLOW_NODE_WIDTH;
+  const acrossLength = widest * (acrossSize + GAP_ACROSS) - GAP_ACROSS;
+  const alongLength = ranks.length * (alongSize + GAP_ALONG) - GAP_ALONG;
+  const width = isAcross ? alongLength : acrossLength;
+  const height = isAcross ? acrossLength : alongLength;
+
+  const positions = new Map<string, PositionedFlowNode>();
+  ranks.forEach((row, rankIndex) => {
+    const offset = (acrossLength - (row.length * (acrossSize + GAP_ACROSS) - GAP_ACROSS)) / 2;
+    row.forEach((node, index) => {
+      const along = rankIndex * (alongSize + GAP_ALONG);
+      const across = offset + index * (acrossSize + GAP_ACROSS);
+      // Mirrored horizontally so the first node sits on the right, where Arabic reading starts
+      positions.set(node.id, isAcross
+        ? { ...node, x: width - along - FLOW_NODE_WIDTH, y: across }
+        : { ...node, x: width - across - FLOW_NODE_WIDTH, y: along });
+    });
+  });
+
+  const edges = diagram.edges.map((edge): PositionedFlowEdge => {
+    const from = positions.get(edge.from)!;
+    const to = positions.get(edge.to)!;
+    const start: [number, number] = isAcross
+      ? [from.x, from.y + FLOW_NODE_HEIGHT / 2]
+      : [from.x + FLOW_NODE_WIDTH / 2, from.y + FLOW_NODE_HEIGHT];
+    const end: [number, number] = isAcross
+      ? [to.x + FLOW_NODE_WIDTH, to.y + FLOW_NODE_HEIGHT / 2]
+      : [to.x + FLOW_NODE_WIDTH / 2, to.y];
+    return { ...edge, points: [start, end] };
+  });
+
+  return { width, height, nodes: Array.from(positions.values()), edges };
+};
@@ -0,0 +1,44 @@
+// Helpers for talking to the backend in /server.
+// API_BASE_URL is empty by default: same origin, which the Vite dev proxy forwards to the server.
+
+const API_BASE_URL = (process.env.API_BASE_URL || '').replace(/\/$/, '');
+
+export const apiUrl = (path: string): string => `${API_BASE_URL}${path}`;
+
+export const wsUrl = (path: string): string => {
+  const base = API_BASE_URL || window.location.origin;
+  return base.replace(/^http/, 'ws') + path;
+};
+
+export const postJson = (path: string, body: unknown, init?: RequestInit): Promise<Response> => {
+  return fetch(apiUrl(path), {
+    ...init,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+    body: JSON.stringify(body),
+  });
+};
+
+// Reads an `application/x-ndjson` response line by line
+export const readNdjson = async <T>(response: Response, onLine: (line: T) => void): Promise<void> => {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) onLine(JSON.parse(line) as T);
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.trim()) onLine(JSON.parse(buffer) as T);
+};
@@ -0,0 +1,71 @@
+import { Attachment, ConversationSummary, Message, Sender } from '../types';
+
+// Keeps what is sent with each chat turn within a token budget.
+// The newest messages go as they are; older ones are folded into a running summary
+// (see summarizeConversation in services/geminiService.ts) that is stored with the conversation.
+// Only the most recent attachments are sent again; older ones are mentioned by name.
+
+// Rough figures: Arabic text runs about 3 characters per token
+const CHARS_PER_TOKEN = 3;
+const ATTACHMENT_TOKENS: Record<Attachment['type'], number> = { image: 260, audio: 1500, file: 2000 };
+
+export const HISTORY_TOKEN_BUDGET = 8000;
+// Always kept word for word, however long
+const MIN_RECENT_MESSAGES = 4;
+// Older messages are summarized in batches, so the summary is not rewritten every turn
+const SUMMARY_BATCH = 6;
+export const MAX_INLINE_ATTACHMENTS = 2;
+// The server refuses longer histories (MAX_HISTORY_ENTRIES in server/routes/gemini.ts)
+export const MAX_HISTORY_MESSAGES = 100;
+
+export const estimateTokens = (message: Message): number =>
+  Math.ceil(message.text.length / CHARS_PER_TOKEN) + (message.attachment ? ATTACHMENT_TOKENS[message.attachment.type] : 0);
+
+export interface HistoryPlan {
+  // Sent as they are
+  recent: Message[];
+  // Older than `recent` and not covered by the current summary yet
+  toSummarize: Message[];
+  // Null when the summary no longer matches the history (e.g. an edited question removed its end)
+  summary: ConversationSummary | null;
+}
+
+export const planHistory = (history: Message[], summary?: ConversationSummary): HistoryPlan => {
+  const summaryEnd = summary ? history.findIndex((msg) => msg.id === summary.throughMessageId) : -1;
+  const validSummary = summary && summaryEnd >= 0 ? summary : null;
+  const start = summaryEnd + 1;
+
+  // Walk back from the newest message until the budget is spent
+  let used = 0;
+  let cut = history.length;
+  while (cut > start) {
+    const cost = estimateTokens(history[cut - 1]);
+    if (history.length - cut >= MIN_RECENT_MESSAGES && used + cost > HISTORY_TOKEN_BUDGET) break;
+    used += cost;
+    cut--;
+  }
+
+  // Wait for a full batch before summarizing; until then the overflow still goes as it is
+  if (cut - start < SUMMARY_BATCH) {
+    return { recent: history.slice(start), toSummarize: [], summary: validSummary };
+  }
+  return { recent: history.slice(cut), toSummarize: history.slice(start, cut), summary: validSummary };
+};
+
+// Used when the summary could not be made: the newest messages the server still accepts,
+// starting at a question so no answer goes without the question it belongs to
+export const keepRecentMessages = (messages: Message[]): Message[] => {
+  const recent = messages.slice(-MAX_HISTORY_MESSAGES);
+  const firstQuestion = recent.findIndex((msg) => msg.sender === Sender.USER);
+  return firstQuestion > 0 ? recent.slice(firstQuestion) : recent;
+};
+
+// Ids of the messages whose attachments are sent again (the newest ones)
+export const getInlineAttachmentIds = (messages: Message[]): Set<string> =>
+  new Set(messages.filter((msg) => msg.attachment).slice(-MAX_INLINE_ATTACHMENTS).map((msg) => msg.id));
+
+const ATTACHMENT_LABELS: Record<Attachment['type'], string> = { image: 'صورة', audio: 'تسجيل صوتي', file: 'ملف' };
+
+// Stands in for an attachment that is no longer sent
+export const describeAttachment = (attachment: Attachment): string =>
+  `[مرفق سابق: ${ATTACHMENT_LABELS[attachment.type]}${attachment.name ? ` "${attachment.name}"` : ''}]`;
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+  it('guards cells a spreadsheet would run as formulas', () => {
+    const csv = toCsv([['=HYPERLINK("http://x")', '+201001234567', '-5', '@SUM(A1)', 'أحمد']]);
+    expect(csv).toBe('\uFEFF"\'=HYPERLINK(""http://x"")",\'+201001234567,\'-5,\'@SUM(A1),أحمد');
+  });
+
+  it('reads back what it wrote', () => {
+    const rows = [['=1+1', 'أحمد, علي', 'سطر\nجديد', '"مقتبس"', '+20100']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
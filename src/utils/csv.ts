@@ -0,0 +1,75 @@
+// RFC 4180 CSV: fields with commas, quotes or newlines are quoted, quotes are doubled.
+// Fields that a spreadsheet would run as a formula (names and phones come from the public
+// checkout) get a leading `'`, which parseCsv removes again.
+
+const needsQuoting = /[",\r\n]/;
+const FORMULA_START = /^[=+\-@\t\r]/;
+const FORMULA_GUARD = /^'(?=[=+\-@\t\r])/;
+
+const escapeField = (value: string): string => {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return needsQuoting.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// Prefixed with a BOM so Excel opens the Arabic text as UTF-8
+export const toCsv = (rows: string[][]): string => {
+  return '\uFEFF' + rows.map((row) => row.map(escapeField).join(',')).join('\r\n');
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows
+    .filter((r) => r.some((value) => value.trim() !== ''))
+    .map((r) => r.map((value) => value.replace(FORMULA_GUARD, '')));
+};
+
+export const downloadFile = (content: string, filename: string, type = 'text/csv;charset=utf-8') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
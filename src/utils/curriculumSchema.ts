@@ -0,0 +1,121 @@
+import { CurriculumDocument, CurriculumTermKey, GradeLevel, Subject, SubjectCurriculum } from '../types';
+import { CurriculumSplit, migrateSubjectCurriculum } from '../data/curriculumMigration';
+
+// Checks a curriculum document before it is used (client) or published (server).
+// Errors carry the path of the bad field, e.g. "subjects[3].terms.term1.units[0].title: مطلوب".
+// Subjects still in the old flat format ({ term1: string[], term2: string[] }) are converted on the way in.
+
+export const CURRICULUM_SCHEMA_VERSION = 1;
+const TERM_KEYS: CurriculumTermKey[] = ['term1', 'term2'];
+const YOUTUBE_ID = /^[A-Za-z0-9_-]{11}$/;
+
+export type CurriculumValidation =
+  | { ok: true; document: CurriculumDocument }
+  | { ok: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isFlatSplit = (value: Record<string, unknown>): boolean =>
+  !('terms' in value) && TERM_KEYS.every((term) => isStringList(value[term]));
+
+export const validateCurriculumDocument = (input: unknown): CurriculumValidation => {
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+
+  const checkId = (id: unknown, path: string) => {
+    if (!isNonEmptyString(id)) {
+      errors.push(`${path}.id: مطلوب`);
+    } else if (seenIds.has(id)) {
+      errors.push(`${path}.id: مكرر (${id})`);
+    } else {
+      seenIds.add(id);
+    }
+  };
+
+  const checkLesson = (value: unknown, path: string) => {
+    if (!isObject(value)) {
+      errors.push(`${path}: يجب أن يكون كائناً`);
+      return;
+    }
+    checkId(value.id, path);
+    if (!isNonEmptyString(value.title)) errors.push(`${path}.title: مطلوب`);
+    if (!isStringList(value.objectives)) errors.push(`${path}.objectives: يجب أن تكون قائمة نصوص`);
+    if (!isStringList(value.keywords)) errors.push(`${path}.keywords: يجب أن تكون قائمة نصوص`);
+    if (value.videoId !== undefined && (typeof value.videoId !== 'string' || !YOUTUBE_ID.test(value.videoId))) {
+      errors.push(`${path}.videoId: معرف فيديو يوتيوب غير صالح`);
+    }
+  };
+
+  const checkUnit = (value: unknown, path: string) => {
+    if (!isObject(value)) {
+      errors.push(`${path}: يجب أن يكون كائناً`);
+      return;
+    }
+    checkId(value.id, path);
+    if (!isNonEmptyString(value.title)) errors.push(`${path}.title: مطلوب`);
+    if (!Array.isArray(value.lessons)) {
+      errors.push(`${path}.lessons: يجب أن تكون قائمة`);
+    } else {
+      value.lessons.forEach((lesson, index) => checkLesson(lesson, `${path}.lessons[${index}]`));
+    }
+  };
+
+  const checkTerm = (value: unknown, path: string) => {
+    if (!isObject(value)) {
+      errors.push(`${path}: مطلوب`);
+      return;
+    }
+    checkId(value.id, path);
+    if (!Array.isArray(value.units)) {
+      errors.push(`${path}.units: يجب أن تكون قائمة`);
+    } else {
+      value.units.forEach((unit, index) => checkUnit(unit, `${path}.units[${index}]`));
+    }
+  };
+
+  const readSubject = (value: unknown, path: string, seenSubjects: Set<string>): SubjectCurriculum | null => {
+    if (!isObject(value)) {
+      errors.push(`${path}: يجب أن يكون كائناً`);
+      return null;
+    }
+    const { grade, subject } = value;
+    if (!Object.values(GradeLevel).includes(grade as GradeLevel)) errors.push(`${path}.grade: صف غير معروف`);
+    if (!Object.values(Subject).includes(subject as Subject)) errors.push(`${path}.subject: مادة غير معروفة`);
+
+    const key = `${grade}|${subject}`;
+    if (seenSubjects.has(key)) errors.push(`${path}: المادة مكررة لنفس الصف`);
+    seenSubjects.add(key);
+
+    const curriculum = isFlatSplit(value)
+      ? migrateSubjectCurriculum(grade as GradeLevel, subject as Subject, value as unknown as CurriculumSplit)
+      : value as unknown as SubjectCurriculum;
+
+    if (!isObject(curriculum.terms)) {
+      errors.push(`${path}.terms: مطلوب`);
+    } else {
+      TERM_KEYS.forEach((term) => checkTerm(curriculum.terms[term], `${path}.terms.${term}`));
+    }
+    return curriculum;
+  };
+
+  if (!isObject(input)) return { ok: false, errors: ['المستند يجب أن يكون كائن JSON'] };
+  if (input.schemaVersion !== CURRICULUM_SCHEMA_VERSION) errors.push(`schemaVersion: يجب أن يكون ${CURRICULUM_SCHEMA_VERSION}`);
+  if (!Number.isInteger(input.version) || (input.version as number) < 1) errors.push('version: يجب أن يكون رقماً صحيحاً موجباً');
+  if (!isNonEmptyString(input.publishedAt) || Number.isNaN(Date.parse(input.publishedAt))) errors.push('publishedAt: تاريخ غير صالح');
+
+  let subjects: SubjectCurriculum[] = [];
+  if (!Array.isArray(input.subjects)) {
+    errors.push('subjects: يجب أن تكون قائمة');
+  } else {
+    const seenSubjects = new Set<string>();
+    subjects = input.subjects.flatMap((subject, index) => readSubject(subject, `subjects[${index}]`, seenSubjects) || []);
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, document: { ...(input as unknown as CurriculumDocument), subjects } };
+};
@@ -0,0 +1,115 @@
+// Small promise wrapper around IndexedDB.
+// All on-device stores (chat history, etc.) live in one database so upgrades happen in one place.
+
+const DB_NAME = 'thanaweya_smart_teacher';
+const DB_VERSION = 6;
+
+export const STORES = {
+  CONVERSATIONS: 'conversations',
+  // Out-of-line keys: small named values (entitlement record, signing key, ...)
+  KEYVAL: 'keyval',
+  // Admin only: every activation code issued from this browser
+  LEDGER: 'ledger',
+  // Spaced-repetition cards, looked up by grade
+  FLASHCARDS: 'flashcards',
+  // What the student has done per lesson, looked up by grade
+  LESSON_PROGRESS: 'lesson_progress',
+  // Activity log behind the progress dashboard, looked up by grade
+  ANALYTICS: 'analytics',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Conversations are looked up by grade + subject
+      if (!db.objectStoreNames.contains(STORES.CONVERSATIONS)) {
+        const store = db.createObjectStore(STORES.CONVERSATIONS, { keyPath: 'id' });
+        store.createIndex('sessionKey', 'sessionKey', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORES.KEYVAL)) {
+        db.createObjectStore(STORES.KEYVAL);
+      }
+      if (!db.objectStoreNames.contains(STORES.LEDGER)) {
+        db.createObjectStore(STORES.LEDGER, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.FLASHCARDS)) {
+        const store = db.createObjectStore(STORES.FLASHCARDS, { keyPath: 'id' });
+        store.createIndex('grade', 'grade', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORES.LESSON_PROGRESS)) {
+        const store = db.createObjectStore(STORES.LESSON_PROGRESS, { keyPath: 'id' });
+        store.createIndex('grade', 'grade', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORES.ANALYTICS)) {
+        const store = db.createObjectStore(STORES.ANALYTICS, { keyPath: 'id' });
+        store.createIndex('grade', 'grade', { unique: false });
+      }
+    };
+
+    // Another tab (running an older build) still has the database open; the upgrade waits until it closes
+    request.onblocked = () => {
+      console.error("IndexedDB upgrade is blocked by another open tab");
+      alert("يوجد تبويب آخر مفتوح للتطبيق. أغلقه ليكتمل تحديث البيانات المحفوظة.");
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // A newer build opened in another tab wants to upgrade: let it. The next call reopens,
+      // which fails until this tab is reloaded with the new version.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null; // Allow a later retry
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDB();
+  return promisify<T | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbGetAll = async <T>(store: StoreName, indexName?: string, query?: IDBValidKey): Promise<T[]> => {
+  const db = await openDB();
+  const objectStore = db.transaction(store, 'readonly').objectStore(store);
+  const source = indexName ? objectStore.index(indexName) : objectStore;
+  return promisify<T[]>(source.getAll(query));
+};
+
+export const idbPut = async <T>(store: StoreName, value: T): Promise<void> => {
+  const db = await openDB();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+// For stores without a keyPath (KEYVAL)
+export const idbSet = async <T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> => {
+  const db = await openDB();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDB();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
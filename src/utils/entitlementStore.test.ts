@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GradeLevel } from '../types';
+
+// The store only sees IndexedDB through ./db; both stores and the cookie jar outlive a "reload",
+// which re-imports the module so its cached signing key is gone as after a real page load.
+const storage = vi.hoisted(() => ({
+  idb: new Map<string, unknown>(),
+  local: new Map<string, string>(),
+  cookies: new Map<string, string>(),
+}));
+
+vi.mock('./db', () => ({
+  STORES: { KEYVAL: 'keyval' },
+  idbGet: async (_store: string, key: string) => storage.idb.get(key),
+  idbSet: async (_store: string, key: string, value: unknown) => { storage.idb.set(key, value); },
+}));
+
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.local.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.local.set(key, String(value)); },
+  removeItem: (key: string) => { storage.local.delete(key); },
+});
+vi.stubGlobal('document', {
+  get cookie() {
+    return Array.from(storage.cookies, ([name, value]) => `${name}=${value}`).join('; ');
+  },
+  set cookie(value: string) {
+    const [name, cookieValue] = value.split(';')[0].split('=');
+    storage.cookies.set(name, cookieValue);
+  },
+});
+vi.stubGlobal('window', { crypto: globalThis.crypto });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-05-01T09:00:00Z');
+const GRADE = GradeLevel.GRADE_12;
+
+const reload = async (now: Date = NOW) => {
+  vi.resetModules();
+  const store = await import('./entitlementStore');
+  const state = await store.loadEntitlement(now);
+  return { state, evaluation: store.evaluateEntitlement(state, GRADE, now) };
+};
+
+const deleteRecord = () => {
+  storage.local.delete('entitlement_record');
+  storage.idb.delete('entitlement_record');
+};
+
+describe('entitlementStore', () => {
+  beforeEach(() => {
+    storage.idb.clear();
+    storage.local.clear();
+    storage.cookies.clear();
+  });
+
+  it('starts a trial on a fresh device and keeps it across reloads', async () => {
+    expect((await reload()).evaluation.status).toBe('trial');
+
+    const { state, evaluation } = await reload(new Date(NOW.getTime() + DAY_MS));
+    expect(state.tampered).toBe(false);
+    expect(evaluation.status).toBe('trial');
+  });
+
+  it('ends the trial when the record is deleted from both stores', async () => {
+    await reload();
+    deleteRecord();
+
+    const { state, evaluation } = await reload();
+    expect(state.tampered).toBe(true);
+    expect(evaluation.status).toBe('tampered');
+
+    // The rewritten record verifies again, but the trial stays over
+    expect((await reload()).evaluation.status).toBe('trial_ended');
+  });
+
+  it('ignores forged legacy keys planted after deleting the record', async () => {
+    await reload();
+    deleteRecord();
+    storage.local.set(`subscription_expiry_${GRADE}`, '2099-01-01');
+    storage.local.set('trial_start_date', NOW.toISOString());
+
+    const { state, evaluation } = await reload();
+    expect(state.tampered).toBe(true);
+    expect(state.legacyGrants).toEqual({});
+    expect(evaluation.status).toBe('tampered');
+    expect(storage.local.has(`subscription_expiry_${GRADE}`)).toBe(false);
+
+    const next = await reload();
+    expect(next.state.legacyGrants).toEqual({});
+    expect(next.evaluation.status).toBe('trial_ended');
+  });
+
+  it('carries a legacy subscription over once, capped at 30 days', async () => {
+    storage.local.set(`subscription_expiry_${GRADE}`, '2099-01-01');
+
+    const { state, evaluation } = await reload();
+    expect(state.tampered).toBe(false);
+    expect(evaluation.status).toBe('subscribed');
+    expect(evaluation.subscriptionEndsAt).toEqual(new Date(NOW.getTime() + 30 * DAY_MS));
+
+    // Planting the key again on a device that already ran is not a first run
+    storage.local.set(`subscription_expiry_${GradeLevel.GRADE_11}`, '2099-01-01');
+    expect((await reload()).state.legacyGrants).toEqual({ [GRADE]: NOW.getTime() + 30 * DAY_MS });
+  });
+});
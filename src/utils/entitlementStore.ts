@@ -0,0 +1,355 @@
+import { GradeLevel } from '../types';
+import { LicensePayload, LicenseVerification, getLicenseGrades, getLicenseId, verifyLicense } from './license';
+import { STORES, idbGet, idbSet } from './db';
+
+// Single source of truth for the free trial and paid subscriptions.
+//
+// - The record is HMAC-signed with a non-extractable key kept in IndexedDB, and mirrored to
+//   localStorage, so editing a date or deleting one copy is detected.
+// - Subscriptions are never stored as dates: we keep the signed activation codes and derive
+//   the expiry from them, so the only way to extend access is a new code.
+// - `lastSeenAt` only moves forward; a clock set back beyond the tolerance locks the app.
+// - A cookie remembers that a trial was started, so wiping both stores does not start a new one.
+// - Revoked codes (from the server's signed list) and codes moved to another device are kept
+//   by id and never count again.
+
+export const TRIAL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLOCK_TOLERANCE_MS = 5 * 60 * 1000;
+
+const RECORD_KEY = 'entitlement_record';
+const HMAC_KEY = 'entitlement_hmac_key';
+const DEVICE_ID_KEY = 'device_id';
+const TRIAL_COOKIE = 'entitlement_trial';
+const TRIAL_COOKIE_MAX_AGE_S = 2 * 365 * 24 * 60 * 60;
+// The old activation flow only ever added 30 days
+const MAX_LEGACY_GRANT_MS = 30 * DAY_MS;
+
+interface EntitlementRecord {
+  v: 1;
+  deviceId: string;
+  trialStartedAt: number;
+  lastSeenAt: number;
+  licenses: string[];
+  // Expiry dates carried over from the old unsigned `subscription_expiry_<grade>` keys
+  legacyGrants: Partial<Record<GradeLevel, number>>;
+  // Optional: absent on records written before revocation existed
+  revokedLicenseIds?: string[];
+  transferredLicenseIds?: string[];
+}
+
+interface SignedRecord {
+  record: EntitlementRecord;
+  mac: string;
+}
+
+export interface EntitlementState {
+  deviceId: string;
+  trialStartedAt: Date;
+  // Only the licenses that still count
+  licenses: LicensePayload[];
+  revokedLicenses: LicensePayload[];
+  transferredLicenses: LicensePayload[];
+  legacyGrants: Partial<Record<GradeLevel, number>>;
+  tampered: boolean;
+  clockRollback: boolean;
+}
+
+export type EntitlementStatus = 'subscribed' | 'trial' | 'trial_ended' | 'subscription_ended' | 'revoked' | 'transferred' | 'clock_rollback' | 'tampered';
+
+export interface EntitlementEvaluation {
+  status: EntitlementStatus;
+  isLocked: boolean;
+  trialEndsAt: Date;
+  subscriptionEndsAt: Date | null;
+}
+
+// --- Signing ---
+
+let hmacKeyPromise: Promise<CryptoKey> | null = null;
+
+// Without IndexedDB (some private modes) the key dies with the tab, so records from earlier
+// visits no longer verify and count as tampered; only the activation codes in them survive.
+const getHmacKey = (): Promise<CryptoKey> => {
+  if (hmacKeyPromise) return hmacKeyPromise;
+  hmacKeyPromise = (async () => {
+    const stored = await idbGet<CryptoKey>(STORES.KEYVAL, HMAC_KEY).catch(() => undefined);
+    if (stored) return stored;
+    const key = await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+    await idbSet(STORES.KEYVAL, HMAC_KEY, key).catch((error) => {
+      console.error("Failed to persist entitlement key:", error);
+    });
+    return key;
+  })();
+  return hmacKeyPromise;
+};
+
+const hasStoredHmacKey = async (): Promise<boolean> => {
+  return !!(await idbGet<CryptoKey>(STORES.KEYVAL, HMAC_KEY).catch(() => undefined));
+};
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+
+const signRecord = async (record: EntitlementRecord): Promise<SignedRecord> => {
+  const mac = await crypto.subtle.sign('HMAC', await getHmacKey(), new TextEncoder().encode(JSON.stringify(record)));
+  return { record, mac: toHex(mac) };
+};
+
+const isSignatureValid = async (signed: SignedRecord): Promise<boolean> => {
+  try {
+    const expected = await signRecord(signed.record);
+    return expected.mac === signed.mac;
+  } catch {
+    return false;
+  }
+};
+
+// --- Persistence (localStorage + IndexedDB mirror) ---
+
+const readLocalCopy = (): SignedRecord | null => {
+  try {
+    const raw = localStorage.getItem(RECORD_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const readCopies = async (): Promise<SignedRecord[]> => {
+  const idbCopy = await idbGet<SignedRecord>(STORES.KEYVAL, RECORD_KEY).catch(() => undefined);
+  return [readLocalCopy(), idbCopy].filter((copy): copy is SignedRecord => !!copy?.record);
+};
+
+const hasTrialCookie = () => document.cookie.split('; ').some((cookie) => cookie.startsWith(`${TRIAL_COOKIE}=`));
+
+const writeRecord = async (record: EntitlementRecord) => {
+  const signed = await signRecord(record);
+  localStorage.setItem(RECORD_KEY, JSON.stringify(signed));
+  localStorage.setItem(DEVICE_ID_KEY, record.deviceId);
+  document.cookie = `${TRIAL_COOKIE}=${record.trialStartedAt}; max-age=${TRIAL_COOKIE_MAX_AGE_S}; path=/; SameSite=Strict`;
+  await idbSet(STORES.KEYVAL, RECORD_KEY, signed).catch((error) => console.error("Failed to mirror entitlement record:", error));
+};
+
+const generateDeviceId = () => {
+  const array = new Uint32Array(2);
+  window.crypto.getRandomValues(array);
+  // Format: APP-XXXX-XXXX
+  return 'APP-' + array[0].toString(16).toUpperCase().padStart(4, '0') + '-' + array[1].toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Reads (and removes) the pre-signing keys so existing students keep their trial and subscription.
+// The keys are unsigned, so they are only honoured on a first run (`isFirstRun`), and a grant never
+// reaches further than the old flow could have given.
+const migrateLegacyKeys = (now: number, isFirstRun: boolean): Pick<EntitlementRecord, 'trialStartedAt' | 'legacyGrants'> => {
+  const legacyTrial = Date.parse(localStorage.getItem('trial_start_date') || '');
+  const legacyGrants: EntitlementRecord['legacyGrants'] = {};
+
+  Object.values(GradeLevel).forEach((grade) => {
+    const key = `subscription_expiry_${grade}`;
+    const expiry = Date.parse(localStorage.getItem(key) || '');
+    if (isFirstRun && !isNaN(expiry)) legacyGrants[grade] = Math.min(expiry, now + MAX_LEGACY_GRANT_MS);
+    localStorage.removeItem(key);
+  });
+  localStorage.removeItem('trial_start_date');
+
+  return {
+    trialStartedAt: isFirstRun && !isNaN(legacyTrial) && legacyTrial <= now ? legacyTrial : now,
+    legacyGrants,
+  };
+};
+
+const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+// Combine the surviving copies: earliest trial start, latest clock reading, every license
+const mergeRecords = (records: EntitlementRecord[]): EntitlementRecord => {
+  return records.reduce((merged, record) => ({
+    ...merged,
+    trialStartedAt: Math.min(merged.trialStartedAt, record.trialStartedAt),
+    lastSeenAt: Math.max(merged.lastSeenAt, record.lastSeenAt),
+    licenses: union(merged.licenses, record.licenses),
+    legacyGrants: { ...record.legacyGrants, ...merged.legacyGrants },
+    revokedLicenseIds: union(merged.revokedLicenseIds, record.revokedLicenseIds),
+    transferredLicenseIds: union(merged.transferredLicenseIds, record.transferredLicenseIds),
+  }));
+};
+
+// Loads and re-saves are serialized so two components loading at once cannot clobber each other
+let queue: Promise<unknown> = Promise.resolve();
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+const loadRecord = async (now: number): Promise<{ record: EntitlementRecord; tampered: boolean; clockRollback: boolean }> => {
+  const copies = await readCopies();
+  const validCopies: EntitlementRecord[] = [];
+  for (const copy of copies) {
+    if (await isSignatureValid(copy)) validCopies.push(copy.record);
+  }
+
+  let record: EntitlementRecord;
+  let tampered = copies.length > validCopies.length;
+
+  if (validCopies.length > 0) {
+    record = mergeRecords(validCopies);
+  } else {
+    // Nothing trustworthy left. A signing key or trial cookie without any record means the record was deleted;
+    // only a device with no trace of an earlier run may carry the old keys over.
+    const hasEarlierRun = copies.length > 0 || hasTrialCookie() || await hasStoredHmacKey();
+    tampered = tampered || hasEarlierRun;
+    const deviceId = copies[0]?.record.deviceId || localStorage.getItem(DEVICE_ID_KEY) || generateDeviceId();
+    // Codes are Ed25519-signed and re-verified, so they are kept even from a copy that failed its check;
+    // so are revocations and transfers, which only ever take access away
+    const salvage = (field: 'licenses' | 'revokedLicenseIds' | 'transferredLicenseIds') => copies.reduce((all: string[], copy) => {
+      const values: unknown = copy.record[field];
+      return union(all, Array.isArray(values) ? values.filter((value): value is string => typeof value === 'string') : []);
+    }, []);
+    record = {
+      v: 1,
+      deviceId,
+      lastSeenAt: now,
+      licenses: salvage('licenses'),
+      revokedLicenseIds: salvage('revokedLicenseIds'),
+      transferredLicenseIds: salvage('transferredLicenseIds'),
+      ...migrateLegacyKeys(now, !hasEarlierRun),
+    };
+  }
+
+  const clockRollback = now < record.lastSeenAt - CLOCK_TOLERANCE_MS;
+  if (!clockRollback) {
+    record = { ...record, lastSeenAt: Math.max(record.lastSeenAt, now) };
+  }
+  // Rewriting also repairs a deleted or tampered copy; a tampered trial stays marked as ended.
+  if (tampered) record = { ...record, trialStartedAt: Math.min(record.trialStartedAt, now - TRIAL_DAYS * DAY_MS) };
+  await writeRecord(record);
+
+  return { record, tampered, clockRollback };
+};
+
+const verifyLicenses = async (record: EntitlementRecord) => {
+  const revoked = new Set(record.revokedLicenseIds);
+  const transferred = new Set(record.transferredLicenseIds);
+  const result = { active: [] as LicensePayload[], revoked: [] as LicensePayload[], transferred: [] as LicensePayload[], activeTokens: [] as string[] };
+
+  for (const token of record.licenses) {
+    const verification = await verifyLicense(token, record.deviceId);
+    if (!verification.valid) continue;
+    const { license } = verification;
+    if (transferred.has(license.id)) {
+      result.transferred.push(license);
+    } else if (revoked.has(license.id)) {
+      result.revoked.push(license);
+    } else {
+      result.active.push(license);
+      result.activeTokens.push(token);
+    }
+  }
+  return result;
+};
+
+// --- Public API ---
+
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    const copy = readLocalCopy();
+    deviceId = copy?.record.deviceId || generateDeviceId();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+export const loadEntitlement = (now: Date = new Date()): Promise<EntitlementState> => serialized(async () => {
+  const { record, tampered, clockRollback } = await loadRecord(now.getTime());
+  const licenses = await verifyLicenses(record);
+  return {
+    deviceId: record.deviceId,
+    trialStartedAt: new Date(record.trialStartedAt),
+    licenses: licenses.active,
+    revokedLicenses: licenses.revoked,
+    transferredLicenses: licenses.transferred,
+    legacyGrants: record.legacyGrants,
+    tampered,
+    clockRollback,
+  };
+});
+
+// Verifies an activation code and stores it. Returns the license, or the reason it was refused.
+export const activateLicense = (token: string, now: Date = new Date()) => serialized(async (): Promise<LicenseVerification> => {
+  const { record } = await loadRecord(now.getTime());
+  const result = await verifyLicense(token, record.deviceId);
+  if (result.valid && [...(record.revokedLicenseIds || []), ...(record.transferredLicenseIds || [])].includes(result.license.id)) {
+    return { valid: false, reason: 'revoked' };
+  }
+  if (result.valid && !record.licenses.includes(token.trim())) {
+    await writeRecord({ ...record, licenses: [...record.licenses, token.trim()] });
+  }
+  return result;
+});
+
+// Adds ids from the server's revocation list. Returns true if any stored code was affected.
+export const applyRevocations = (licenseIds: string[], now: Date = new Date()) => serialized(async () => {
+  const { record } = await loadRecord(now.getTime());
+  const known = new Set(record.revokedLicenseIds);
+  const added = licenseIds.filter((id) => !known.has(id));
+  if (added.length === 0) return false;
+
+  await writeRecord({ ...record, revokedLicenseIds: union(record.revokedLicenseIds, added) });
+  const stored = new Set(record.licenses.map(getLicenseId));
+  return added.some((id) => stored.has(id));
+});
+
+// Moving to a new phone: every code that still counts is retired on this device and handed
+// back as tokens, which the admin verifies before issuing replacements for the new device id.
+export const deactivateForTransfer = (now: Date = new Date()) => serialized(async () => {
+  const { record } = await loadRecord(now.getTime());
+  const licenses = await verifyLicenses(record);
+  if (licenses.active.length === 0) return null;
+
+  await writeRecord({
+    ...record,
+    transferredLicenseIds: union(record.transferredLicenseIds, licenses.active.map((license) => license.id)),
+  });
+  return { deviceId: record.deviceId, tokens: licenses.activeTokens };
+});
+
+// Subscription end for a grade: codes are applied in issue order, renewals stack on remaining time
+export const getSubscriptionEnd = (state: EntitlementState, grade: GradeLevel): Date | null => {
+  const legacy = state.legacyGrants[grade];
+  let end: number | null = legacy ?? null;
+
+  [...state.licenses]
+    .filter((license) => getLicenseGrades(license).includes(grade))
+    .sort((a, b) => a.issuedAt.getTime() - b.issuedAt.getTime())
+    .forEach((license) => {
+      const start = Math.max(end ?? 0, license.issuedAt.getTime());
+      end = start + license.days * DAY_MS;
+    });
+
+  return end === null ? null : new Date(end);
+};
+
+export const evaluateEntitlement = (state: EntitlementState, grade: GradeLevel | null, now: Date = new Date()): EntitlementEvaluation => {
+  const trialEndsAt = new Date(state.trialStartedAt.getTime() + TRIAL_DAYS * DAY_MS);
+  const subscriptionEndsAt = grade ? getSubscriptionEnd(state, grade) : null;
+
+  const result = (status: EntitlementStatus): EntitlementEvaluation => ({
+    status,
+    isLocked: status !== 'subscribed' && status !== 'trial',
+    trialEndsAt,
+    subscriptionEndsAt,
+  });
+
+  // A rewound clock makes every date check meaningless, and a tampered record cannot be trusted for any grant
+  if (state.clockRollback) return result('clock_rollback');
+  if (state.tampered) return result('tampered');
+
+  if (subscriptionEndsAt) {
+    return result(now < subscriptionEndsAt ? 'subscribed' : 'subscription_ended');
+  }
+  const coversGrade = (license: LicensePayload) => !!grade && getLicenseGrades(license).includes(grade);
+  if (state.transferredLicenses.some(coversGrade)) return result('transferred');
+  if (state.revokedLicenses.some(coversGrade)) return result('revoked');
+  return result(now < trialEndsAt ? 'trial' : 'trial_ended');
+};
@@ -0,0 +1,79 @@
+import { CurriculumTermKey, GradeLevel, QuizQuestion, Subject, WrittenAnswerGrade } from '../types';
+import { ExamBlueprint, ExamSectionBlueprint } from '../data/examBlueprints';
+
+// A generated mock exam and how it is marked. Objective questions are marked here;
+// written answers carry the grade the AI gave them.
+
+export interface ExamSection extends ExamSectionBlueprint {
+  questions: QuizQuestion[];
+}
+
+export interface Exam {
+  grade: GradeLevel;
+  subject: Subject;
+  term: CurriculumTermKey;
+  durationMinutes: number;
+  sections: ExamSection[];
+}
+
+// Choice index (MCQ), true/false, or written text (essay), keyed by question id
+export type ExamAnswers = Record<string, number | boolean | string>;
+
+export interface ExamSectionScore {
+  score: number;
+  total: number;
+}
+
+// Question ids restart in every section; make them unique across the paper
+export const createExamSection = (blueprint: ExamSectionBlueprint, sectionIndex: number, questions: QuizQuestion[]): ExamSection => ({
+  ...blueprint,
+  questions: questions.map((question, index) => ({ ...question, id: `s${sectionIndex + 1}-q${index + 1}` })),
+});
+
+export const createExam = (grade: GradeLevel, subject: Subject, term: Exam['term'], blueprint: ExamBlueprint, sections: ExamSection[]): Exam => ({
+  grade,
+  subject,
+  term,
+  durationMinutes: blueprint.durationMinutes,
+  sections,
+});
+
+export const getExamQuestions = (exam: Exam): QuizQuestion[] => exam.sections.flatMap((section) => section.questions);
+
+export const isObjectiveCorrect = (question: QuizQuestion, answer: ExamAnswers[string] | undefined): boolean => {
+  if (question.kind === 'mcq') return answer === question.correctIndex;
+  if (question.kind === 'true_false') return answer === question.answer;
+  return false;
+};
+
+// Marks for one question: objective ones are all-or-nothing, essays use the written grade
+export const getQuestionScore = (
+  section: ExamSection,
+  question: QuizQuestion,
+  answers: ExamAnswers,
+  writtenGrades: Record<string, WrittenAnswerGrade>
+): number => {
+  if (question.kind === 'essay') return writtenGrades[question.id]?.awarded ?? 0;
+  return isObjectiveCorrect(question, answers[question.id]) ? section.marksEach : 0;
+};
+
+export const scoreExam = (exam: Exam, answers: ExamAnswers, writtenGrades: Record<string, WrittenAnswerGrade>) => {
+  const sections: ExamSectionScore[] = exam.sections.map((section) => ({
+    score: section.questions.reduce((sum, question) => sum + getQuestionScore(section, question, answers, writtenGrades), 0),
+    total: section.questions.length * section.marksEach,
+  }));
+  return {
+    sections,
+    score: sections.reduce((sum, section) => sum + section.score, 0),
+    total: sections.reduce((sum, section) => sum + section.total, 0),
+  };
+};
+
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
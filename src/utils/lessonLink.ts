@@ -0,0 +1,35 @@
+import { GradeLevel, Subject } from '../types';
+import { getGradeSubjects } from '../data/subjects';
+import { resolveLegacyLessonId } from '../data/curriculum';
+
+// Links that open a subject's chat and ask for a lesson explanation, e.g. from a study plan in a calendar app.
+// Format: #lesson?grade=...&subject=...&lessonId=... (older links carry the lesson title as lesson=...)
+
+const LINK_PREFIX = '#lesson?';
+
+export interface LessonLink {
+  grade: GradeLevel;
+  subject: Subject;
+  lessonId: string;
+}
+
+export const buildLessonHash = ({ grade, subject, lessonId }: LessonLink): string =>
+  LINK_PREFIX + new URLSearchParams({ grade, subject, lessonId }).toString();
+
+export const buildLessonUrl = (link: LessonLink): string =>
+  `${window.location.origin}${window.location.pathname}${buildLessonHash(link)}`;
+
+export const parseLessonHash = (hash: string): LessonLink | null => {
+  if (!hash.startsWith(LINK_PREFIX)) return null;
+  const params = new URLSearchParams(hash.slice(LINK_PREFIX.length));
+  const grade = params.get('grade') as GradeLevel | null;
+  const subject = params.get('subject') as Subject | null;
+  const lessonId = params.get('lessonId');
+  const lessonTitle = params.get('lesson');
+
+  if (!grade || !Object.values(GradeLevel).includes(grade)) return null;
+  if (!subject || !getGradeSubjects(grade).includes(subject)) return null;
+  if (lessonId) return { grade, subject, lessonId };
+  if (lessonTitle) return { grade, subject, lessonId: resolveLegacyLessonId(grade, subject, lessonTitle) };
+  return null;
+};
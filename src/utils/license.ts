@@ -0,0 +1,184 @@
+import * as ed from '@noble/ed25519';
+import { GradeLevel } from '../types';
+import { PlanTier, DEFAULT_PLAN, isPlanTier } from '../data/plans';
+
+// Activation codes are Ed25519-signed license tokens: `<payload>.<signature>` (both base64url).
+// Only the public key ships in the bundle (LICENSE_PUBLIC_KEY, hex), so codes can be verified
+// offline but only the holder of the private key (the admin) can mint them.
+
+const LICENSE_PUBLIC_KEY = process.env.LICENSE_PUBLIC_KEY || '';
+
+export type GradeKey = keyof typeof GradeLevel;
+// A license covers one grade, or every grade for bundle packages
+export type LicenseGrade = GradeKey | 'ALL';
+
+export interface LicensePayload {
+  // Derived from the signature (see getLicenseId); used to revoke a code
+  id: string;
+  deviceId: string;
+  grade: LicenseGrade;
+  days: number;
+  plan: PlanTier;
+  issuedAt: Date;
+}
+
+export type LicenseVerification =
+  | { valid: true; license: LicensePayload }
+  // 'revoked' only comes from the entitlement store, which knows the revoked ids
+  | { valid: false; reason: 'not_configured' | 'malformed' | 'signature' | 'device' | 'revoked' };
+
+export interface RevocationList {
+  licenseIds: string[];
+  issuedAt: Date;
+}
+
+// Compact wire format keeps the code short enough to paste into WhatsApp
+interface WirePayload {
+  v: 1;
+  d: string; // device id
+  g: LicenseGrade;
+  n: number; // days
+  p?: PlanTier; // absent on the first codes, which were all monthly
+  i: number; // issued at, unix seconds
+}
+
+interface RevocationWire {
+  v: 1;
+  t: 'revocations';
+  r: string[]; // license ids
+  i: number; // issued at, unix seconds
+}
+
+const textEncoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((b) => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+export const gradeToKey = (grade: GradeLevel): GradeKey => {
+  return (Object.keys(GradeLevel) as GradeKey[]).find((key) => GradeLevel[key] === grade)!;
+};
+
+// Grades unlocked by a license
+export const getLicenseGrades = (license: LicensePayload): GradeLevel[] => {
+  return license.grade === 'ALL' ? Object.values(GradeLevel) : [GradeLevel[license.grade]];
+};
+
+export const isLicenseConfigured = (): boolean => LICENSE_PUBLIC_KEY.length === 64;
+
+export const derivePublicKey = async (privateKeyHex: string): Promise<string> => {
+  const publicKey = await ed.getPublicKeyAsync(ed.etc.hexToBytes(privateKeyHex.trim()));
+  return ed.etc.bytesToHex(publicKey);
+};
+
+// True if the pasted private key belongs to the public key this build trusts
+export const isSigningKeyValid = async (privateKeyHex: string): Promise<boolean> => {
+  try {
+    return (await derivePublicKey(privateKeyHex)) === LICENSE_PUBLIC_KEY.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+// `<payload>.<signature>` envelope shared by licenses and revocation lists
+const signEnvelope = async (wire: object, privateKeyHex: string): Promise<string> => {
+  const encodedPayload = toBase64Url(textEncoder.encode(JSON.stringify(wire)));
+  const signature = await ed.signAsync(textEncoder.encode(encodedPayload), ed.etc.hexToBytes(privateKeyHex.trim()));
+  return `${encodedPayload}.${toBase64Url(signature)}`;
+};
+
+const openEnvelope = async <T>(token: string): Promise<{ ok: true; wire: T } | { ok: false; reason: 'malformed' | 'signature' }> => {
+  const [encodedPayload, encodedSignature, ...rest] = token.trim().split('.');
+  if (!encodedPayload || !encodedSignature || rest.length > 0) return { ok: false, reason: 'malformed' };
+
+  try {
+    const isValid = await ed.verifyAsync(
+      fromBase64Url(encodedSignature),
+      textEncoder.encode(encodedPayload),
+      ed.etc.hexToBytes(LICENSE_PUBLIC_KEY)
+    );
+    if (!isValid) return { ok: false, reason: 'signature' };
+    return { ok: true, wire: JSON.parse(new TextDecoder().decode(fromBase64Url(encodedPayload))) };
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+};
+
+// Stable, short id for a code. Signatures are unique per code, so their prefix is too.
+export const getLicenseId = (token: string): string => {
+  return (token.trim().split('.')[1] || '').slice(0, 16);
+};
+
+export const signLicense = async (license: Omit<LicensePayload, 'id'>, privateKeyHex: string): Promise<string> => {
+  const wire: WirePayload = {
+    v: 1,
+    d: license.deviceId.trim(),
+    g: license.grade,
+    n: license.days,
+    p: license.plan,
+    i: Math.floor(license.issuedAt.getTime() / 1000),
+  };
+  return signEnvelope(wire, privateKeyHex);
+};
+
+export const verifyLicense = async (token: string, deviceId: string): Promise<LicenseVerification> => {
+  if (!isLicenseConfigured()) return { valid: false, reason: 'not_configured' };
+
+  const opened = await openEnvelope<WirePayload>(token);
+  if (!opened.ok) return { valid: false, reason: opened.reason };
+  const wire = opened.wire;
+
+  const isKnownGrade = wire.g === 'ALL' || wire.g in GradeLevel;
+  const isKnownPlan = wire.p === undefined || isPlanTier(wire.p);
+  // A missing or non-numeric issue time would become an Invalid Date and break every expiry check
+  const isIssueTimeValid = typeof wire.i === 'number' && Number.isFinite(wire.i);
+  if (wire.v !== 1 || typeof wire.d !== 'string' || !isKnownGrade || !isKnownPlan || !(wire.n > 0) || !isIssueTimeValid) {
+    return { valid: false, reason: 'malformed' };
+  }
+  if (wire.d !== deviceId) return { valid: false, reason: 'device' };
+
+  return {
+    valid: true,
+    license: {
+      id: getLicenseId(token),
+      deviceId: wire.d,
+      grade: wire.g,
+      days: wire.n,
+      plan: wire.p || DEFAULT_PLAN,
+      issuedAt: new Date(wire.i * 1000),
+    },
+  };
+};
+
+// Revocation lists are published by the server, signed with the same key as the codes
+export const signRevocationList = async (list: RevocationList, privateKeyHex: string): Promise<string> => {
+  const wire: RevocationWire = {
+    v: 1,
+    t: 'revocations',
+    r: list.licenseIds,
+    i: Math.floor(list.issuedAt.getTime() / 1000),
+  };
+  return signEnvelope(wire, privateKeyHex);
+};
+
+export const verifyRevocationList = async (token: string): Promise<RevocationList | null> => {
+  if (!isLicenseConfigured()) return null;
+
+  const opened = await openEnvelope<RevocationWire>(token);
+  if (!opened.ok) return null;
+  const wire = opened.wire;
+  if (wire.v !== 1 || wire.t !== 'revocations' || !Array.isArray(wire.r) || typeof wire.i !== 'number' || !Number.isFinite(wire.i)) return null;
+
+  return {
+    licenseIds: wire.r.filter((id) => typeof id === 'string'),
+    issuedAt: new Date(wire.i * 1000),
+  };
+};
@@ -0,0 +1,132 @@
+import { StudyPlan, StudyPlanItem, Subject } from '../types';
+import { toDayKey } from './analytics';
+
+// Spreads lessons evenly over the days left before the exam.
+// Every seventh day reviews the lessons since the previous review, and the last days before the exam
+// are a final review of everything. Subjects are interleaved so each day mixes them.
+
+export const SESSION_MINUTES = 60;
+const REVIEW_EVERY = 7;
+const MAX_FINAL_REVIEW_DAYS = 2;
+
+export interface PlanLesson {
+  subject: Subject;
+  lessonId: string;
+  lesson: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtc = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return Date.UTC(year, month - 1, date);
+};
+
+export const addDays = (day: string, count: number): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  return toDayKey(new Date(year, month - 1, date + count));
+};
+
+export const daysBetween = (from: string, to: string): number => Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+
+const createItemId = (date: string) => `${date}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getSessionsPerDay = (hoursPerDay: number) => Math.max(1, Math.floor((hoursPerDay * 60) / SESSION_MINUTES));
+
+// Round-robin over subjects, keeping the curriculum order within each one
+const interleaveBySubject = (lessons: PlanLesson[]): PlanLesson[] => {
+  const bySubject = new Map<Subject, PlanLesson[]>();
+  lessons.forEach((lesson) => bySubject.set(lesson.subject, [...(bySubject.get(lesson.subject) || []), lesson]));
+
+  const queues = Array.from(bySubject.values());
+  const result: PlanLesson[] = [];
+  while (queues.some((queue) => queue.length > 0)) {
+    queues.forEach((queue) => {
+      const next = queue.shift();
+      if (next) result.push(next);
+    });
+  }
+  return result;
+};
+
+// One review item per subject, sharing the day's hours
+const createReviewItems = (date: string, lessons: PlanLesson[], hoursPerDay: number): StudyPlanItem[] => {
+  const bySubject = new Map<Subject, string[]>();
+  lessons.forEach(({ subject, lesson }) => bySubject.set(subject, [...(bySubject.get(subject) || []), lesson]));
+
+  const minutes = Math.max(15, Math.round((hoursPerDay * 60) / bySubject.size / 5) * 5);
+  return Array.from(bySubject.entries()).map(([subject, subjectLessons]) => ({
+    id: createItemId(date),
+    date,
+    subject,
+    minutes,
+    kind: 'review',
+    lessons: subjectLessons,
+  }));
+};
+
+export const buildPlanItems = (lessons: PlanLesson[], startDate: string, examDate: string, hoursPerDay: number): StudyPlanItem[] => {
+  const totalDays = daysBetween(startDate, examDate);
+  if (totalDays <= 0 || lessons.length === 0) return [];
+
+  const finalReviewDays = Math.min(MAX_FINAL_REVIEW_DAYS, Math.floor(totalDays / REVIEW_EVERY));
+  const isFinalReview = (index: number) => index >= totalDays - finalReviewDays;
+  const isWeeklyReview = (index: number) => !isFinalReview(index) && (index + 1) % REVIEW_EVERY === 0;
+
+  // Review days only start with a week to go, so there is always a study day
+  const studyDays = Array.from({ length: totalDays }, (_, index) => index)
+    .filter((index) => !isFinalReview(index) && !isWeeklyReview(index));
+
+  const ordered = interleaveBySubject(lessons);
+  const lessonsByDay = new Map<number, PlanLesson[]>();
+  ordered.forEach((lesson, i) => {
+    const day = studyDays[Math.floor((i * studyDays.length) / ordered.length)];
+    lessonsByDay.set(day, [...(lessonsByDay.get(day) || []), lesson]);
+  });
+
+  const items: StudyPlanItem[] = [];
+  let sinceLastReview: PlanLesson[] = [];
+  for (let index = 0; index < totalDays; index++) {
+    const date = addDays(startDate, index);
+
+    if (isFinalReview(index)) {
+      // Split the subjects across the final review days
+      const finalDay = index - (totalDays - finalReviewDays);
+      const subjects = Array.from(new Set(ordered.map((lesson) => lesson.subject)));
+      const daySubjects = subjects.filter((_, i) => i % finalReviewDays === finalDay);
+      items.push(...createReviewItems(date, lessons.filter((lesson) => daySubjects.includes(lesson.subject)), hoursPerDay));
+    } else if (isWeeklyReview(index)) {
+      if (sinceLastReview.length > 0) items.push(...createReviewItems(date, sinceLastReview, hoursPerDay));
+      sinceLastReview = [];
+    } else {
+      const dayLessons = lessonsByDay.get(index) || [];
+      dayLessons.forEach(({ subject, lessonId, lesson }) => {
+        items.push({ id: createItemId(date), date, subject, minutes: SESSION_MINUTES, kind: 'lesson', lessonId, lesson });
+      });
+      sinceLastReview.push(...dayLessons);
+    }
+  }
+  return items;
+};
+
+// More lessons on some day than the student's hours allow
+export const isPlanOverloaded = (plan: StudyPlan): boolean => {
+  const perDay: Record<string, number> = {};
+  plan.items.forEach((item) => {
+    if (item.kind === 'lesson') perDay[item.date] = (perDay[item.date] || 0) + 1;
+  });
+  return Object.values(perDay).some((count) => count > getSessionsPerDay(plan.hoursPerDay));
+};
+
+export const getMissedItems = (plan: StudyPlan, today: string): StudyPlanItem[] =>
+  plan.items.filter((item) => !item.doneAt && item.date < today);
+
+// Lessons not done yet are spread again from today; finished items stay where they were
+export const reschedulePlan = (plan: StudyPlan, today: string): StudyPlan => {
+  const done = plan.items.filter((item) => item.doneAt);
+  const remaining = plan.items.flatMap((item): PlanLesson[] =>
+    item.kind === 'lesson' && !item.doneAt ? [{ subject: item.subject, lessonId: item.lessonId, lesson: item.lesson }] : []
+  );
+  const rebuilt = buildPlanItems(remaining, today, plan.examDate, plan.hoursPerDay);
+  return { ...plan, items: [...done, ...rebuilt].sort((a, b) => a.date.localeCompare(b.date)) };
+};
@@ -0,0 +1,55 @@
+import { LessonProgress, QuizResult } from '../types';
+
+// How far a student is through a lesson, from what they did with it.
+// Explanation and video each count for a quarter; the quiz carries the other half in proportion to
+// the score. A strong quiz score on its own is enough to call the lesson mastered.
+
+export type MasteryLevel = 'new' | 'started' | 'practiced' | 'mastered';
+
+export interface LessonStatus {
+  explained: boolean;
+  videoWatched: boolean;
+  quiz?: { score: number; total: number };
+  mastery: MasteryLevel;
+  // 0..1
+  completion: number;
+}
+
+const MASTERY_THRESHOLD = 0.85;
+
+export const MASTERY_LABELS: Record<MasteryLevel, string> = {
+  new: 'لم تبدأ',
+  started: 'بدأت',
+  practiced: 'تدربت',
+  mastered: 'متقن',
+};
+
+export const getLessonStatus = (progress?: LessonProgress, quiz?: QuizResult): LessonStatus => {
+  const explained = !!progress?.explainedAt;
+  const videoWatched = !!progress?.videoWatchedAt;
+  const quizRatio = quiz && quiz.total > 0 ? quiz.score / quiz.total : null;
+
+  const mastery: MasteryLevel =
+    quizRatio !== null && quizRatio >= MASTERY_THRESHOLD ? 'mastered'
+    : quizRatio !== null ? 'practiced'
+    : explained || videoWatched ? 'started'
+    : 'new';
+
+  const completion = mastery === 'mastered'
+    ? 1
+    : (explained ? 0.25 : 0) + (videoWatched ? 0.25 : 0) + (quizRatio ?? 0) * 0.5;
+
+  return {
+    explained,
+    videoWatched,
+    quiz: quiz ? { score: quiz.score, total: quiz.total } : undefined,
+    mastery,
+    completion,
+  };
+};
+
+// Average over every lesson in the list, untouched lessons counting as zero
+export const getAverageCompletion = (lessons: string[], statuses: Record<string, LessonStatus>): number => {
+  if (lessons.length === 0) return 0;
+  return lessons.reduce((sum, lesson) => sum + (statuses[lesson]?.completion ?? 0), 0) / lessons.length;
+};
@@ -0,0 +1,73 @@
+import { QuizQuestion } from '../types';
+
+// Turns the model's JSON into quiz questions and scores the student's answers.
+// The response schema asks for one flat shape for every kind, so fields that do not belong to a
+// question's kind are ignored, and questions that cannot be answered (e.g. an MCQ whose correct
+// index is out of range) are dropped instead of shown broken.
+
+export interface RawQuizQuestion {
+  type?: string;
+  question?: string;
+  options?: string[];
+  correctIndex?: number;
+  correctAnswer?: boolean;
+  modelAnswer?: string;
+  rubric?: string[];
+  explanation?: string;
+}
+
+export type QuizAnswer =
+  | { kind: 'mcq'; choice: number }
+  | { kind: 'true_false'; choice: boolean }
+  // The student marks their own essay after reading the model answer
+  | { kind: 'essay'; text: string; correct: boolean };
+
+const clean = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const normalizeQuestion = (raw: RawQuizQuestion, index: number): QuizQuestion | null => {
+  const id = `q${index + 1}`;
+  const question = clean(raw.question);
+  const explanation = clean(raw.explanation);
+  if (!question) return null;
+
+  switch (raw.type) {
+    case 'mcq': {
+      const options = (Array.isArray(raw.options) ? raw.options : []).map(clean).filter(Boolean);
+      const correctIndex = Number(raw.correctIndex);
+      if (options.length < 2 || !Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) return null;
+      return { id, kind: 'mcq', question, explanation, options, correctIndex };
+    }
+    case 'true_false':
+      if (typeof raw.correctAnswer !== 'boolean') return null;
+      return { id, kind: 'true_false', question, explanation, answer: raw.correctAnswer };
+    case 'essay': {
+      const modelAnswer = clean(raw.modelAnswer);
+      if (!modelAnswer) return null;
+      const rubric = (Array.isArray(raw.rubric) ? raw.rubric : []).map(clean).filter(Boolean);
+      return { id, kind: 'essay', question, explanation, modelAnswer, rubric };
+    }
+    default:
+      return null;
+  }
+};
+
+export const normalizeQuiz = (raw: { questions?: RawQuizQuestion[] } | null): QuizQuestion[] => {
+  if (!raw || !Array.isArray(raw.questions)) return [];
+  return raw.questions
+    .map(normalizeQuestion)
+    .filter((question): question is QuizQuestion => question !== null);
+};
+
+export const isAnswerCorrect = (question: QuizQuestion, answer: QuizAnswer): boolean => {
+  if (question.kind !== answer.kind) return false;
+  switch (answer.kind) {
+    case 'mcq': return answer.choice === (question as Extract<QuizQuestion, { kind: 'mcq' }>).correctIndex;
+    case 'true_false': return answer.choice === (question as Extract<QuizQuestion, { kind: 'true_false' }>).answer;
+    case 'essay': return answer.correct;
+  }
+};
+
+export const scoreQuiz = (questions: QuizQuestion[], answers: Record<string, QuizAnswer>) => ({
+  score: questions.filter((question) => answers[question.id] && isAnswerCorrect(question, answers[question.id])).length,
+  total: questions.length,
+});
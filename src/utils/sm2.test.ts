@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EASE, RATING_QUALITY, createSm2State, scheduleReview } from './sm2';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-01T10:00:00Z');
+
+describe('scheduleReview', () => {
+  it('spaces good answers out by 1, 6, then interval × ease days', () => {
+    let state = createSm2State(NOW);
+    const intervals = [1, 2, 3].map(() => {
+      state = scheduleReview(state, RATING_QUALITY.good, NOW);
+      return state.interval;
+    });
+    expect(intervals).toEqual([1, 6, Math.round(6 * DEFAULT_EASE)]);
+    expect(state.easeFactor).toBe(DEFAULT_EASE);
+  });
+
+  it('restarts a forgotten card tomorrow without changing its ease', () => {
+    const learned = { repetitions: 4, interval: 30, easeFactor: 2.2, dueAt: NOW };
+    const lapsed = scheduleReview(learned, RATING_QUALITY.again, NOW);
+
+    expect(lapsed).toEqual({ repetitions: 0, interval: 1, easeFactor: 2.2, dueAt: new Date(NOW.getTime() + DAY_MS) });
+  });
+});
@@ -0,0 +1,51 @@
+// SM-2 spaced-repetition scheduling (the SuperMemo 2 algorithm Anki started from).
+// After each review the student rates recall from 0 (forgot) to 5 (perfect); good answers push the
+// next review further out by the card's ease factor, lapses send the card back to day one.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export const DEFAULT_EASE = 2.5;
+
+export interface Sm2State {
+  repetitions: number;
+  // Days until the next review
+  interval: number;
+  easeFactor: number;
+  dueAt: Date;
+}
+
+// The four buttons shown to students, mapped to SM-2 quality
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export const RATING_QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const createSm2State = (now: Date = new Date()): Sm2State => ({
+  repetitions: 0,
+  interval: 0,
+  easeFactor: DEFAULT_EASE,
+  // New cards are due straight away
+  dueAt: now,
+});
+
+export const scheduleReview = (state: Sm2State, quality: number, now: Date = new Date()): Sm2State => {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+  // As in SM-2, a lapse restarts the repetitions but leaves the ease factor alone
+  if (q < 3) {
+    return { repetitions: 0, interval: 1, easeFactor: state.easeFactor, dueAt: new Date(now.getTime() + DAY_MS) };
+  }
+
+  const easeFactor = Math.max(MIN_EASE, state.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  const repetitions = state.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.interval * easeFactor);
+  return { repetitions, interval, easeFactor, dueAt: new Date(now.getTime() + interval * DAY_MS) };
+};
+
+export const isDue = (state: Pick<Sm2State, 'dueAt'>, now: Date = new Date()) => state.dueAt.getTime() <= now.getTime();
@@ -17,12 +17,20 @@ export default defineConfig(({ mode }) => {
     base: './',
     plugins: [react()],
     define: {
-      // Vital: Polyfill process.env for the browser
-      'process.env.API_KEY': JSON.stringify(getEnv('API_KEY')),
-      'process.env.API_KEY_2': JSON.stringify(getEnv('API_KEY_2')),
-      'process.env.API_KEY_3': JSON.stringify(getEnv('API_KEY_3')),
-      'process.env.API_KEY_4': JSON.stringify(getEnv('API_KEY_4')),
-      'process.env.API_KEY_5': JSON.stringify(getEnv('API_KEY_5')),
+      // Vital: Polyfill process.env for the browser.
+      // Only public values belong here - the Gemini keys live on the server (see /server).
+      'process.env.API_BASE_URL': JSON.stringify(getEnv('API_BASE_URL')),
+      // Ed25519 public key used to verify activation codes offline
+      'process.env.LICENSE_PUBLIC_KEY': JSON.stringify(getEnv('LICENSE_PUBLIC_KEY')),
+    },
+    server: {
+      // Forward API calls (and the Live WebSocket) to the local backend during development
+      proxy: {
+        '/api': {
+          target: `http://localhost:${getEnv('PORT') || 8787}`,
+          ws: true,
+        },
+      },
     },
     build: {
       outDir: 'dist',